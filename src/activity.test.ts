@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createExcludeMatcher, findNewestFileTime, getGitActivityTime, parseReflogTime } from "./activity";
+
+describe("createExcludeMatcher", () => {
+  const isExcluded = createExcludeMatcher(["node_modules", "dist/", "*.log", "tmp?"]);
+
+  it("matches exact names", () => {
+    expect(isExcluded("node_modules")).toBe(true);
+    expect(isExcluded("node_modules_backup")).toBe(false);
+  });
+
+  it("ignores trailing slashes", () => {
+    expect(isExcluded("dist")).toBe(true);
+  });
+
+  it("supports * and ? globs", () => {
+    expect(isExcluded("debug.log")).toBe(true);
+    expect(isExcluded("tmp1")).toBe(true);
+    expect(isExcluded("tmp12")).toBe(false);
+  });
+});
+
+describe("parseReflogTime", () => {
+  it("extracts the unix timestamp", () => {
+    expect(parseReflogTime("HEAD@{1700000000}\n")).toBe(1_700_000_000_000);
+  });
+
+  it("returns undefined for other output", () => {
+    expect(parseReflogTime("")).toBeUndefined();
+    expect(parseReflogTime("HEAD@{now}")).toBeUndefined();
+  });
+});
+
+describe("findNewestFileTime", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-activity-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function touch(relativePath: string, seconds: number) {
+    const path = join(dir, relativePath);
+    mkdirSync(join(path, ".."), { recursive: true });
+    writeFileSync(path, "");
+    utimesSync(path, seconds, seconds);
+  }
+
+  const options = { exclude: ["node_modules"], maxDepth: 4, maxEntries: 1000 };
+
+  it("finds the newest file in nested directories", async () => {
+    touch("README.md", 1000);
+    touch("src/lib/index.ts", 3000);
+    touch("src/main.ts", 2000);
+
+    expect(await findNewestFileTime(dir, options)).toBe(3_000_000);
+  });
+
+  it("skips excluded directories", async () => {
+    touch("src/main.ts", 2000);
+    touch("node_modules/pkg/index.js", 9000);
+
+    expect(await findNewestFileTime(dir, options)).toBe(2_000_000);
+  });
+
+  it("stops at the maximum depth", async () => {
+    touch("a.txt", 1000);
+    touch("one/two/deep.txt", 5000);
+
+    expect(await findNewestFileTime(dir, { ...options, maxDepth: 1 })).toBe(1_000_000);
+  });
+
+  it("stops after the maximum number of entries", async () => {
+    touch("a.txt", 1000);
+    touch("z/late.txt", 5000);
+
+    expect(await findNewestFileTime(dir, { ...options, maxEntries: 2 })).toBe(1_000_000);
+  });
+
+  it("returns undefined for empty or missing directories", async () => {
+    expect(await findNewestFileTime(dir, options)).toBeUndefined();
+    expect(await findNewestFileTime(join(dir, "missing"), options)).toBeUndefined();
+  });
+});
+
+describe("getGitActivityTime", () => {
+  it("returns undefined outside a git repository", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "pj-activity-"));
+    try {
+      expect(await getGitActivityTime(dir)).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
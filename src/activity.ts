@@ -0,0 +1,121 @@
+import type { Dirent } from "fs";
+import { lstat, readdir } from "fs/promises";
+import { join } from "path";
+import { runGit } from "./git";
+
+export interface ScanOptions {
+  // Directory names or simple globs (e.g. "*.log") to skip, from pj's exclude list
+  exclude: string[];
+  maxDepth: number;
+  // Upper bound on directory entries examined, so huge trees can't stall the command
+  maxEntries: number;
+}
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = { exclude: [], maxDepth: 4, maxEntries: 5000 };
+
+// Turn pj exclude patterns into a matcher over entry names
+export function createExcludeMatcher(patterns: string[]): (name: string) => boolean {
+  const exact = new Set<string>();
+  const globs: RegExp[] = [];
+
+  for (const pattern of patterns) {
+    const name = pattern.replace(/\/+$/, "");
+    if (/[*?]/.test(name)) {
+      const source = name
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/\?/g, ".");
+      globs.push(new RegExp(`^${source}$`));
+    } else {
+      exact.add(name);
+    }
+  }
+
+  return (name) => exact.has(name) || globs.some((glob) => glob.test(name));
+}
+
+// Newest file modification time under a directory, scanning breadth-first within the given bounds
+export async function findNewestFileTime(
+  root: string,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+): Promise<number | undefined> {
+  const isExcluded = createExcludeMatcher(options.exclude);
+  let newest: number | undefined;
+  let examined = 0;
+  let queue: string[] = [root];
+
+  for (let depth = 0; depth <= options.maxDepth && queue.length > 0; depth++) {
+    const nextQueue: string[] = [];
+
+    for (const dir of queue) {
+      let entries: Dirent[];
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (examined >= options.maxEntries) {
+          return newest;
+        }
+        examined += 1;
+
+        if (isExcluded(entry.name)) continue;
+        const path = join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          nextQueue.push(path);
+        } else if (entry.isFile()) {
+          try {
+            const { mtimeMs } = await lstat(path);
+            if (newest === undefined || mtimeMs > newest) newest = mtimeMs;
+          } catch {
+            // File vanished while scanning
+          }
+        }
+      }
+    }
+
+    queue = nextQueue;
+  }
+
+  return newest;
+}
+
+// Extract the timestamp from `git log -g --date=unix --format=%gd` output (e.g. "HEAD@{1700000000}")
+export function parseReflogTime(output: string): number | undefined {
+  const match = output.match(/@\{(\d+)\}/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+// Latest of the last commit touching the project and, for repository roots, the last reflog entry
+// (checkouts, rebases, resets); undefined outside git
+export async function getGitActivityTime(path: string): Promise<number | undefined> {
+  const [prefixOutput, commitOutput, reflogOutput] = await Promise.all([
+    runGit(path, ["rev-parse", "--show-prefix"]),
+    runGit(path, ["log", "-1", "--format=%ct", "--", "."]),
+    runGit(path, ["log", "-g", "-1", "--date=unix", "--format=%gd"]),
+  ]);
+  if (prefixOutput === undefined) {
+    return undefined;
+  }
+
+  const commitSeconds = Number.parseInt(commitOutput?.trim() ?? "", 10);
+  // The reflog is repository-wide, so it only says something about the repository root
+  const isRepositoryRoot = prefixOutput.trim() === "";
+  const times = [
+    Number.isNaN(commitSeconds) ? undefined : commitSeconds * 1000,
+    isRepositoryRoot && reflogOutput ? parseReflogTime(reflogOutput) : undefined,
+  ].filter((time): time is number => time !== undefined);
+
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+// When the project was last worked on: git history for repositories, newest file otherwise
+export async function resolveProjectActivity(
+  path: string,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+): Promise<number | undefined> {
+  return (await getGitActivityTime(path)) ?? (await findNewestFileTime(path, options));
+}
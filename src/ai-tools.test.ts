@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TOOL_LIMIT,
+  favoriteProjects,
+  findProjects,
+  matchesProjectType,
+  recentlyModifiedProjects,
+  recentlyOpenedProjects,
+  resolveProjectReference,
+  type ToolData,
+} from "./ai-tools";
+import type { Project, ProjectHistoryEntry } from "./types";
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(path: string, visits: number[]): ProjectHistoryEntry {
+  return { path, count: visits.length, visits, lastAccessed: visits[0] };
+}
+
+const projects: Project[] = [
+  { name: "payments-service", path: "/Users/me/code/payments-service", marker: "go.mod" },
+  { name: "billing-api", path: "/Users/me/code/billing-api", marker: "go.mod" },
+  { name: "web", path: "/Users/me/code/web", marker: "package.json" },
+  { name: "cli", path: "/Users/me/code/cli", marker: "Cargo.toml" },
+  { name: "dotfiles", path: "/Users/me/dotfiles", marker: ".git" },
+];
+
+function toolData(overrides: Partial<ToolData> = {}): ToolData {
+  return {
+    projects,
+    favorites: ["/Users/me/code/web", "/Users/me/code/billing-api"],
+    history: [
+      entry("/Users/me/code/cli", [NOW - DAY, NOW - 2 * DAY]),
+      entry("/Users/me/code/payments-service", [NOW - 3 * DAY]),
+      entry("/Users/me/code/billing-api", [NOW - 10 * DAY]),
+    ],
+    tags: { "/Users/me/code/web": ["frontend"] },
+    home: "/Users/me",
+    ...overrides,
+  };
+}
+
+describe("matchesProjectType", () => {
+  const goProject = projects[0];
+
+  it("matches the readable type, the marker and aliases case-insensitively", () => {
+    expect(matchesProjectType(goProject, "Go")).toBe(true);
+    expect(matchesProjectType(goProject, "go.mod")).toBe(true);
+    expect(matchesProjectType(goProject, "golang")).toBe(true);
+    expect(matchesProjectType(projects[3], "rust")).toBe(true);
+  });
+
+  it("rejects other types and accepts any project without a type", () => {
+    expect(matchesProjectType(goProject, "npm")).toBe(false);
+    expect(matchesProjectType(goProject, undefined)).toBe(true);
+    expect(matchesProjectType(goProject, "  ")).toBe(true);
+  });
+});
+
+describe("findProjects", () => {
+  it("fuzzy matches the query against names", () => {
+    const results = findProjects(toolData(), { query: "payments service" }, NOW);
+    expect(results[0]).toEqual({
+      name: "payments-service",
+      path: "/Users/me/code/payments-service",
+      type: "go",
+      tags: [],
+      isFavorite: false,
+      timesOpened: 1,
+      lastOpened: new Date(NOW - 3 * DAY).toISOString(),
+      lastModified: undefined,
+    });
+  });
+
+  it("matches tags", () => {
+    const results = findProjects(toolData(), { query: "frontend" }, NOW);
+    expect(results.map((project) => project.name)).toEqual(["web"]);
+    expect(results[0].tags).toEqual(["frontend"]);
+  });
+
+  it("filters by type and favorites", () => {
+    expect(findProjects(toolData(), { type: "go" }, NOW).map((project) => project.name)).toEqual([
+      "payments-service",
+      "billing-api",
+    ]);
+    expect(findProjects(toolData(), { type: "go", favoritesOnly: true }, NOW).map((project) => project.name)).toEqual([
+      "billing-api",
+    ]);
+  });
+
+  it("ranks by frecency without a query, then by name", () => {
+    const names = findProjects(toolData(), {}, NOW).map((project) => project.name);
+    expect(names).toEqual(["cli", "payments-service", "billing-api", "dotfiles", "web"]);
+  });
+
+  it("caps the number of results", () => {
+    expect(findProjects(toolData(), { limit: 2 }, NOW)).toHaveLength(2);
+    const many = Array.from({ length: 30 }, (_, index) => ({ name: `p${index}`, path: `/p${index}`, marker: ".git" }));
+    expect(findProjects(toolData({ projects: many }), { limit: 0 }, NOW)).toHaveLength(DEFAULT_TOOL_LIMIT);
+  });
+});
+
+describe("favoriteProjects", () => {
+  it("lists favorites in their saved order, filtered by type", () => {
+    expect(favoriteProjects(toolData(), {}).map((project) => project.name)).toEqual(["web", "billing-api"]);
+    expect(favoriteProjects(toolData(), { type: "go" }).map((project) => project.name)).toEqual(["billing-api"]);
+  });
+
+  it("names favorites pj no longer reports after their directory", () => {
+    const [project] = favoriteProjects(toolData({ favorites: ["/Users/me/old/legacy"] }), {});
+    expect(project).toMatchObject({ name: "legacy", path: "/Users/me/old/legacy", type: "unknown", isFavorite: true });
+  });
+});
+
+describe("recentlyOpenedProjects", () => {
+  it("lists projects opened within the window, most recent first", () => {
+    const names = recentlyOpenedProjects(toolData(), { days: 7 }, NOW).map((project) => project.name);
+    expect(names).toEqual(["cli", "payments-service"]);
+  });
+
+  it("filters by type and widens the window on request", () => {
+    expect(recentlyOpenedProjects(toolData(), { type: "go" }, NOW).map((project) => project.name)).toEqual([
+      "payments-service",
+    ]);
+    expect(recentlyOpenedProjects(toolData(), { type: "go", days: 14 }, NOW).map((project) => project.name)).toEqual([
+      "payments-service",
+      "billing-api",
+    ]);
+  });
+});
+
+describe("recentlyModifiedProjects", () => {
+  const activity = new Map<string, number | undefined>([
+    ["/Users/me/code/payments-service", NOW - 2 * DAY],
+    ["/Users/me/code/billing-api", NOW - DAY],
+    ["/Users/me/code/web", NOW - 20 * DAY],
+    ["/Users/me/code/cli", undefined],
+  ]);
+
+  it("lists projects modified within the window with their activity time", () => {
+    const results = recentlyModifiedProjects(toolData(), { type: "golang" }, activity, NOW);
+    expect(results.map((project) => [project.name, project.lastModified])).toEqual([
+      ["billing-api", new Date(NOW - DAY).toISOString()],
+      ["payments-service", new Date(NOW - 2 * DAY).toISOString()],
+    ]);
+  });
+
+  it("leaves out projects without known activity", () => {
+    const names = recentlyModifiedProjects(toolData(), { days: 30 }, activity, NOW).map((project) => project.name);
+    expect(names).toEqual(["billing-api", "payments-service", "web"]);
+  });
+});
+
+describe("resolveProjectReference", () => {
+  it("resolves absolute and ~ paths", () => {
+    expect(resolveProjectReference(toolData(), "/Users/me/code/web/", NOW)?.name).toBe("web");
+    expect(resolveProjectReference(toolData(), "~/dotfiles", NOW)?.name).toBe("dotfiles");
+  });
+
+  it("prefers an exact name, then the best fuzzy match", () => {
+    expect(resolveProjectReference(toolData(), "CLI", NOW)?.name).toBe("cli");
+    expect(resolveProjectReference(toolData(), "payments service", NOW)?.name).toBe("payments-service");
+    expect(resolveProjectReference(toolData(), "billing", NOW)?.name).toBe("billing-api");
+  });
+
+  it("picks the most frecent of projects sharing a name", () => {
+    const twins: Project[] = [
+      { name: "api", path: "/work/api", marker: "go.mod" },
+      { name: "api", path: "/side/api", marker: "package.json" },
+    ];
+    const data = toolData({ projects: twins, history: [entry("/side/api", [NOW - DAY])] });
+    expect(resolveProjectReference(data, "api", NOW)?.path).toBe("/side/api");
+  });
+
+  it("returns undefined for blank references", () => {
+    expect(resolveProjectReference(toolData(), " ", NOW)).toBeUndefined();
+  });
+});
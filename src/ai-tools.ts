@@ -0,0 +1,172 @@
+import { rankByFrecency } from "./frecency";
+import { formatProjectType } from "./markers";
+import { detectPathFlavor, expandHomePath, includesPath, pathKey, pathModule } from "./paths";
+import { searchProjects } from "./project-search";
+import type { Project, ProjectHistoryEntry } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TOOL_LIMIT = 20;
+export const DEFAULT_RECENT_DAYS = 7;
+
+// Everything the AI tools read, loaded once per tool call
+export interface ToolData {
+  projects: Project[];
+  favorites: string[];
+  history: ProjectHistoryEntry[];
+  tags: Record<string, string[]>;
+  home: string;
+}
+
+// A project as the AI sees it, with dates as ISO strings
+export interface ToolProject {
+  name: string;
+  path: string;
+  type: string;
+  tags: string[];
+  isFavorite: boolean;
+  timesOpened: number;
+  lastOpened?: string;
+  lastModified?: string;
+}
+
+export interface FindProjectsInput {
+  query?: string;
+  type?: string;
+  favoritesOnly?: boolean;
+  limit?: number;
+}
+
+export interface RecentProjectsInput {
+  days?: number;
+  type?: string;
+  limit?: number;
+}
+
+// Words people use for a project type, mapped to the type pj reports
+const TYPE_ALIASES: Record<string, string> = {
+  golang: "go",
+  rust: "cargo",
+  node: "npm",
+  nodejs: "npm",
+  javascript: "npm",
+  typescript: "npm",
+  js: "npm",
+  ts: "npm",
+  py: "python",
+  java: "maven",
+  kotlin: "gradle",
+  flutter: "dart",
+};
+
+// Whether a project has the type the AI asked for: a type ("go"), its marker ("go.mod") or an alias ("golang")
+export function matchesProjectType(project: Project, type: string | undefined): boolean {
+  const wanted = type?.trim().toLowerCase();
+  if (!wanted) return true;
+  const projectType = formatProjectType(project.marker).toLowerCase();
+  return projectType === wanted || project.marker.toLowerCase() === wanted || TYPE_ALIASES[wanted] === projectType;
+}
+
+export function describeProject(project: Project, data: ToolData, lastModified?: number): ToolProject {
+  const entry = data.history.find((candidate) => pathKey(candidate.path) === pathKey(project.path));
+  return {
+    name: project.name,
+    path: project.path,
+    type: project.marker ? formatProjectType(project.marker) : "unknown",
+    tags: data.tags[pathKey(project.path)] ?? [],
+    isFavorite: includesPath(data.favorites, project.path),
+    timesOpened: entry?.count ?? 0,
+    lastOpened: entry ? new Date(entry.lastAccessed).toISOString() : undefined,
+    lastModified: lastModified !== undefined ? new Date(lastModified).toISOString() : undefined,
+  };
+}
+
+function clampLimit(limit: number | undefined): number {
+  return limit !== undefined && limit > 0 ? Math.floor(limit) : DEFAULT_TOOL_LIMIT;
+}
+
+// Projects matching a query, type and favorite filter; without a query, most frecent first
+export function findProjects(data: ToolData, input: FindProjectsInput, now: number = Date.now()): ToolProject[] {
+  const candidates = data.projects.filter(
+    (project) =>
+      matchesProjectType(project, input.type) && (!input.favoritesOnly || includesPath(data.favorites, project.path)),
+  );
+  const ranked = input.query?.trim()
+    ? searchProjects(candidates, input.query, data, data.home, now).map((result) => result.item)
+    : rankByFrecency(candidates, data.history, now);
+
+  return ranked.slice(0, clampLimit(input.limit)).map((project) => describeProject(project, data));
+}
+
+// The cached project for a path, or one named after its directory when pj hasn't reported it
+function resolvePath(data: ToolData, path: string): Project {
+  return (
+    data.projects.find((project) => pathKey(project.path) === pathKey(path)) ?? {
+      name: pathModule(detectPathFlavor(path)).basename(path),
+      path,
+      marker: "",
+    }
+  );
+}
+
+// Favorite projects in the order they were added
+export function favoriteProjects(data: ToolData, input: { type?: string }): ToolProject[] {
+  return data.favorites
+    .map((path) => resolvePath(data, path))
+    .filter((project) => matchesProjectType(project, input.type))
+    .map((project) => describeProject(project, data));
+}
+
+// Projects opened through the extension in the last `days` days, most recent first
+export function recentlyOpenedProjects(
+  data: ToolData,
+  input: RecentProjectsInput,
+  now: number = Date.now(),
+): ToolProject[] {
+  const since = now - (input.days ?? DEFAULT_RECENT_DAYS) * DAY_MS;
+  return data.history
+    .filter((entry) => entry.lastAccessed >= since)
+    .sort((a, b) => b.lastAccessed - a.lastAccessed)
+    .map((entry) => resolvePath(data, entry.path))
+    .filter((project) => matchesProjectType(project, input.type))
+    .slice(0, clampLimit(input.limit))
+    .map((project) => describeProject(project, data));
+}
+
+// Projects with commits or file changes in the last `days` days, most recent first. `activity`
+// holds the last activity time by project path; projects without one are left out.
+export function recentlyModifiedProjects(
+  data: ToolData,
+  input: RecentProjectsInput,
+  activity: Map<string, number | undefined>,
+  now: number = Date.now(),
+): ToolProject[] {
+  const since = now - (input.days ?? DEFAULT_RECENT_DAYS) * DAY_MS;
+  return data.projects
+    .filter((project) => matchesProjectType(project, input.type))
+    .map((project) => ({ project, time: activity.get(project.path) }))
+    .filter((item): item is { project: Project; time: number } => item.time !== undefined && item.time >= since)
+    .sort((a, b) => b.time - a.time)
+    .slice(0, clampLimit(input.limit))
+    .map(({ project, time }) => describeProject(project, data, time));
+}
+
+// Find the project the AI means: a path, an exact name, then the best fuzzy match
+export function resolveProjectReference(
+  data: ToolData,
+  reference: string,
+  now: number = Date.now(),
+): Project | undefined {
+  const trimmed = reference.trim();
+  if (!trimmed) return undefined;
+
+  const key = pathKey(expandHomePath(trimmed, data.home));
+  const byPath = data.projects.find((project) => pathKey(project.path) === key);
+  if (byPath) return byPath;
+
+  const lowered = trimmed.toLowerCase();
+  const byName = data.projects.filter((project) => project.name.toLowerCase() === lowered);
+  if (byName.length > 0) return rankByFrecency(byName, data.history, now)[0];
+
+  return searchProjects(data.projects, trimmed, data, data.home, now)[0]?.item;
+}
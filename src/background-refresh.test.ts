@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  appendRefreshRecord,
+  buildRefreshBaseline,
+  buildRefreshRecord,
+  emptyRefreshLog,
+  formatNewProjects,
+  isRefreshDue,
+  readRefreshLog,
+  writeRefreshLog,
+  type RefreshRecord,
+} from "./background-refresh";
+import type { Project } from "./types";
+
+const NOW = 1_700_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+function project(name: string, marker = ".git"): Project {
+  return { name, path: `/code/${name}`, marker };
+}
+
+function record(overrides: Partial<RefreshRecord> = {}): RefreshRecord {
+  return { at: NOW, total: 1, added: [], removed: [], ...overrides };
+}
+
+const BASELINE = buildRefreshBaseline([project("api"), project("old")], "hash-1");
+
+describe("buildRefreshRecord", () => {
+  it("lists projects added and removed since the last refresh by path", () => {
+    const result = buildRefreshRecord(BASELINE, [project("api", "go.mod"), project("web")], "hash-1", NOW);
+    expect(result).toEqual({
+      at: NOW,
+      total: 2,
+      added: [{ name: "web", path: "/code/web" }],
+      removed: [{ name: "old", path: "/code/old" }],
+    });
+  });
+
+  it("reports projects an interactive scan or clone already put in the shared cache", () => {
+    // The cache would already list "web"; the baseline from the previous refresh doesn't
+    const baseline = buildRefreshBaseline([project("api")], "hash-1");
+    const result = buildRefreshRecord(baseline, [project("api"), project("web")], "hash-1", NOW);
+    expect(result.added).toEqual([{ name: "web", path: "/code/web" }]);
+  });
+
+  it("only sets a baseline on the first run", () => {
+    expect(buildRefreshRecord(undefined, [project("api")], "hash-1", NOW)).toEqual(record({ total: 1 }));
+  });
+
+  it("only sets a baseline after pj's config changed", () => {
+    expect(buildRefreshRecord(BASELINE, [project("web")], "hash-2", NOW)).toEqual(record({ total: 1 }));
+  });
+});
+
+describe("appendRefreshRecord", () => {
+  it("records runs with changes, newest first, up to the limit", () => {
+    let log = emptyRefreshLog();
+    for (let i = 0; i < 3; i++) {
+      log = appendRefreshRecord(log, record({ at: NOW + i, added: [{ name: `p${i}`, path: `/p${i}` }] }), BASELINE, 2);
+    }
+    expect(log.lastRunAt).toBe(NOW + 2);
+    expect(log.records.map((entry) => entry.at)).toEqual([NOW + 2, NOW + 1]);
+  });
+
+  it("only updates the last run time and baseline when nothing changed", () => {
+    const log = appendRefreshRecord(emptyRefreshLog(), record({ at: NOW + 5 }), BASELINE);
+    expect(log).toEqual({ version: 1, lastRunAt: NOW + 5, baseline: BASELINE, records: [] });
+  });
+});
+
+describe("isRefreshDue", () => {
+  it("is due on the first run and once the interval has passed", () => {
+    expect(isRefreshDue(emptyRefreshLog(), HOUR, NOW)).toBe(true);
+    const log = { ...emptyRefreshLog(), lastRunAt: NOW - HOUR / 2 };
+    expect(isRefreshDue(log, HOUR, NOW)).toBe(false);
+    expect(isRefreshDue(log, HOUR / 2, NOW)).toBe(true);
+  });
+});
+
+describe("formatNewProjects", () => {
+  const refs = ["api", "web", "cli", "docs", "infra"].map((name) => ({ name, path: `/${name}` }));
+
+  it("names one, a few or the first few of many projects", () => {
+    expect(formatNewProjects(refs.slice(0, 1))).toBe("New project: api");
+    expect(formatNewProjects(refs.slice(0, 3))).toBe("3 new projects: api, web and cli");
+    expect(formatNewProjects(refs)).toBe("5 new projects: api, web, cli and 2 more");
+  });
+});
+
+describe("readRefreshLog / writeRefreshLog", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-refresh-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips the log", async () => {
+    const log = appendRefreshRecord(
+      emptyRefreshLog(),
+      record({ added: [{ name: "api", path: "/code/api" }] }),
+      BASELINE,
+    );
+    await writeRefreshLog(dir, log);
+    expect(await readRefreshLog(dir)).toEqual(log);
+  });
+
+  it("starts empty when the log is missing or unreadable", async () => {
+    expect(await readRefreshLog(dir)).toEqual(emptyRefreshLog());
+    writeFileSync(join(dir, "refresh-log.json"), "{oops");
+    expect(await readRefreshLog(dir)).toEqual(emptyRefreshLog());
+  });
+});
@@ -0,0 +1,118 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Project } from "./types";
+
+const LOG_FILE = "refresh-log.json";
+const LOG_VERSION = 1;
+// Runs with changes kept in the log
+export const MAX_REFRESH_RECORDS = 20;
+
+type ProjectRef = Pick<Project, "name" | "path">;
+
+// What changed in one background refresh
+export interface RefreshRecord {
+  at: number;
+  total: number;
+  added: ProjectRef[];
+  removed: ProjectRef[];
+}
+
+// Projects seen by the last refresh and the pj config they were scanned with. Interactive scans
+// and clones rewrite the shared project cache, so refreshes compare against this instead.
+export interface RefreshBaseline {
+  configHash: string;
+  projects: ProjectRef[];
+}
+
+export interface RefreshLog {
+  version: typeof LOG_VERSION;
+  lastRunAt?: number;
+  baseline?: RefreshBaseline;
+  // Newest first; runs without changes aren't recorded
+  records: RefreshRecord[];
+}
+
+export function emptyRefreshLog(): RefreshLog {
+  return { version: LOG_VERSION, records: [] };
+}
+
+function toRef({ name, path }: Project): ProjectRef {
+  return { name, path };
+}
+
+export function buildRefreshBaseline(projects: Project[], configHash: string): RefreshBaseline {
+  return { configHash, projects: projects.map(toRef) };
+}
+
+// Compare a scan with the last refresh's projects by path. Without a baseline, or after pj's
+// config changed, there's nothing meaningful to compare against, so the run only sets the baseline.
+export function buildRefreshRecord(
+  baseline: RefreshBaseline | undefined,
+  next: Project[],
+  configHash: string,
+  now: number,
+): RefreshRecord {
+  if (!baseline || baseline.configHash !== configHash) {
+    return { at: now, total: next.length, added: [], removed: [] };
+  }
+  const previousPaths = new Set(baseline.projects.map((project) => project.path));
+  const nextPaths = new Set(next.map((project) => project.path));
+  return {
+    at: now,
+    total: next.length,
+    added: next.filter((project) => !previousPaths.has(project.path)).map(toRef),
+    removed: baseline.projects.filter((project) => !nextPaths.has(project.path)),
+  };
+}
+
+// Record a run and its projects as the next baseline, keeping only runs that changed something
+export function appendRefreshRecord(
+  log: RefreshLog,
+  record: RefreshRecord,
+  baseline: RefreshBaseline,
+  limit: number = MAX_REFRESH_RECORDS,
+): RefreshLog {
+  const changed = record.added.length > 0 || record.removed.length > 0;
+  return {
+    version: LOG_VERSION,
+    lastRunAt: record.at,
+    baseline,
+    records: changed ? [record, ...log.records].slice(0, limit) : log.records,
+  };
+}
+
+// Whether enough time has passed since the last run; Raycast's own interval is the shortest option
+export function isRefreshDue(log: RefreshLog, intervalMs: number, now: number): boolean {
+  return log.lastRunAt === undefined || now - log.lastRunAt >= intervalMs;
+}
+
+// HUD text for new projects, e.g. "3 new projects: api, web and cli"
+export function formatNewProjects(added: ProjectRef[], maxNames = 3): string {
+  const names = added.slice(0, maxNames).map((project) => project.name);
+  const rest = added.length - names.length;
+  const list =
+    rest > 0
+      ? `${names.join(", ")} and ${rest} more`
+      : names.length > 1
+        ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+        : names[0];
+  return added.length === 1 ? `New project: ${list}` : `${added.length} new projects: ${list}`;
+}
+
+export async function readRefreshLog(dir: string): Promise<RefreshLog> {
+  try {
+    const log = JSON.parse(await readFile(join(dir, LOG_FILE), "utf8"));
+    return log?.version === LOG_VERSION && Array.isArray(log.records) ? (log as RefreshLog) : emptyRefreshLog();
+  } catch {
+    return emptyRefreshLog();
+  }
+}
+
+// Written atomically, like the project cache
+export async function writeRefreshLog(dir: string, log: RefreshLog): Promise<void> {
+  const target = join(dir, LOG_FILE);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await mkdir(dir, { recursive: true });
+  await writeFile(temporary, JSON.stringify(log));
+  await rename(temporary, target);
+}
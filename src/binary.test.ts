@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const getBinaryPath = vi.fn();
+
+vi.mock("@joe-sh/pj", () => ({
+  getBinaryManager: () => ({ getBinaryPath }),
+}));
+
+import { executableNames, parsePjVersion, PjBinaryError, resolvePjBinary } from "./binary";
+
+describe("parsePjVersion", () => {
+  it("parses plain version output", () => {
+    expect(parsePjVersion("pj version 1.6.3\n")).toBe("1.6.3");
+  });
+
+  it("strips a leading v", () => {
+    expect(parsePjVersion("pj v2.0.0")).toBe("2.0.0");
+  });
+
+  it("keeps prerelease suffixes", () => {
+    expect(parsePjVersion("pj 1.7.0-rc.1 (abc123)")).toBe("1.7.0-rc.1");
+  });
+
+  it("returns undefined when no version is present", () => {
+    expect(parsePjVersion("unknown")).toBeUndefined();
+  });
+});
+
+describe("executableNames", () => {
+  it("uses the name as is outside Windows", () => {
+    expect(executableNames("pj", "darwin", ".EXE")).toEqual(["pj"]);
+  });
+
+  it("tries each PATHEXT extension on Windows", () => {
+    expect(executableNames("pj", "win32", ".EXE;.CMD;")).toEqual(["pj.exe", "pj.cmd"]);
+    expect(executableNames("C:\\tools\\pj", "win32", undefined)).toEqual([
+      "C:\\tools\\pj.com",
+      "C:\\tools\\pj.exe",
+      "C:\\tools\\pj.bat",
+      "C:\\tools\\pj.cmd",
+    ]);
+  });
+
+  it("keeps a name that already has an executable extension", () => {
+    expect(executableNames("pj.EXE", "win32", ".EXE;.CMD")).toEqual(["pj.EXE"]);
+  });
+});
+
+describe("resolvePjBinary", () => {
+  let dir: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-binary-"));
+    getBinaryPath.mockReset();
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeBinary(name: string, mode = 0o755): string {
+    const path = join(dir, name);
+    writeFileSync(path, "#!/bin/sh\necho 'pj version 1.6.3'\n");
+    chmodSync(path, mode);
+    return path;
+  }
+
+  it("uses an executable configured path and reads its version", async () => {
+    const path = writeBinary("pj-pinned");
+    await expect(resolvePjBinary(path)).resolves.toEqual({ path, source: "preference", version: "1.6.3" });
+  });
+
+  it("rejects a configured path that does not exist", async () => {
+    const error = await resolvePjBinary(join(dir, "missing")).catch((e) => e);
+    expect(error).toBeInstanceOf(PjBinaryError);
+    expect(error.reason).toBe("not-found");
+  });
+
+  it("rejects a configured path that is not executable", async () => {
+    const path = writeBinary("pj-plain", 0o644);
+    const error = await resolvePjBinary(path).catch((e) => e);
+    expect(error.reason).toBe("not-executable");
+  });
+
+  it("rejects a configured path that is a directory", async () => {
+    const path = join(dir, "folder");
+    mkdirSync(path);
+    const error = await resolvePjBinary(path).catch((e) => e);
+    expect(error.reason).toBe("is-directory");
+  });
+
+  it("finds pj on PATH when no path is configured", async () => {
+    const path = writeBinary("pj");
+    process.env.PATH = dir;
+    await expect(resolvePjBinary("")).resolves.toMatchObject({ path, source: "path" });
+    expect(getBinaryPath).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the managed download when pj is not on PATH", async () => {
+    const managed = writeBinary("managed-pj");
+    process.env.PATH = join(dir, "empty");
+    getBinaryPath.mockResolvedValue(managed);
+    await expect(resolvePjBinary("pj")).resolves.toMatchObject({ path: managed, source: "managed" });
+  });
+
+  it("finds pj with a PATHEXT extension on Windows without checking permissions", async () => {
+    const platform = Object.getOwnPropertyDescriptor(process, "platform") as PropertyDescriptor;
+    const originalPathExt = process.env.PATHEXT;
+    const path = writeBinary("pj.cmd", 0o644);
+    process.env.PATH = dir;
+    process.env.PATHEXT = ".EXE;.CMD";
+    Object.defineProperty(process, "platform", { value: "win32" });
+    try {
+      await expect(resolvePjBinary("pj")).resolves.toMatchObject({ path, source: "path" });
+    } finally {
+      Object.defineProperty(process, "platform", platform);
+      if (originalPathExt === undefined) {
+        delete process.env.PATHEXT;
+      } else {
+        process.env.PATHEXT = originalPathExt;
+      }
+    }
+  });
+
+  it("does not download when a custom command name is missing", async () => {
+    process.env.PATH = join(dir, "empty");
+    const error = await resolvePjBinary("pj-nightly").catch((e) => e);
+    expect(error).toBeInstanceOf(PjBinaryError);
+    expect(getBinaryPath).not.toHaveBeenCalled();
+  });
+});
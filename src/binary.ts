@@ -0,0 +1,158 @@
+import { getBinaryManager } from "@joe-sh/pj";
+import { execFile } from "child_process";
+import { constants } from "fs";
+import { access, stat } from "fs/promises";
+import { delimiter, join } from "path";
+import { promisify } from "util";
+import { expandHomePath } from "./paths";
+import type { PjBinary } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// Raycast launches commands with a minimal PATH, so also look in the usual install locations
+const EXTRA_SEARCH_DIRS = ["/opt/homebrew/bin", "/usr/local/bin", "~/.local/bin", "~/go/bin", "~/bin"];
+
+const DEFAULT_BINARY_NAME = "pj";
+
+export type PjBinaryErrorReason = "not-found" | "not-executable" | "is-directory";
+
+// Raised when the "PJ Binary Path" preference points at something we cannot run
+export class PjBinaryError extends Error {
+  readonly configuredPath: string;
+  readonly reason: PjBinaryErrorReason;
+
+  constructor(configuredPath: string, reason: PjBinaryErrorReason) {
+    const messages: Record<PjBinaryErrorReason, string> = {
+      "not-found": `No pj binary found at ${configuredPath}`,
+      "not-executable": `${configuredPath} is not executable`,
+      "is-directory": `${configuredPath} is a directory, not the pj binary`,
+    };
+    super(messages[reason]);
+    this.name = "PjBinaryError";
+    this.configuredPath = configuredPath;
+    this.reason = reason;
+  }
+}
+
+// Extract a semver-looking version from `pj --version` output
+export function parsePjVersion(output: string): string | undefined {
+  const match = output.match(/v?(\d+\.\d+\.\d+(?:[-+][\w.-]+)?)/);
+  return match ? match[1] : undefined;
+}
+
+// Whether the preference names a file path rather than a bare command name
+function isExplicitPath(value: string): boolean {
+  return value.includes("/") || value.includes("\\") || value.startsWith("~");
+}
+
+// Windows finds commands by trying each PATHEXT extension, e.g. pj.exe or pj.cmd
+export function executableNames(
+  name: string,
+  platform: NodeJS.Platform = process.platform,
+  pathExt: string | undefined = process.env.PATHEXT,
+): string[] {
+  if (platform !== "win32") {
+    return [name];
+  }
+  const extensions = (pathExt || ".COM;.EXE;.BAT;.CMD")
+    .split(";")
+    .filter(Boolean)
+    .map((extension) => extension.toLowerCase());
+  const lowered = name.toLowerCase();
+  return extensions.some((extension) => lowered.endsWith(extension))
+    ? [name]
+    : extensions.map((extension) => name + extension);
+}
+
+async function checkExecutable(path: string): Promise<PjBinaryErrorReason | undefined> {
+  try {
+    const stats = await stat(path);
+    if (stats.isDirectory()) {
+      return "is-directory";
+    }
+  } catch {
+    return "not-found";
+  }
+  // Windows has no execute permission; an existing file with a PATHEXT extension runs
+  if (process.platform === "win32") {
+    return undefined;
+  }
+  try {
+    await access(path, constants.X_OK);
+    return undefined;
+  } catch {
+    return "not-executable";
+  }
+}
+
+// The first of a path's executable names that can run
+async function findExecutable(path: string): Promise<string | undefined> {
+  for (const candidate of executableNames(path)) {
+    if ((await checkExecutable(candidate)) === undefined) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+// Look up a command name in PATH plus the common install directories
+async function findInPath(name: string): Promise<string | undefined> {
+  const dirs = (process.env.PATH ?? "").split(delimiter).filter(Boolean);
+  const candidates = [...dirs, ...EXTRA_SEARCH_DIRS.map((dir) => expandHomePath(dir))];
+
+  for (const dir of new Set(candidates)) {
+    const found = await findExecutable(join(dir, name));
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+async function readVersion(path: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync(path, ["--version"], { timeout: 5000 });
+    return parsePjVersion(stdout);
+  } catch {
+    return undefined;
+  }
+}
+
+// Resolve the pj binary to use: the configured path, then PATH, then the managed download
+export async function resolvePjBinary(configuredPath: string | undefined): Promise<PjBinary> {
+  const configured = configuredPath?.trim() || DEFAULT_BINARY_NAME;
+
+  if (isExplicitPath(configured)) {
+    const expanded = expandHomePath(configured);
+    const path = (await findExecutable(expanded)) ?? expanded;
+    const problem = await checkExecutable(path);
+    if (problem) {
+      throw new PjBinaryError(configured, problem);
+    }
+    return { path, source: "preference", version: await readVersion(path) };
+  }
+
+  const fromPath = await findInPath(configured);
+  if (fromPath) {
+    return { path: fromPath, source: "path", version: await readVersion(fromPath) };
+  }
+
+  // A custom command name that isn't installed is a configuration mistake, not a reason to download
+  if (configured !== DEFAULT_BINARY_NAME) {
+    throw new PjBinaryError(configured, "not-found");
+  }
+
+  const managed = await getBinaryManager().getBinaryPath();
+  return { path: managed, source: "managed", version: await readVersion(managed) };
+}
+
+// Human-readable summary of which binary was used
+export function describeBinary(binary: PjBinary): string {
+  const sources: Record<PjBinary["source"], string> = {
+    preference: "configured path",
+    path: "PATH",
+    managed: "managed download",
+  };
+  const version = binary.version ? `pj ${binary.version}` : "pj (unknown version)";
+  return `${version} from ${sources[binary.source]}`;
+}
@@ -0,0 +1,207 @@
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  environment,
+  Form,
+  getPreferenceValues,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useCachedPromise, useCachedState } from "@raycast/utils";
+import { access } from "fs/promises";
+import { basename } from "path";
+import { useState } from "react";
+import { cloneRepository, cloneTargetPath, parseCloneSource, validateDirectoryName } from "./clone";
+import { openInEditors, openProjectInTerminal, type EditorChoice, type TerminalChoice } from "./open-projects";
+import { expandHomePath } from "./paths";
+import { readPjConfig } from "./pj-config";
+import { addProjectToCache } from "./project-cache";
+import { findTerminalAdapter } from "./terminal";
+import type { Preferences, Project } from "./types";
+import { useApplications } from "./use-applications";
+import { useEditorRules } from "./use-editor-rules";
+import { addToRecentProjects, FILE_MANAGER_NAME, formatDisplayPath } from "./utils";
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function ClonedProject({
+  project,
+  editor,
+  terminal,
+}: {
+  project: Project;
+  editor: EditorChoice;
+  terminal: TerminalChoice;
+}) {
+  const terminalTitle = findTerminalAdapter(terminal.terminalName)?.title ?? terminal.terminalApp?.name ?? "Terminal";
+
+  return (
+    <Detail
+      navigationTitle={`Cloned ${project.name}`}
+      markdown={`# ${project.name}\n\nCloned to \`${formatDisplayPath(project.path)}\`.`}
+      actions={
+        <ActionPanel>
+          <Action
+            title={`Open in ${editor.editorApp?.name ?? "Editor"}`}
+            icon={Icon.Code}
+            onAction={() => openInEditors([project], editor)}
+          />
+          <Action
+            title={`Open in ${terminalTitle}`}
+            icon={Icon.Terminal}
+            shortcut={{ modifiers: ["cmd"], key: "t" }}
+            onAction={() => openProjectInTerminal(project, terminal)}
+          />
+          <Action.ShowInFinder
+            title={`Show in ${FILE_MANAGER_NAME}`}
+            path={project.path}
+            shortcut={{ modifiers: ["cmd"], key: "f" }}
+          />
+          <Action.CopyToClipboard
+            title="Copy Path"
+            content={project.path}
+            shortcut={{ modifiers: ["cmd"], key: "c" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function CloneProject() {
+  const preferences = getPreferenceValues<Preferences>();
+  const { push } = useNavigation();
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+  const { data: roots = [], isLoading } = useCachedPromise(async () => (await readPjConfig()).paths, []);
+  const [root, setRoot] = useCachedState<string | undefined>("clone-root", undefined);
+  const [source, setSource] = useState("");
+  const [directory, setDirectory] = useState("");
+  const [sourceError, setSourceError] = useState<string>();
+  const [directoryError, setDirectoryError] = useState<string>();
+  const [isCloning, setIsCloning] = useState(false);
+
+  const parsed = parseCloneSource(source);
+  const selectedRoot = root && roots.includes(root) ? root : roots[0];
+  const name = directory.trim() || parsed?.name;
+  const target = selectedRoot && name && !validateDirectoryName(name) ? cloneTargetPath(selectedRoot, name) : undefined;
+
+  async function handleSubmit() {
+    if (!parsed) {
+      setSourceError("Enter a git URL or org/repo");
+      return;
+    }
+    const nameError = name ? validateDirectoryName(name) : undefined;
+    if (nameError) {
+      setDirectoryError(nameError);
+      return;
+    }
+    if (!target) {
+      await showToast({ style: Toast.Style.Failure, title: "Add a root to paths in pj's config.yaml first" });
+      return;
+    }
+    if (await pathExists(target)) {
+      setDirectoryError(`${formatDisplayPath(target)} already exists`);
+      return;
+    }
+
+    setIsCloning(true);
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Cloning ${parsed.name}` });
+    try {
+      await cloneRepository(parsed.url, target, ({ phase, percent }) => {
+        toast.message = `${phase} ${percent}%`;
+      });
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = `Failed to clone ${parsed.name}`;
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+      setIsCloning(false);
+      return;
+    }
+
+    const project: Project = { name: basename(target), path: target, marker: ".git" };
+    try {
+      await addProjectToCache(environment.supportPath, project);
+    } catch (error) {
+      console.error("Failed to add the cloned project to the cache:", error);
+    }
+    await addToRecentProjects(target);
+
+    toast.style = Toast.Style.Success;
+    toast.title = `Cloned ${project.name}`;
+    toast.message = formatDisplayPath(target);
+    setIsCloning(false);
+    push(
+      <ClonedProject
+        project={project}
+        editor={{ editorApp, applications, editorRules, editorOverrides: {} }}
+        terminal={{
+          terminalName: preferences.terminalApp || "Terminal",
+          terminalApp,
+          mode: preferences.terminalMode ?? "window",
+          commands: {},
+        }}
+      />,
+    );
+  }
+
+  return (
+    <Form
+      isLoading={isLoading || isCloning}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Clone Project" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="source"
+        title="Repository"
+        placeholder="org/repo or https://github.com/org/repo.git"
+        value={source}
+        error={sourceError}
+        onChange={(value) => {
+          setSource(value);
+          setSourceError(undefined);
+        }}
+        info="A git URL (https, ssh or git@host:org/repo) or an org/repo shorthand for GitHub"
+      />
+      <Form.Dropdown id="root" title="Clone Into" value={selectedRoot ?? ""} onChange={setRoot}>
+        {roots.map((path) => (
+          <Form.Dropdown.Item key={path} value={path} title={formatDisplayPath(expandHomePath(path))} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="directory"
+        title="Directory Name"
+        placeholder={parsed?.name ?? "Repository name"}
+        value={directory}
+        error={directoryError}
+        onChange={(value) => {
+          setDirectory(value);
+          setDirectoryError(undefined);
+        }}
+      />
+      <Form.Description
+        title="Target"
+        text={
+          target
+            ? formatDisplayPath(target)
+            : roots.length === 0 && !isLoading
+              ? "pj has no paths configured. Add a root to paths in ~/.config/pj/config.yaml."
+              : "Enter a repository to see where it will be cloned"
+        }
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { homedir } from "os";
+import { join } from "path";
+import { cloneTargetPath, parseCloneError, parseCloneProgress, parseCloneSource, validateDirectoryName } from "./clone";
+
+describe("parseCloneSource", () => {
+  it("expands org/repo shorthand to a GitHub URL", () => {
+    expect(parseCloneSource(" josephschmitt/pj ")).toEqual({
+      url: "https://github.com/josephschmitt/pj.git",
+      name: "pj",
+    });
+    expect(parseCloneSource("org/repo.git", "gitlab.com")).toEqual({
+      url: "https://gitlab.com/org/repo.git",
+      name: "repo",
+    });
+  });
+
+  it("keeps full URLs and takes the name from their last segment", () => {
+    expect(parseCloneSource("https://github.com/org/api.git")).toEqual({
+      url: "https://github.com/org/api.git",
+      name: "api",
+    });
+    expect(parseCloneSource("https://gitlab.com/group/sub/web/")?.name).toBe("web");
+    expect(parseCloneSource("ssh://git@host:2222/org/cli.git")?.name).toBe("cli");
+    expect(parseCloneSource("git@github.com:org/app.git")).toEqual({ url: "git@github.com:org/app.git", name: "app" });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseCloneSource("")).toBeUndefined();
+    expect(parseCloneSource("just-a-name")).toBeUndefined();
+    expect(parseCloneSource("https://github.com/")).toBeUndefined();
+    expect(parseCloneSource("org/repo/extra")).toBeUndefined();
+  });
+});
+
+describe("validateDirectoryName", () => {
+  it("accepts plain names and rejects paths", () => {
+    expect(validateDirectoryName("api-v2")).toBeUndefined();
+    expect(validateDirectoryName("a/b")).toBeDefined();
+    expect(validateDirectoryName("..")).toBeDefined();
+  });
+});
+
+describe("cloneTargetPath", () => {
+  it("expands ~ in the root", () => {
+    expect(cloneTargetPath("~/code", "api")).toBe(join(homedir(), "code", "api"));
+    expect(cloneTargetPath("/srv/git/", "api")).toBe("/srv/git/api");
+  });
+});
+
+describe("parseCloneProgress", () => {
+  it("returns the latest progress in a chunk", () => {
+    const chunk = "remote: Counting objects:  10% (1/10)\rReceiving objects:  45% (450/1000), 1.2 MiB | 2 MiB/s\r";
+    expect(parseCloneProgress(chunk)).toEqual({ phase: "Receiving objects", percent: 45 });
+    expect(parseCloneProgress("remote: Compressing objects: 100% (5/5), done.\n")).toEqual({
+      phase: "Compressing objects",
+      percent: 100,
+    });
+  });
+
+  it("ignores lines without a percentage", () => {
+    expect(parseCloneProgress("Cloning into 'api'...\n")).toBeUndefined();
+  });
+});
+
+describe("parseCloneError", () => {
+  it("uses git's fatal message", () => {
+    const stderr =
+      "Cloning into 'nope'...\nremote: Repository not found.\nfatal: repository 'https://x/nope/' not found\n";
+    expect(parseCloneError(stderr, 128)).toBe("repository 'https://x/nope/' not found");
+  });
+
+  it("falls back to the exit code", () => {
+    expect(parseCloneError("", 1)).toBe("git clone exited with code 1");
+  });
+});
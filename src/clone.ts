@@ -0,0 +1,96 @@
+import { spawn } from "child_process";
+import { join } from "path";
+import { expandHomePath } from "./paths";
+
+export interface CloneSource {
+  url: string;
+  // Directory name git would pick: the last path segment without ".git"
+  name: string;
+}
+
+export interface CloneProgress {
+  phase: string;
+  percent: number;
+}
+
+// Parse a git URL (https, ssh, git, file or scp-like git@host:org/repo) or an org/repo shorthand for `host`
+export function parseCloneSource(input: string, host = "github.com"): CloneSource | undefined {
+  const value = input.trim();
+  const shorthand = value.match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+  if (shorthand) {
+    return { url: `https://${host}/${shorthand[1]}/${shorthand[2]}.git`, name: shorthand[2] };
+  }
+
+  let path: string;
+  if (/^(https?|ssh|git|file):\/\//.test(value)) {
+    try {
+      path = new URL(value).pathname;
+    } catch {
+      return undefined;
+    }
+  } else {
+    const scp = value.match(/^[\w.-]+@[\w.-]+:(\S+)$/);
+    if (!scp) return undefined;
+    path = scp[1];
+  }
+
+  const name = path
+    .replace(/\/+$/, "")
+    .replace(/\.git$/, "")
+    .split("/")
+    .pop();
+  return name ? { url: value, name } : undefined;
+}
+
+// Problem with a directory name typed in the form, or undefined when it is usable
+export function validateDirectoryName(name: string): string | undefined {
+  if (name === "." || name === "..") return "Choose another name";
+  if (/[\\/]/.test(name)) return "Use a single directory name, without slashes";
+  return undefined;
+}
+
+// Where the repository ends up: the root (which may start with ~) plus the directory name
+export function cloneTargetPath(root: string, name: string): string {
+  return join(expandHomePath(root), name);
+}
+
+// Latest progress line in a chunk of `git clone --progress` output, which rewrites lines with \r
+export function parseCloneProgress(output: string): CloneProgress | undefined {
+  const lines = output.split(/[\r\n]+/).reverse();
+  for (const line of lines) {
+    const match = line.match(/^(?:remote: )?([A-Z][\w ]*?):\s+(\d+)%/);
+    if (match) return { phase: match[1], percent: Number(match[2]) };
+  }
+  return undefined;
+}
+
+// Readable reason for a failed clone: git's last "fatal:" line, or the exit code
+export function parseCloneError(stderr: string, code: number | null): string {
+  const fatal = stderr
+    .split(/[\r\n]+/)
+    .reverse()
+    .find((line) => line.startsWith("fatal: "));
+  return fatal ? fatal.slice("fatal: ".length) : `git clone exited with code ${code}`;
+}
+
+// Run `git clone`, reporting progress; never prompts for credentials
+export function cloneRepository(
+  url: string,
+  target: string,
+  onProgress: (progress: CloneProgress) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", ["clone", "--progress", "--", url, target], {
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+    });
+    let stderr = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr = (stderr + text).slice(-8000);
+      const progress = parseCloneProgress(text);
+      if (progress) onProgress(progress);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => (code === 0 ? resolve() : reject(new Error(parseCloneError(stderr, code)))));
+  });
+}
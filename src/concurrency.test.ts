@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("preserves input order in the results", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it("never exceeds the concurrency limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await mapWithConcurrency(
+      Array.from({ length: 20 }, (_, i) => i),
+      3,
+      async () => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight -= 1;
+      },
+    );
+    expect(peak).toBe(3);
+  });
+
+  it("reports each result as it settles", async () => {
+    const seen: number[] = [];
+    await mapWithConcurrency(
+      [1, 2, 3],
+      2,
+      async (n) => n,
+      (result) => seen.push(result),
+    );
+    expect(seen.sort()).toEqual([1, 2, 3]);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  Action,
+  ActionPanel,
+  environment,
+  Form,
+  getPreferenceValues,
+  Icon,
+  popToRoot,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { stat } from "fs/promises";
+import { homedir } from "os";
+import { useState } from "react";
+import { collapseHomePath } from "./data-transfer";
+import { discoverProjects } from "./discovery";
+import { expandHomePath, includesPath } from "./paths";
+import {
+  DEFAULT_EXCLUDES,
+  getPjConfigPath,
+  parseListInput,
+  parseMaxDepth,
+  readPjConfigSettings,
+  writePjConfig,
+  type PjConfig,
+} from "./pj-config";
+import type { Preferences } from "./types";
+import { formatDisplayPath } from "./utils";
+
+interface ConfigureFormValues {
+  roots: string[];
+  keepMissingRoots: boolean;
+  markers: string;
+  exclude: string;
+  maxDepth: string;
+}
+
+interface LoadedSettings {
+  settings: PjConfig;
+  // Configured roots that don't exist as directories; the directory picker can't show them
+  missingRoots: string[];
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function loadSettings(): Promise<LoadedSettings> {
+  const settings = await readPjConfigSettings();
+  const present = await Promise.all(settings.paths.map((path) => isDirectory(expandHomePath(path))));
+  return { settings, missingRoots: settings.paths.filter((_, index) => !present[index]) };
+}
+
+function ConfigureForm({ settings, missingRoots }: LoadedSettings) {
+  const { pjPath, cacheTtl } = getPreferenceValues<Preferences>();
+  const [rootsError, setRootsError] = useState<string>();
+  const [maxDepthError, setMaxDepthError] = useState<string>();
+
+  async function handleSubmit(values: ConfigureFormValues) {
+    const { maxDepth, error } = parseMaxDepth(values.maxDepth);
+    if (error) {
+      setMaxDepthError(error);
+      return;
+    }
+
+    const notDirectories: string[] = [];
+    for (const path of values.roots) {
+      if (!(await isDirectory(path))) notDirectories.push(path);
+    }
+    if (notDirectories.length > 0) {
+      setRootsError(`Not a directory: ${notDirectories.map(formatDisplayPath).join(", ")}`);
+      return;
+    }
+
+    // Configured roots keep their position and spelling; new ones are added under ~ where possible
+    const picked = values.roots.map((path) => expandHomePath(path));
+    const kept = settings.paths.filter((path) =>
+      missingRoots.includes(path) ? values.keepMissingRoots : includesPath(picked, expandHomePath(path)),
+    );
+    const keptExpanded = kept.map((path) => expandHomePath(path));
+    const added = picked
+      .filter((path) => !includesPath(keptExpanded, path))
+      .map((path) => collapseHomePath(path, homedir()));
+    const paths = [...kept, ...added];
+    if (paths.length === 0) {
+      setRootsError("Add at least one directory for pj to search");
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Saving pj configuration" });
+    try {
+      await writePjConfig({
+        paths,
+        markers: parseListInput(values.markers),
+        exclude: parseListInput(values.exclude),
+        maxDepth,
+      });
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to save pj configuration";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+      return;
+    }
+
+    // The config changed, so rescan instead of serving cached projects
+    toast.title = "Discovering projects";
+    try {
+      const result = await discoverProjects({
+        pjPath,
+        cacheDir: environment.supportPath,
+        maxAgeMs: Number(cacheTtl) * 60 * 1000,
+        force: true,
+      });
+      toast.style = Toast.Style.Success;
+      toast.title = "Saved pj configuration";
+      toast.message = `Found ${result.projects.length} projects`;
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Saved pj configuration, but discovery failed";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+    await popToRoot();
+  }
+
+  return (
+    <Form
+      navigationTitle="Configure PJ"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Configuration" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+          <Action.Open
+            title="Open config.yaml"
+            icon={Icon.Document}
+            target={getPjConfigPath()}
+            shortcut={{ modifiers: ["cmd"], key: "o" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`Edits ${formatDisplayPath(getPjConfigPath())}. Comments and other settings are kept.`} />
+      <Form.FilePicker
+        id="roots"
+        title="Search Roots"
+        allowMultipleSelection
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={settings.paths.filter((path) => !missingRoots.includes(path)).map((path) => expandHomePath(path))}
+        error={rootsError}
+        onChange={() => setRootsError(undefined)}
+        info="Directories pj searches for projects"
+      />
+      {missingRoots.length > 0 && (
+        <Form.Checkbox
+          id="keepMissingRoots"
+          label={`Keep missing ${missingRoots.length === 1 ? "root" : "roots"}: ${missingRoots.join(", ")}`}
+          defaultValue={true}
+          info="These roots don't exist on this machine. Uncheck to remove them from the config."
+        />
+      )}
+      <Form.TextArea
+        id="markers"
+        title="Markers"
+        placeholder={".git\npackage.json\nCargo.toml"}
+        defaultValue={settings.markers.join("\n")}
+        info="Files or directories that mark a project root, one per line. Leave empty to use pj's defaults."
+      />
+      <Form.TextArea
+        id="exclude"
+        title="Exclude"
+        placeholder={DEFAULT_EXCLUDES.join("\n")}
+        defaultValue={settings.exclude.join("\n")}
+        info="Directory names or globs (e.g. *.tmp) pj skips, one per line. Leave empty to use pj's defaults."
+      />
+      <Form.TextField
+        id="maxDepth"
+        title="Max Depth"
+        placeholder="pj's default"
+        defaultValue={settings.maxDepth?.toString() ?? ""}
+        error={maxDepthError}
+        onChange={() => setMaxDepthError(undefined)}
+        info="How many directories deep pj searches below each root"
+      />
+    </Form>
+  );
+}
+
+export default function ConfigurePj() {
+  const { data, isLoading } = usePromise(loadSettings);
+
+  // Default values only apply on the first render, so wait for the current settings
+  if (isLoading || !data) {
+    return <Form isLoading />;
+  }
+  return <ConfigureForm settings={data.settings} missingRoots={data.missingRoots} />;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInvocation,
+  expandTemplate,
+  parseCustomActions,
+  parseShortcut,
+  powershellQuote,
+  shellQuote,
+} from "./custom-actions";
+
+const project = { name: "pj-raycast", path: "/Users/testuser/dev/pj-raycast", marker: "package.json" };
+
+describe("parseShortcut", () => {
+  it("parses modifiers and a key", () => {
+    expect(parseShortcut("cmd+shift+g")).toEqual({ modifiers: ["cmd", "shift"], key: "g" });
+  });
+
+  it("accepts modifier aliases and whitespace", () => {
+    expect(parseShortcut("Command + Option + 1")).toEqual({ modifiers: ["cmd", "opt"], key: "1" });
+  });
+
+  it("requires at least one modifier", () => {
+    expect(parseShortcut("g")).toBeUndefined();
+  });
+
+  it("rejects unknown modifiers and keys", () => {
+    expect(parseShortcut("hyper+g")).toBeUndefined();
+    expect(parseShortcut("cmd+f13")).toBeUndefined();
+  });
+});
+
+describe("parseCustomActions", () => {
+  it("parses YAML with an actions key", () => {
+    const { actions, errors } = parseCustomActions(`
+actions:
+  - title: Open in Lazygit
+    shortcut: cmd+shift+g
+    command: lazygit -p {path}
+  - title: Open in Sublime Merge
+    application: Sublime Merge
+`);
+
+    expect(errors).toEqual([]);
+    expect(actions).toEqual([
+      { title: "Open in Lazygit", command: "lazygit -p {path}", shortcut: { modifiers: ["cmd", "shift"], key: "g" } },
+      { title: "Open in Sublime Merge", application: "Sublime Merge", arguments: undefined },
+    ]);
+  });
+
+  it("parses a JSON list", () => {
+    const { actions } = parseCustomActions(
+      JSON.stringify([{ title: "Zed", application: "Zed", arguments: ["{path}/README.md"] }]),
+    );
+    expect(actions).toEqual([{ title: "Zed", application: "Zed", arguments: ["{path}/README.md"] }]);
+  });
+
+  it("treats an empty file as no actions", () => {
+    expect(parseCustomActions("")).toEqual({ actions: [], errors: [] });
+  });
+
+  it("reports invalid entries and keeps valid ones", () => {
+    const { actions, errors } = parseCustomActions(`
+- title: Valid
+  command: echo {name}
+- command: echo missing title
+- title: Both
+  command: echo
+  application: Finder
+- title: Neither
+- title: Bad Shortcut
+  command: echo
+  shortcut: nope
+`);
+
+    expect(actions.map((action) => action.title)).toEqual(["Valid", "Bad Shortcut"]);
+    expect(errors).toEqual([
+      'Action 2: missing "title"',
+      '"Both": set exactly one of "command" or "application"',
+      '"Neither": set exactly one of "command" or "application"',
+      '"Bad Shortcut": invalid shortcut "nope"',
+    ]);
+  });
+
+  it("rejects arguments on command actions", () => {
+    const { errors } = parseCustomActions('- title: X\n  command: echo\n  arguments: ["a"]\n');
+    expect(errors).toEqual(['"X": "arguments" only applies to "application" actions']);
+  });
+
+  it("reports syntax errors", () => {
+    const { actions, errors } = parseCustomActions("actions: [unclosed");
+    expect(actions).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+
+  it("reports an unexpected document shape", () => {
+    expect(parseCustomActions("actions: nope").errors).toEqual(['Expected a list of actions or an "actions" key']);
+  });
+});
+
+describe("expandTemplate", () => {
+  it("replaces all placeholders", () => {
+    expect(expandTemplate("{name} ({marker}) at {path}", project)).toBe(
+      "pj-raycast (package.json) at /Users/testuser/dev/pj-raycast",
+    );
+  });
+
+  it("leaves unknown placeholders alone", () => {
+    expect(expandTemplate("{branch}", project)).toBe("{branch}");
+  });
+
+  it("applies the quote function to values", () => {
+    expect(expandTemplate("cd {path}", project, shellQuote)).toBe("cd '/Users/testuser/dev/pj-raycast'");
+  });
+});
+
+describe("shellQuote", () => {
+  it("escapes single quotes", () => {
+    expect(shellQuote("it's")).toBe(`'it'\\''s'`);
+  });
+});
+
+describe("powershellQuote", () => {
+  it("doubles single quotes", () => {
+    expect(powershellQuote("it's")).toBe("'it''s'");
+  });
+});
+
+describe("buildInvocation", () => {
+  it("runs shell commands through a login shell in the project directory", () => {
+    expect(buildInvocation({ title: "Test", command: "npm test -- {name}" }, project, "/bin/zsh")).toEqual({
+      file: "/bin/zsh",
+      args: ["-lc", "npm test -- 'pj-raycast'"],
+      cwd: project.path,
+    });
+  });
+
+  it("opens the project path with an application by default", () => {
+    expect(buildInvocation({ title: "Fork", application: "Fork" }, project)).toEqual({
+      file: "open",
+      args: ["-a", "Fork", project.path],
+      cwd: project.path,
+    });
+  });
+
+  it("expands application arguments without shell quoting", () => {
+    const invocation = buildInvocation(
+      { title: "Readme", application: "Typora", arguments: ["{path}/README.md"] },
+      project,
+    );
+    expect(invocation.args).toEqual(["-a", "Typora", `${project.path}/README.md`]);
+  });
+
+  it("runs commands in PowerShell on Windows", () => {
+    const windowsProject = { ...project, path: "C:\\Users\\me\\it's" };
+    expect(buildInvocation({ title: "Test", command: "npm test -- {path}" }, windowsProject, "", "win32")).toEqual({
+      file: "powershell.exe",
+      args: ["-NoProfile", "-Command", "npm test -- 'C:\\Users\\me\\it''s'"],
+      cwd: windowsProject.path,
+    });
+  });
+
+  it("starts applications with Start-Process on Windows", () => {
+    const windowsProject = { ...project, path: "C:\\code\\my app" };
+    const invocation = buildInvocation({ title: "Fork", application: "Fork.exe" }, windowsProject, "", "win32");
+    expect(invocation.args[2]).toBe(`Start-Process -FilePath 'Fork.exe' -ArgumentList '"C:\\code\\my app"'`);
+  });
+});
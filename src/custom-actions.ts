@@ -0,0 +1,184 @@
+import type { Keyboard } from "@raycast/api";
+import { parse } from "yaml";
+import type { Project } from "./types";
+
+// A user-defined action from the custom actions file
+export interface CustomAction {
+  title: string;
+  shortcut?: Keyboard.Shortcut;
+  // Shell command template run in the project directory
+  command?: string;
+  // Application to open, with argument templates (defaults to the project path)
+  application?: string;
+  arguments?: string[];
+}
+
+export interface CustomActionsResult {
+  actions: CustomAction[];
+  errors: string[];
+}
+
+export interface Invocation {
+  file: string;
+  args: string[];
+  cwd: string;
+}
+
+const MODIFIERS: Record<string, Keyboard.KeyModifier> = {
+  cmd: "cmd",
+  command: "cmd",
+  ctrl: "ctrl",
+  control: "ctrl",
+  opt: "opt",
+  option: "opt",
+  alt: "opt",
+  shift: "shift",
+};
+
+// Parse a shortcut like "cmd+shift+g"
+export function parseShortcut(value: string): Keyboard.Shortcut | undefined {
+  const parts = value
+    .toLowerCase()
+    .split("+")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const key = parts.pop();
+  if (!key || !/^([a-z0-9]|[.,;=+\-/[\]'`\\]|return|delete|tab|space|arrow(up|down|left|right))$/.test(key)) {
+    return undefined;
+  }
+
+  const modifiers: Keyboard.KeyModifier[] = [];
+  for (const part of parts) {
+    const modifier = MODIFIERS[part];
+    if (!modifier) return undefined;
+    if (!modifiers.includes(modifier)) modifiers.push(modifier);
+  }
+  if (modifiers.length === 0) return undefined;
+
+  return { modifiers, key: key as Keyboard.KeyEquivalent };
+}
+
+function validateAction(raw: unknown, index: number, errors: string[]): CustomAction | undefined {
+  const label = `Action ${index + 1}`;
+  if (!raw || typeof raw !== "object") {
+    errors.push(`${label}: expected an object`);
+    return undefined;
+  }
+
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.title !== "string" || !entry.title.trim()) {
+    errors.push(`${label}: missing "title"`);
+    return undefined;
+  }
+
+  const name = `"${entry.title}"`;
+  const hasCommand = typeof entry.command === "string" && entry.command.trim() !== "";
+  const hasApplication = typeof entry.application === "string" && entry.application.trim() !== "";
+  if (hasCommand === hasApplication) {
+    errors.push(`${name}: set exactly one of "command" or "application"`);
+    return undefined;
+  }
+
+  if (entry.arguments !== undefined && !hasApplication) {
+    errors.push(`${name}: "arguments" only applies to "application" actions`);
+    return undefined;
+  }
+  if (entry.arguments !== undefined && !Array.isArray(entry.arguments)) {
+    errors.push(`${name}: "arguments" must be a list`);
+    return undefined;
+  }
+
+  const action: CustomAction = { title: entry.title.trim() };
+  if (hasCommand) action.command = entry.command as string;
+  if (hasApplication) {
+    action.application = (entry.application as string).trim();
+    action.arguments = (entry.arguments as unknown[] | undefined)?.map(String);
+  }
+
+  if (entry.shortcut !== undefined) {
+    const shortcut = typeof entry.shortcut === "string" ? parseShortcut(entry.shortcut) : undefined;
+    if (shortcut) {
+      action.shortcut = shortcut;
+    } else {
+      errors.push(`${name}: invalid shortcut ${JSON.stringify(entry.shortcut)}`);
+    }
+  }
+
+  return action;
+}
+
+// Parse the custom actions file (YAML, which also accepts JSON), collecting errors instead of throwing
+export function parseCustomActions(contents: string): CustomActionsResult {
+  let document: unknown;
+  try {
+    document = parse(contents);
+  } catch (error) {
+    return { actions: [], errors: [error instanceof Error ? error.message : "Invalid file"] };
+  }
+  if (document === null || document === undefined) {
+    return { actions: [], errors: [] };
+  }
+
+  const list = Array.isArray(document) ? document : (document as Record<string, unknown>).actions;
+  if (!Array.isArray(list)) {
+    return { actions: [], errors: ['Expected a list of actions or an "actions" key'] };
+  }
+
+  const errors: string[] = [];
+  const actions = list
+    .map((raw, index) => validateAction(raw, index, errors))
+    .filter((action): action is CustomAction => action !== undefined);
+  return { actions, errors };
+}
+
+// Quote a value for POSIX shells
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Quote a value as a PowerShell string literal
+export function powershellQuote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Replace {path}, {name} and {marker} placeholders, optionally escaping values for a shell
+export function expandTemplate(
+  template: string,
+  project: Pick<Project, "path" | "name" | "marker">,
+  quote: (value: string) => string = (value) => value,
+): string {
+  return template.replace(/\{(path|name|marker)\}/g, (_, key: "path" | "name" | "marker") => quote(project[key]));
+}
+
+// Process to spawn for a custom action. Windows runs commands in PowerShell and starts applications
+// with Start-Process.
+export function buildInvocation(
+  action: CustomAction,
+  project: Pick<Project, "path" | "name" | "marker">,
+  shell: string = process.env.SHELL || "/bin/zsh",
+  platform: NodeJS.Platform = process.platform,
+): Invocation {
+  if (platform === "win32") {
+    return {
+      file: "powershell.exe",
+      args: ["-NoProfile", "-Command", buildPowerShellLine(action, project)],
+      cwd: project.path,
+    };
+  }
+  if (action.command) {
+    return { file: shell, args: ["-lc", expandTemplate(action.command, project, shellQuote)], cwd: project.path };
+  }
+
+  const args = (action.arguments ?? ["{path}"]).map((arg) => expandTemplate(arg, project));
+  return { file: "open", args: ["-a", action.application ?? "", ...args], cwd: project.path };
+}
+
+function buildPowerShellLine(action: CustomAction, project: Pick<Project, "path" | "name" | "marker">): string {
+  if (action.command) {
+    return expandTemplate(action.command, project, powershellQuote);
+  }
+  // Start-Process joins the argument list with spaces, so each argument carries its own double quotes
+  const args = (action.arguments ?? ["{path}"]).map((arg) => powershellQuote(`"${expandTemplate(arg, project)}"`));
+  const argumentList = args.length > 0 ? ` -ArgumentList ${args.join(",")}` : "";
+  return `Start-Process -FilePath ${powershellQuote(action.application ?? "")}${argumentList}`;
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyImport,
+  collapseHomePath,
+  createExportDocument,
+  EXPORT_FORMAT,
+  findMissingPaths,
+  ImportError,
+  mergeStoredData,
+  parseExportDocument,
+  remapHomePath,
+} from "./data-transfer";
+import { STORED_DATA_VERSION } from "./stored-data";
+import type { StoredData } from "./types";
+
+const OLD_HOME = "/Users/alice";
+const NEW_HOME = "/home/alice";
+const WINDOWS_HOME = "C:\\Users\\Alice";
+
+function storedData(overrides: Partial<StoredData> = {}): StoredData {
+  return {
+    version: STORED_DATA_VERSION,
+    favorites: [],
+    recentProjects: [],
+    tags: {},
+    remotes: {},
+    editors: {},
+    sets: {},
+    commands: {},
+    ...overrides,
+  };
+}
+
+describe("collapseHomePath", () => {
+  it("replaces the home directory with ~", () => {
+    expect(collapseHomePath("/Users/alice/code/app", OLD_HOME)).toBe("~/code/app");
+    expect(collapseHomePath(OLD_HOME, OLD_HOME)).toBe("~");
+  });
+
+  it("leaves other paths and look-alike prefixes unchanged", () => {
+    expect(collapseHomePath("/Users/alicebob/app", OLD_HOME)).toBe("/Users/alicebob/app");
+    expect(collapseHomePath("/opt/app", OLD_HOME)).toBe("/opt/app");
+  });
+
+  it("uses Windows separators and ignores case under a Windows home", () => {
+    expect(collapseHomePath("c:/users/Alice/code/app", WINDOWS_HOME)).toBe("~\\code\\app");
+    expect(collapseHomePath("C:\\Users\\alice\\", WINDOWS_HOME)).toBe("~");
+    expect(collapseHomePath("C:\\Users\\alicebob", WINDOWS_HOME)).toBe("C:\\Users\\alicebob");
+  });
+});
+
+describe("remapHomePath", () => {
+  it("expands ~ to the new home", () => {
+    expect(remapHomePath("~/code/app", OLD_HOME, NEW_HOME)).toBe("/home/alice/code/app");
+  });
+
+  it("rewrites absolute paths under the exporting home", () => {
+    expect(remapHomePath("/Users/alice/code/app", OLD_HOME, NEW_HOME)).toBe("/home/alice/code/app");
+  });
+
+  it("keeps paths outside the home directory", () => {
+    expect(remapHomePath("/srv/app", OLD_HOME, NEW_HOME)).toBe("/srv/app");
+  });
+
+  it("moves paths between macOS and Windows homes", () => {
+    expect(remapHomePath("~/code/app", OLD_HOME, WINDOWS_HOME)).toBe("C:\\Users\\Alice\\code\\app");
+    expect(remapHomePath("~\\code\\app", WINDOWS_HOME, NEW_HOME)).toBe("/home/alice/code/app");
+    expect(remapHomePath("c:\\users\\alice\\code", WINDOWS_HOME, OLD_HOME)).toBe("/Users/alice/code");
+    expect(remapHomePath("/Users/alice/code", OLD_HOME, WINDOWS_HOME)).toBe("C:\\Users\\Alice\\code");
+  });
+});
+
+describe("createExportDocument / parseExportDocument", () => {
+  const data = storedData({
+    favorites: ["/Users/alice/code/app"],
+    recentProjects: [{ path: "/Users/alice/code/app", count: 3, visits: [3000, 2000, 1000], lastAccessed: 3000 }],
+    tags: { "/Users/alice/code/app": ["work"], "/srv/shared": ["oss"] },
+    sets: { "Payments Stack": ["/Users/alice/code/app", "/srv/shared"] },
+  });
+
+  it("writes home-relative paths", () => {
+    const document = createExportDocument(data, OLD_HOME, new Date("2026-01-02T03:04:05Z"));
+    expect(document).toMatchObject({
+      format: EXPORT_FORMAT,
+      version: STORED_DATA_VERSION,
+      exportedAt: "2026-01-02T03:04:05.000Z",
+      home: OLD_HOME,
+    });
+    expect(document.data.favorites).toEqual(["~/code/app"]);
+    expect(Object.keys(document.data.tags)).toEqual(["~/code/app", "/srv/shared"]);
+    expect(document.data.sets).toEqual({ "Payments Stack": ["~/code/app", "/srv/shared"] });
+  });
+
+  it("round-trips onto a machine with a different home", () => {
+    const contents = JSON.stringify(createExportDocument(data, OLD_HOME));
+    const imported = parseExportDocument(contents, NEW_HOME);
+    expect(imported.favorites).toEqual(["/home/alice/code/app"]);
+    expect(imported.recentProjects[0].path).toBe("/home/alice/code/app");
+    expect(imported.tags).toEqual({ "/home/alice/code/app": ["work"], "/srv/shared": ["oss"] });
+    expect(imported.sets).toEqual({ "Payments Stack": ["/home/alice/code/app", "/srv/shared"] });
+  });
+
+  it("keys imported project maps by this machine's path keys", () => {
+    const contents = JSON.stringify(createExportDocument(data, OLD_HOME));
+    const imported = parseExportDocument(contents, WINDOWS_HOME);
+    expect(imported.favorites).toEqual(["C:\\Users\\Alice\\code\\app"]);
+    expect(Object.keys(imported.tags)).toEqual(["c:\\users\\alice\\code\\app", "/srv/shared"]);
+  });
+
+  it("migrates version 1 exports", () => {
+    const contents = JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: 1,
+      home: OLD_HOME,
+      data: { favorites: ["/Users/alice/app"], recentProjects: [{ path: "/Users/alice/app", lastAccessed: 5 }] },
+    });
+    expect(parseExportDocument(contents, NEW_HOME)).toEqual(
+      storedData({
+        favorites: ["/home/alice/app"],
+        recentProjects: [{ path: "/home/alice/app", count: 1, visits: [5], lastAccessed: 5 }],
+      }),
+    );
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parseExportDocument("{", NEW_HOME)).toThrow(ImportError);
+    expect(() => parseExportDocument('{"favorites": []}', NEW_HOME)).toThrow(/not a PJ data export/);
+    expect(() =>
+      parseExportDocument(JSON.stringify({ format: EXPORT_FORMAT, version: 99, data: {} }), NEW_HOME),
+    ).toThrow(/newer version/);
+  });
+});
+
+describe("mergeStoredData", () => {
+  it("unions favorites and tags", () => {
+    const merged = mergeStoredData(
+      storedData({ favorites: ["/a", "/b"], tags: { "/a": ["work"] } }),
+      storedData({ favorites: ["/b", "/c"], tags: { "/a": ["oss"], "/c": ["client-x"] } }),
+    );
+    expect(merged.favorites).toEqual(["/a", "/b", "/c"]);
+    expect(merged.tags).toEqual({ "/a": ["oss", "work"], "/c": ["client-x"] });
+  });
+
+  it("unions the members of sets with the same name", () => {
+    const merged = mergeStoredData(
+      storedData({ sets: { stack: ["/a", "/b"], mine: ["/x"] } }),
+      storedData({ sets: { stack: ["/b", "/c"], theirs: ["/y"] } }),
+    );
+    expect(merged.sets).toEqual({ stack: ["/a", "/b", "/c"], mine: ["/x"], theirs: ["/y"] });
+  });
+
+  it("merges history entries without double counting", () => {
+    const entry = { path: "/a", count: 4, visits: [400, 300], lastAccessed: 400 };
+    const merged = mergeStoredData(
+      storedData({ recentProjects: [entry] }),
+      storedData({ recentProjects: [{ path: "/a", count: 2, visits: [500, 300], lastAccessed: 500 }] }),
+    );
+    expect(merged.recentProjects).toEqual([{ path: "/a", count: 4, visits: [500, 400, 300], lastAccessed: 500 }]);
+  });
+
+  it("treats differently spelled Windows paths as one project", () => {
+    const merged = mergeStoredData(
+      storedData({
+        favorites: ["C:\\Code\\api"],
+        recentProjects: [{ path: "C:\\Code\\api", count: 1, visits: [100], lastAccessed: 100 }],
+        tags: { "c:\\code\\api": ["work"] },
+        sets: { stack: ["C:\\Code\\api"] },
+      }),
+      storedData({
+        favorites: ["c:\\code\\api"],
+        recentProjects: [{ path: "c:\\code\\api", count: 1, visits: [200], lastAccessed: 200 }],
+        tags: { "C:\\Code\\api": ["oss"] },
+        sets: { stack: ["c:/code/api"] },
+      }),
+    );
+    expect(merged.favorites).toEqual(["C:\\Code\\api"]);
+    expect(merged.recentProjects).toEqual([{ path: "C:\\Code\\api", count: 2, visits: [200, 100], lastAccessed: 200 }]);
+    expect(merged.tags).toEqual({ "c:\\code\\api": ["oss", "work"] });
+    expect(merged.sets).toEqual({ stack: ["C:\\Code\\api"] });
+  });
+
+  it("is idempotent", () => {
+    const data = storedData({
+      favorites: ["/a"],
+      recentProjects: [{ path: "/a", count: 2, visits: [2, 1], lastAccessed: 2 }],
+      tags: { "/a": ["work"] },
+      sets: { stack: ["/a"] },
+    });
+    expect(mergeStoredData(data, data)).toEqual(data);
+  });
+});
+
+describe("applyImport", () => {
+  it("replaces everything in replace mode", () => {
+    const imported = storedData({ favorites: ["/new"] });
+    expect(applyImport(storedData({ favorites: ["/old"] }), imported, "replace")).toBe(imported);
+  });
+});
+
+describe("findMissingPaths", () => {
+  it("reports each referenced path that does not exist", async () => {
+    const data = storedData({
+      favorites: ["/a", "/gone"],
+      recentProjects: [{ path: "/gone", count: 1, visits: [1], lastAccessed: 1 }],
+      tags: { "/also-gone": ["x"] },
+      sets: { stack: ["/a", "/set-member-gone"] },
+    });
+    expect(await findMissingPaths(data, async (path) => path === "/a")).toEqual([
+      "/gone",
+      "/also-gone",
+      "/set-member-gone",
+    ]);
+  });
+});
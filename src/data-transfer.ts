@@ -0,0 +1,171 @@
+import { MAX_VISITS_PER_PROJECT } from "./frecency";
+import { detectPathFlavor, pathBelow, pathKey, pathModule, splitAnySeparator, uniquePaths } from "./paths";
+import { migrateStoredData, normalizeTags, STORED_DATA_VERSION } from "./stored-data";
+import type { ProjectHistoryEntry, StoredData } from "./types";
+
+export const EXPORT_FORMAT = "pj-raycast-data";
+
+// Favorites, recent projects, tags and project sets as written by Export PJ Data
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Home directory of the exporting machine; paths below it are written with ~
+  home: string;
+  data: Omit<StoredData, "version">;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Replace the home directory prefix with ~, using the home directory's separator and case rules
+export function collapseHomePath(path: string, home: string): string {
+  const flavor = detectPathFlavor(home);
+  const segments = pathBelow(path, home, flavor);
+  if (segments === undefined) {
+    return path;
+  }
+  return ["~", ...segments].join(pathModule(flavor).sep);
+}
+
+// Point a path at this machine's home directory: expands ~ and rewrites paths under the exporting home.
+// Either separator is accepted, so data exported on macOS imports on Windows and the other way around.
+export function remapHomePath(path: string, fromHome: string | undefined, toHome: string): string {
+  const api = pathModule(detectPathFlavor(toHome));
+  if (path === "~" || /^~[\\/]/.test(path)) {
+    return api.join(toHome, ...splitAnySeparator(path.slice(1)));
+  }
+  const segments = fromHome ? pathBelow(path, fromHome) : undefined;
+  return segments === undefined ? path : api.join(toHome, ...segments);
+}
+
+function mapPaths(data: Omit<StoredData, "version">, map: (path: string) => string): Omit<StoredData, "version"> {
+  return {
+    favorites: data.favorites.map(map),
+    recentProjects: data.recentProjects.map((entry) => ({ ...entry, path: map(entry.path) })),
+    tags: Object.fromEntries(Object.entries(data.tags).map(([path, tags]) => [map(path), tags])),
+    remotes: Object.fromEntries(Object.entries(data.remotes).map(([path, remote]) => [map(path), remote])),
+    editors: Object.fromEntries(Object.entries(data.editors).map(([path, editor]) => [map(path), editor])),
+    sets: Object.fromEntries(Object.entries(data.sets).map(([name, paths]) => [name, paths.map(map)])),
+    commands: Object.fromEntries(Object.entries(data.commands).map(([path, command]) => [map(path), command])),
+  };
+}
+
+export function createExportDocument(data: StoredData, home: string, now: Date = new Date()): ExportDocument {
+  const { favorites, recentProjects, tags, remotes, editors, sets, commands } = data;
+  return {
+    format: EXPORT_FORMAT,
+    version: STORED_DATA_VERSION,
+    exportedAt: now.toISOString(),
+    home,
+    data: mapPaths({ favorites, recentProjects, tags, remotes, editors, sets, commands }, (path) =>
+      collapseHomePath(path, home),
+    ),
+  };
+}
+
+// Validate an exported document and return its data with paths remapped to this machine
+export function parseExportDocument(contents: string, home: string): StoredData {
+  let document: unknown;
+  try {
+    document = JSON.parse(contents);
+  } catch {
+    throw new ImportError("The file is not valid JSON");
+  }
+
+  if (!document || typeof document !== "object") {
+    throw new ImportError("The file is not a PJ data export");
+  }
+  const { format, version, home: exportHome, data } = document as Record<string, unknown>;
+  if (format !== EXPORT_FORMAT || typeof version !== "number" || !data || typeof data !== "object") {
+    throw new ImportError("The file is not a PJ data export");
+  }
+  if (version > STORED_DATA_VERSION) {
+    throw new ImportError(`The export is from a newer version of the extension (data version ${version})`);
+  }
+
+  const migrated = migrateStoredData({ ...data, version });
+  const fromHome = typeof exportHome === "string" ? exportHome : undefined;
+  // Migrate the remapped data again so project maps are keyed by this machine's paths
+  return migrateStoredData({
+    version: migrated.version,
+    ...mapPaths(migrated, (path) => remapHomePath(path, fromHome, home)),
+  });
+}
+
+function mergeHistoryEntries(a: ProjectHistoryEntry, b: ProjectHistoryEntry): ProjectHistoryEntry {
+  const visits = Array.from(new Set([...a.visits, ...b.visits]))
+    .sort((x, y) => y - x)
+    .slice(0, MAX_VISITS_PER_PROJECT);
+  // Importing the same export twice must not inflate counts, so keep the larger one
+  return {
+    path: a.path,
+    count: Math.max(a.count, b.count, visits.length),
+    visits,
+    lastAccessed: Math.max(a.lastAccessed, b.lastAccessed),
+  };
+}
+
+// Combine imported data into the current data: favorites, tags and set members are unioned, history
+// entries merged
+export function mergeStoredData(current: StoredData, imported: StoredData): StoredData {
+  const history = new Map(current.recentProjects.map((entry) => [pathKey(entry.path), entry]));
+  for (const entry of imported.recentProjects) {
+    const existing = history.get(pathKey(entry.path));
+    history.set(pathKey(entry.path), existing ? mergeHistoryEntries(existing, entry) : entry);
+  }
+
+  const tags = { ...current.tags };
+  for (const [path, projectTags] of Object.entries(imported.tags)) {
+    const key = pathKey(path);
+    tags[key] = normalizeTags([...(tags[key] ?? []), ...projectTags]);
+  }
+
+  const sets = { ...current.sets };
+  for (const [name, paths] of Object.entries(imported.sets)) {
+    sets[name] = uniquePaths([...(sets[name] ?? []), ...paths]);
+  }
+
+  return {
+    version: STORED_DATA_VERSION,
+    favorites: uniquePaths([...current.favorites, ...imported.favorites]),
+    recentProjects: Array.from(history.values()),
+    tags,
+    remotes: { ...imported.remotes, ...current.remotes },
+    editors: { ...current.editors, ...imported.editors },
+    sets,
+    commands: { ...current.commands, ...imported.commands },
+  };
+}
+
+export function applyImport(current: StoredData, imported: StoredData, mode: ImportMode): StoredData {
+  return mode === "replace" ? imported : mergeStoredData(current, imported);
+}
+
+// Every project path referenced by the data, once, in the spelling first seen
+export function storedDataPaths(data: Omit<StoredData, "version">): string[] {
+  return uniquePaths([
+    ...data.favorites,
+    ...data.recentProjects.map((entry) => entry.path),
+    ...Object.keys(data.tags),
+    ...Object.keys(data.editors),
+    ...Object.values(data.sets).flat(),
+    ...Object.keys(data.commands),
+  ]);
+}
+
+// Paths in the data that do not exist on this machine
+export async function findMissingPaths(
+  data: Omit<StoredData, "version">,
+  exists: (path: string) => Promise<boolean>,
+): Promise<string[]> {
+  const paths = storedDataPaths(data);
+  const present = await Promise.all(paths.map(exists));
+  return paths.filter((_, index) => !present[index]);
+}
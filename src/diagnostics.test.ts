@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { emptyRefreshLog } from "./background-refresh";
+import {
+  countProjectsByMarker,
+  countProjectsByRoot,
+  explainPath,
+  formatDiagnosticsReport,
+  resolveEffectiveConfig,
+  type EffectiveConfig,
+  type PathFacts,
+} from "./diagnostics";
+import { DEFAULT_MARKERS, DEFAULT_MAX_DEPTH } from "./pj-config";
+
+const HOME = "/Users/me";
+
+const config: EffectiveConfig = {
+  roots: ["/Users/me/code", "/Users/me/code/work"],
+  markers: [".git", "package.json"],
+  exclude: ["node_modules", "*.bak"],
+  maxDepth: 2,
+};
+
+function facts(overrides: Partial<PathFacts> = {}): PathFacts {
+  return { exists: true, isDirectory: true, entries: [".git"], ...overrides };
+}
+
+describe("resolveEffectiveConfig", () => {
+  it("expands roots and fills in pj's defaults", () => {
+    expect(resolveEffectiveConfig({ paths: ["~/code"], markers: [], exclude: [] }, HOME)).toEqual({
+      roots: ["/Users/me/code"],
+      markers: DEFAULT_MARKERS,
+      exclude: [],
+      maxDepth: DEFAULT_MAX_DEPTH,
+    });
+  });
+});
+
+describe("countProjectsByRoot", () => {
+  it("counts projects under the closest root and those outside all roots", () => {
+    const projects = [
+      { path: "/Users/me/code/api" },
+      { path: "/Users/me/code/work/web" },
+      { path: "/Users/me/code/work/cli" },
+      { path: "/srv/other" },
+    ];
+    expect(countProjectsByRoot(projects, config.roots)).toEqual([
+      { root: "/Users/me/code", count: 1 },
+      { root: "/Users/me/code/work", count: 2 },
+      { root: undefined, count: 1 },
+    ]);
+  });
+
+  it("lists roots without projects", () => {
+    expect(countProjectsByRoot([], ["/a"])).toEqual([{ root: "/a", count: 0 }]);
+  });
+});
+
+describe("countProjectsByMarker", () => {
+  it("sorts markers by count, then name", () => {
+    const projects = [{ marker: "go.mod" }, { marker: ".git" }, { marker: "Cargo.toml" }, { marker: ".git" }];
+    expect(countProjectsByMarker(projects)).toEqual([
+      { marker: ".git", count: 2 },
+      { marker: "Cargo.toml", count: 1 },
+      { marker: "go.mod", count: 1 },
+    ]);
+  });
+});
+
+describe("explainPath", () => {
+  it("reports discovered projects", () => {
+    expect(explainPath("/Users/me/code/api", config, facts(), ["/Users/me/code/api"]).verdict).toBe("found");
+  });
+
+  it("reports missing paths and files", () => {
+    expect(explainPath("/nope", config, facts({ exists: false }), []).verdict).toBe("missing");
+    expect(explainPath("/Users/me/code/a.txt", config, facts({ isDirectory: false }), []).verdict).toBe(
+      "not-directory",
+    );
+  });
+
+  it("reports paths outside every root", () => {
+    const explanation = explainPath("/Users/me/Desktop/app", config, facts(), []);
+    expect(explanation.verdict).toBe("outside-roots");
+    expect(explanation.detail).toContain("/Users/me/code");
+    expect(explainPath("/x", { ...config, roots: [] }, facts(), []).detail).toContain("no search roots");
+  });
+
+  it("names the exclude pattern that matched", () => {
+    const explanation = explainPath("/Users/me/code/old.bak/app", config, facts(), []);
+    expect(explanation.verdict).toBe("excluded");
+    expect(explanation.detail).toContain('"old.bak" matches the exclude pattern "*.bak"');
+  });
+
+  it("measures depth from the closest root", () => {
+    const tooDeep = explainPath("/Users/me/code/a/b/c", config, facts(), []);
+    expect(tooDeep.verdict).toBe("too-deep");
+    expect(tooDeep.detail).toContain("3 levels below /Users/me/code");
+    expect(explainPath("/Users/me/code/work/a/b", config, facts(), []).verdict).toBe("should-be-found");
+  });
+
+  it("reports missing markers and points out known markers that aren't configured", () => {
+    const explanation = explainPath("/Users/me/code/rust", config, facts({ entries: ["Cargo.toml", "src"] }), []);
+    expect(explanation.verdict).toBe("no-marker");
+    expect(explanation.detail).toContain("It has Cargo.toml");
+  });
+
+  it("mentions an enclosing project when every rule matches", () => {
+    const explanation = explainPath("/Users/me/code/mono/packages", config, facts(), ["/Users/me/code/mono"]);
+    expect(explanation.verdict).toBe("should-be-found");
+    expect(explanation.detail).toContain("inside the project /Users/me/code/mono");
+  });
+
+  it("handles Windows roots case-insensitively", () => {
+    const windows = { ...config, roots: ["C:\\Users\\me\\code"] };
+    expect(explainPath("c:\\users\\ME\\code\\app", windows, facts(), []).verdict).toBe("should-be-found");
+  });
+});
+
+describe("formatDiagnosticsReport", () => {
+  it("includes the binary, config, timing and counts", () => {
+    const markdown = formatDiagnosticsReport({
+      binaryDescription: "pj 1.6.3 from PATH",
+      binaryPath: "/opt/homebrew/bin/pj",
+      configPath: "/Users/me/.config/pj/config.yaml",
+      config,
+      durationMs: 1234,
+      projects: [
+        { path: "/Users/me/code/api", marker: ".git" },
+        { path: "/srv/x", marker: "package.json" },
+      ],
+      refreshLog: emptyRefreshLog(),
+    });
+    expect(markdown).toContain("pj 1.6.3 from PATH: `/opt/homebrew/bin/pj`");
+    expect(markdown).toContain("- **Exclude:** `node_modules`, `*.bak`");
+    expect(markdown).toContain("Found 2 projects in 1.23s.");
+    expect(markdown).toContain("| `/Users/me/code/work` | 0 |");
+    expect(markdown).toContain("| _Outside the roots_ | 1 |");
+    expect(markdown).toContain("| `package.json` | 1 |");
+    expect(markdown).toContain("Refresh Projects hasn't run yet.");
+  });
+
+  it("lists recent background refresh changes", () => {
+    const markdown = formatDiagnosticsReport({
+      binaryDescription: "pj 1.6.3 from PATH",
+      binaryPath: "/opt/homebrew/bin/pj",
+      configPath: "/Users/me/.config/pj/config.yaml",
+      config,
+      durationMs: 1234,
+      projects: [],
+      refreshLog: {
+        ...emptyRefreshLog(),
+        lastRunAt: 3,
+        records: [
+          {
+            at: 2,
+            total: 9,
+            added: ["a", "b", "c", "d", "e", "f", "g"].map((name) => ({ name, path: `/code/${name}` })),
+            removed: [],
+          },
+          { at: 1, total: 2, added: [], removed: [{ name: "old", path: "/code/old" }] },
+        ],
+      },
+      formatDate: (time) => `T${time}`,
+    });
+    expect(markdown).toContain("Last run T3. Recent runs that added or removed projects:");
+    expect(markdown).toContain("| T2 | `a`, `b`, `c`, `d`, `e` and 2 more | _none_ |");
+    expect(markdown).toContain("| T1 | _none_ | `old` |");
+  });
+});
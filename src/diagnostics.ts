@@ -0,0 +1,236 @@
+import { createExcludeMatcher } from "./activity";
+import type { RefreshLog } from "./background-refresh";
+import { MARKER_TYPES } from "./markers";
+import { expandHomePath, includesPath, pathBelow } from "./paths";
+import { DEFAULT_MARKERS, DEFAULT_MAX_DEPTH, type PjConfig } from "./pj-config";
+import type { Project } from "./types";
+
+// The config pj actually runs with: roots expanded and defaults filled in
+export interface EffectiveConfig {
+  roots: string[];
+  markers: string[];
+  exclude: string[];
+  maxDepth: number;
+}
+
+export function resolveEffectiveConfig(config: PjConfig, home?: string): EffectiveConfig {
+  return {
+    roots: config.paths.map((path) => expandHomePath(path, home)),
+    markers: config.markers.length > 0 ? config.markers : DEFAULT_MARKERS,
+    exclude: config.exclude,
+    maxDepth: config.maxDepth ?? DEFAULT_MAX_DEPTH,
+  };
+}
+
+export interface RootCount {
+  // Undefined for projects outside every configured root
+  root?: string;
+  count: number;
+}
+
+// Projects per root, in config order; a project under nested roots counts for the closest one
+export function countProjectsByRoot(projects: Pick<Project, "path">[], roots: string[]): RootCount[] {
+  const counts = new Map<string | undefined, number>(roots.map((root) => [root, 0]));
+  for (const project of projects) {
+    const root = findClosestRoot(project.path, roots)?.root;
+    counts.set(root, (counts.get(root) ?? 0) + 1);
+  }
+  return Array.from(counts, ([root, count]) => ({ root, count })).filter(({ root, count }) => root || count > 0);
+}
+
+// Projects per marker, most common first
+export function countProjectsByMarker(projects: Pick<Project, "marker">[]): { marker: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const project of projects) {
+    counts.set(project.marker, (counts.get(project.marker) ?? 0) + 1);
+  }
+  return Array.from(counts, ([marker, count]) => ({ marker, count })).sort(
+    (a, b) => b.count - a.count || a.marker.localeCompare(b.marker),
+  );
+}
+
+function findClosestRoot(path: string, roots: string[]): { root: string; segments: string[] } | undefined {
+  let closest: { root: string; segments: string[] } | undefined;
+  for (const root of roots) {
+    const segments = pathBelow(path, root);
+    if (segments && (!closest || segments.length < closest.segments.length)) closest = { root, segments };
+  }
+  return closest;
+}
+
+// What the filesystem says about the path being explained
+export interface PathFacts {
+  exists: boolean;
+  isDirectory: boolean;
+  // Names of the directory's entries, to look for markers
+  entries: string[];
+}
+
+export type Verdict =
+  "found" | "missing" | "not-directory" | "outside-roots" | "excluded" | "too-deep" | "no-marker" | "should-be-found";
+
+export interface Explanation {
+  verdict: Verdict;
+  title: string;
+  detail: string;
+}
+
+// Which of pj's rules keeps a path out of the project list, checked in the order pj applies them
+export function explainPath(
+  path: string,
+  config: EffectiveConfig,
+  facts: PathFacts,
+  discoveredPaths: string[],
+): Explanation {
+  if (includesPath(discoveredPaths, path)) {
+    return { verdict: "found", title: "Discovered", detail: "pj lists this project. Try refreshing if it's missing." };
+  }
+  if (!facts.exists) {
+    return { verdict: "missing", title: "Path Doesn't Exist", detail: "Nothing exists at this path." };
+  }
+  if (!facts.isDirectory) {
+    return { verdict: "not-directory", title: "Not a Directory", detail: "pj only lists directories." };
+  }
+
+  const closest = findClosestRoot(path, config.roots);
+  if (!closest) {
+    return {
+      verdict: "outside-roots",
+      title: "Outside the Search Roots",
+      detail:
+        config.roots.length > 0
+          ? `pj only searches ${config.roots.join(", ")}. Add a parent directory as a root with Configure PJ.`
+          : "pj has no search roots configured. Add one with Configure PJ.",
+    };
+  }
+
+  const isExcluded = createExcludeMatcher(config.exclude);
+  const excludedIndex = closest.segments.findIndex(isExcluded);
+  if (excludedIndex !== -1) {
+    const segment = closest.segments[excludedIndex];
+    const pattern = config.exclude.find((candidate) => createExcludeMatcher([candidate])(segment)) ?? segment;
+    return {
+      verdict: "excluded",
+      title: "Excluded",
+      detail: `"${segment}" matches the exclude pattern "${pattern}", so pj doesn't look inside it.`,
+    };
+  }
+
+  const depth = closest.segments.length;
+  if (depth > config.maxDepth) {
+    return {
+      verdict: "too-deep",
+      title: "Too Deep",
+      detail: `It is ${depth} levels below ${closest.root}, but max_depth is ${config.maxDepth}. Raise it with Configure PJ.`,
+    };
+  }
+
+  const found = config.markers.filter((marker) => facts.entries.includes(marker));
+  if (found.length === 0) {
+    const unlisted = facts.entries.filter((entry) => entry in MARKER_TYPES && !config.markers.includes(entry));
+    return {
+      verdict: "no-marker",
+      title: "No Marker",
+      detail:
+        `None of the markers (${config.markers.join(", ")}) is in this directory.` +
+        (unlisted.length > 0 ? ` It has ${unlisted.join(", ")}, which isn't in your markers list.` : ""),
+    };
+  }
+
+  // A discovered ancestor below the root suggests pj stopped at the enclosing project
+  const ancestor = discoveredPaths.find((candidate) => {
+    const below = pathBelow(path, candidate);
+    return below !== undefined && below.length > 0 && pathBelow(candidate, closest.root) !== undefined;
+  });
+  return {
+    verdict: "should-be-found",
+    title: "Matches Every Rule",
+    detail:
+      `It is under ${closest.root} at depth ${depth} and has ${found.join(", ")}.` +
+      (ancestor
+        ? ` It is inside the project ${ancestor}; pj may stop searching at the enclosing project.`
+        : " Refresh projects (Cmd+R) in case the cache is out of date."),
+  };
+}
+
+export interface DiagnosticsReport {
+  binaryDescription: string;
+  binaryPath: string;
+  configPath: string;
+  config: EffectiveConfig;
+  // Duration of a fresh scan
+  durationMs: number;
+  projects: Pick<Project, "path" | "marker">[];
+  // Recent changes recorded by Refresh Projects
+  refreshLog: RefreshLog;
+  formatDate?: (time: number) => string;
+}
+
+function codeList(values: string[]): string {
+  return values.length > 0 ? values.map((value) => `\`${value}\``).join(", ") : "_none_";
+}
+
+// Project names for a table cell, e.g. "`api`, `web` and 3 more"
+function nameList(projects: Pick<Project, "name">[], maxNames = 5): string {
+  const names = codeList(projects.slice(0, maxNames).map((project) => project.name));
+  return projects.length > maxNames ? `${names} and ${projects.length - maxNames} more` : names;
+}
+
+function formatRefreshSection(log: RefreshLog, formatDate: (time: number) => string): string[] {
+  if (log.lastRunAt === undefined) {
+    return ["Refresh Projects hasn't run yet. Enable background refresh for it in Raycast's settings."];
+  }
+  const lastRun = `Last run ${formatDate(log.lastRunAt)}.`;
+  if (log.records.length === 0) {
+    return [`${lastRun} No projects added or removed in recent runs.`];
+  }
+  return [
+    `${lastRun} Recent runs that added or removed projects:`,
+    "",
+    "| When | Added | Removed |",
+    "|------|-------|---------|",
+    ...log.records.map(
+      (record) => `| ${formatDate(record.at)} | ${nameList(record.added)} | ${nameList(record.removed)} |`,
+    ),
+  ];
+}
+
+// Markdown for the diagnostics view
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const { config, projects } = report;
+  const lines = [
+    "# PJ Diagnostics",
+    "",
+    "## Binary",
+    "",
+    `${report.binaryDescription}: \`${report.binaryPath}\``,
+    "",
+    "## Effective Config",
+    "",
+    `From \`${report.configPath}\`, with pj's defaults for unset values.`,
+    "",
+    `- **Roots:** ${codeList(config.roots)}`,
+    `- **Markers:** ${codeList(config.markers)}`,
+    `- **Exclude:** ${codeList(config.exclude)}`,
+    `- **Max depth:** ${config.maxDepth}`,
+    "",
+    "## Discovery",
+    "",
+    `Found ${projects.length} ${projects.length === 1 ? "project" : "projects"} in ${(report.durationMs / 1000).toFixed(2)}s.`,
+    "",
+    "| Root | Projects |",
+    "|------|----------|",
+    ...countProjectsByRoot(projects, config.roots).map(
+      ({ root, count }) => `| ${root ? `\`${root}\`` : "_Outside the roots_"} | ${count} |`,
+    ),
+    "",
+    "| Marker | Projects |",
+    "|--------|----------|",
+    ...countProjectsByMarker(projects).map(({ marker, count }) => `| \`${marker || "(none)"}\` | ${count} |`),
+    "",
+    "## Background Refresh",
+    "",
+    ...formatRefreshSection(report.refreshLog, report.formatDate ?? ((time) => new Date(time).toLocaleString())),
+  ];
+  return lines.join("\n");
+}
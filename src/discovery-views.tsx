@@ -0,0 +1,76 @@
+import { Action, ActionPanel, Icon, launchCommand, LaunchType, List, openExtensionPreferences } from "@raycast/api";
+import { describeBinary, PjBinaryError } from "./binary";
+import type { PjBinary } from "./types";
+
+interface DiscoveryErrorViewProps {
+  error: Error;
+  onRetry: () => void;
+}
+
+// Actionable empty view for discovery failures
+export function DiscoveryErrorView({ error, onRetry }: DiscoveryErrorViewProps) {
+  const actions = (
+    <ActionPanel>
+      <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+      <Action title="Try Again" icon={Icon.ArrowClockwise} onAction={onRetry} />
+      <Action.CopyToClipboard title="Copy Error Message" content={error.message} />
+    </ActionPanel>
+  );
+
+  if (error instanceof PjBinaryError) {
+    const titles: Record<PjBinaryError["reason"], string> = {
+      "not-found": "PJ Binary Not Found",
+      "not-executable": "PJ Binary Not Executable",
+      "is-directory": "PJ Binary Path Is a Directory",
+    };
+    return (
+      <List.EmptyView
+        icon={Icon.ExclamationMark}
+        title={titles[error.reason]}
+        description={`${error.message}. Update "PJ Binary Path" in the extension preferences, or set it to "pj" to use the binary from PATH.`}
+        actions={actions}
+      />
+    );
+  }
+
+  return (
+    <List.EmptyView icon={Icon.Warning} title="Failed to Load Projects" description={error.message} actions={actions} />
+  );
+}
+
+interface NoProjectsViewProps {
+  binary?: PjBinary;
+  onRetry: () => void;
+}
+
+// Empty view for a successful discovery that found nothing
+export function NoProjectsView({ binary, onRetry }: NoProjectsViewProps) {
+  const description = binary
+    ? `${describeBinary(binary)} found no projects. Check pj's search roots and markers with Configure PJ.`
+    : "Make sure pj is installed, then set its search roots with Configure PJ.";
+
+  return (
+    <List.EmptyView
+      icon={Icon.Folder}
+      title="No Projects Found"
+      description={description}
+      actions={
+        <ActionPanel>
+          <Action
+            title="Refresh Projects"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={onRetry}
+          />
+          <Action
+            title="Configure PJ"
+            icon={Icon.Gear}
+            shortcut={{ modifiers: ["cmd"], key: "," }}
+            onAction={() => launchCommand({ name: "configure-pj", type: LaunchType.UserInitiated })}
+          />
+          {binary && <Action.CopyToClipboard title="Copy PJ Binary Path" content={binary.path} />}
+        </ActionPanel>
+      }
+    />
+  );
+}
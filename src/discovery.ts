@@ -0,0 +1,44 @@
+import { discover } from "@joe-sh/pj";
+import { resolvePjBinary } from "./binary";
+import { hashPjConfig } from "./pj-config";
+import { isCacheFresh, matchesCacheKey, readProjectCache, writeProjectCache } from "./project-cache";
+import type { PjBinary, Project } from "./types";
+
+export interface DiscoveryOptions {
+  pjPath: string | undefined;
+  cacheDir: string;
+  maxAgeMs: number;
+  // Skip the cache entirely and always run a fresh scan
+  force?: boolean;
+  // Receives cached projects as soon as they are read, before pj runs
+  onCached?: (projects: Project[]) => void;
+}
+
+export interface DiscoveryResult {
+  projects: Project[];
+  binary: PjBinary;
+  fromCache: boolean;
+}
+
+// Discover projects with the configured binary, serving from the shared cache while it is fresh
+export async function discoverProjects(options: DiscoveryOptions): Promise<DiscoveryResult> {
+  const configHash = await hashPjConfig();
+  const cached = options.force ? undefined : await readProjectCache(options.cacheDir);
+  if (cached && cached.configHash === configHash) {
+    options.onCached?.(cached.projects);
+  }
+
+  const binary = await resolvePjBinary(options.pjPath);
+  const key = { configHash, binaryVersion: binary.version };
+  if (cached && matchesCacheKey(cached, key) && isCacheFresh(cached, options.maxAgeMs)) {
+    return { projects: cached.projects, binary, fromCache: true };
+  }
+
+  const projects = await discover({ icons: true, binaryPath: binary.path });
+  try {
+    await writeProjectCache(options.cacheDir, key, projects);
+  } catch (error) {
+    console.error("Failed to write project cache:", error);
+  }
+  return { projects, binary, fromCache: false };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  chooseEditor,
+  compileEditorRules,
+  findApplicationByName,
+  globToRegExp,
+  matchEditorRule,
+  parseEditorRules,
+} from "./editor-rules";
+
+const HOME = "/Users/me";
+
+describe("parseEditorRules", () => {
+  it("parses type and path rules separated by semicolons or new lines", () => {
+    expect(parseEditorRules("Cargo=RustRover; ~/work/**=Cursor\n/opt/*/java=IntelliJ IDEA")).toEqual({
+      rules: [
+        { pattern: "cargo", kind: "type", application: "RustRover" },
+        { pattern: "~/work/**", kind: "path", application: "Cursor" },
+        { pattern: "/opt/*/java", kind: "path", application: "IntelliJ IDEA" },
+      ],
+      errors: [],
+    });
+  });
+
+  it("reports entries without a pattern or application", () => {
+    const { rules, errors } = parseEditorRules("cargo; =Zed; go=;maven=IntelliJ IDEA;");
+    expect(rules).toEqual([{ pattern: "maven", kind: "type", application: "IntelliJ IDEA" }]);
+    expect(errors).toHaveLength(3);
+  });
+
+  it("returns nothing for an empty preference", () => {
+    expect(parseEditorRules("")).toEqual({ rules: [], errors: [] });
+  });
+});
+
+describe("globToRegExp", () => {
+  it("expands ~ and matches ** across directories", () => {
+    const glob = globToRegExp("~/work/**", HOME);
+    expect(glob.test("/Users/me/work")).toBe(true);
+    expect(glob.test("/Users/me/work/client/app")).toBe(true);
+    expect(glob.test("/Users/me/workshop")).toBe(false);
+  });
+
+  it("keeps * and ? within a single directory", () => {
+    const glob = globToRegExp("/code/*/ap?", HOME);
+    expect(glob.test("/code/rust/app")).toBe(true);
+    expect(glob.test("/code/rust/nested/app")).toBe(false);
+  });
+
+  it("escapes regular expression characters", () => {
+    expect(globToRegExp("/code/a.b", HOME).test("/code/axb")).toBe(false);
+  });
+});
+
+describe("matchEditorRule", () => {
+  const { rules } = parseEditorRules("~/work/**=Cursor; cargo=RustRover; maven=IntelliJ IDEA");
+
+  it("returns the first matching rule", () => {
+    expect(matchEditorRule(rules, { path: "/Users/me/work/api", type: "cargo" }, HOME)?.application).toBe("Cursor");
+    expect(matchEditorRule(rules, { path: "/Users/me/oss/cli", type: "cargo" }, HOME)?.application).toBe("RustRover");
+  });
+
+  it("matches project types case-insensitively", () => {
+    expect(matchEditorRule(rules, { path: "/x", type: "Maven" }, HOME)?.application).toBe("IntelliJ IDEA");
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(matchEditorRule(rules, { path: "/x", type: "npm" }, HOME)).toBeUndefined();
+  });
+
+  it("matches Windows paths with either separator and any case", () => {
+    const home = "C:\\Users\\Me";
+    const { rules: windowsRules } = parseEditorRules("~\\work\\**=Cursor; D:/oss/*=Zed");
+    const match = (path: string) => matchEditorRule(windowsRules, { path, type: "npm" }, home)?.application;
+    expect(match("c:\\users\\me\\Work\\api")).toBe("Cursor");
+    expect(match("D:\\OSS\\cli")).toBe("Zed");
+    expect(match("C:\\Users\\Me\\workshop")).toBeUndefined();
+  });
+});
+
+describe("compileEditorRules", () => {
+  it("compiles path globs and leaves type rules alone", () => {
+    const compiled = compileEditorRules(parseEditorRules("~/work/**=Cursor; cargo=RustRover").rules, HOME);
+    expect(compiled[0].regex?.test("/Users/me/work/api")).toBe(true);
+    expect(compiled[1].regex).toBeUndefined();
+  });
+
+  it("matches like the uncompiled rules", () => {
+    const { rules } = parseEditorRules("~/work/**=Cursor; cargo=RustRover");
+    const compiled = compileEditorRules(rules, HOME);
+    for (const project of [
+      { path: "/Users/me/work/api", type: "cargo" },
+      { path: "/Users/me/oss/cli", type: "cargo" },
+      { path: "/x", type: "npm" },
+    ]) {
+      expect(matchEditorRule(compiled, project, HOME)?.application).toBe(
+        matchEditorRule(rules, project, HOME)?.application,
+      );
+    }
+  });
+});
+
+describe("findApplicationByName", () => {
+  const apps = [{ name: "Visual Studio Code - Insiders" }, { name: "Visual Studio Code" }];
+
+  it("prefers an exact match, then a partial one", () => {
+    expect(findApplicationByName(apps, "visual studio code")).toBe(apps[1]);
+    expect(findApplicationByName(apps, "insiders")).toBe(apps[0]);
+    expect(findApplicationByName(apps, "Zed")).toBeUndefined();
+  });
+});
+
+describe("chooseEditor", () => {
+  const vscode = { name: "Visual Studio Code", path: "/Applications/Visual Studio Code.app" };
+  const rustRover = { name: "RustRover", path: "/Applications/RustRover.app" };
+  const zed = { name: "Zed", path: "/Applications/Zed.app" };
+  const base = {
+    project: { path: "/Users/me/oss/cli", type: "cargo" },
+    override: undefined,
+    rules: parseEditorRules("cargo=RustRover").rules,
+    applications: [vscode, rustRover, zed],
+    defaultEditor: vscode,
+    home: HOME,
+  };
+
+  it("uses a matching rule and names it", () => {
+    expect(chooseEditor(base)).toEqual({ application: rustRover, reason: "cargo rule" });
+  });
+
+  it("prefers the project's override", () => {
+    expect(chooseEditor({ ...base, override: zed.path })).toEqual({
+      application: zed,
+      reason: "always for this project",
+    });
+  });
+
+  it("falls back to the default editor when the rule's application isn't installed", () => {
+    expect(chooseEditor({ ...base, applications: [vscode] })).toEqual({ application: vscode });
+  });
+
+  it("ignores an override for an uninstalled application", () => {
+    expect(chooseEditor({ ...base, override: "/Applications/Gone.app" }).application).toBe(rustRover);
+  });
+});
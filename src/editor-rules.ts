@@ -0,0 +1,132 @@
+import { detectPathFlavor } from "./paths";
+
+// A rule from the "Editor Rules" preference, e.g. "cargo=RustRover" or "~/work/**=Cursor"
+export interface EditorRule {
+  // Project type (as shown in the type tag) or path glob
+  pattern: string;
+  kind: "type" | "path";
+  application: string;
+  // Compiled path glob, set by compileEditorRules
+  regex?: RegExp;
+}
+
+export interface EditorRulesResult {
+  rules: EditorRule[];
+  errors: string[];
+}
+
+// Parse "pattern=Application" pairs separated by semicolons or new lines. Patterns containing a
+// slash or backslash or starting with ~ are path globs, everything else is a project type.
+export function parseEditorRules(value: string): EditorRulesResult {
+  const rules: EditorRule[] = [];
+  const errors: string[] = [];
+
+  for (const entry of value.split(/[;\n]/)) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.lastIndexOf("=");
+    const pattern = separator === -1 ? "" : trimmed.slice(0, separator).trim();
+    const application = separator === -1 ? "" : trimmed.slice(separator + 1).trim();
+    if (!pattern || !application) {
+      errors.push(`"${trimmed}": expected pattern=Application`);
+      continue;
+    }
+
+    const kind = /[\\/]/.test(pattern) || pattern.startsWith("~") ? "path" : "type";
+    rules.push({ pattern: kind === "type" ? pattern.toLowerCase() : pattern, kind, application });
+  }
+
+  return { rules, errors };
+}
+
+// Convert a path glob to a regular expression: ** matches across directories, * and ? within one.
+// A trailing /** also matches the directory itself. Under a Windows home, globs may use either
+// separator and match case-insensitively.
+export function globToRegExp(glob: string, home: string): RegExp {
+  const slashed = toGlobPath(glob, home);
+  const expanded = slashed === "~" || slashed.startsWith("~/") ? toGlobPath(home, home) + slashed.slice(1) : slashed;
+  let source = "";
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i];
+    if (char === "*" && expanded[i + 1] === "*") {
+      const atEnd = i + 2 === expanded.length;
+      if (atEnd && source.endsWith("/")) {
+        source = source.slice(0, -1) + "(?:/.*)?";
+      } else {
+        source += ".*";
+      }
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, detectPathFlavor(home) === "win32" ? "i" : "");
+}
+
+// Compile path globs once, instead of for every project a rule is matched against
+export function compileEditorRules(rules: EditorRule[], home: string): EditorRule[] {
+  return rules.map((rule) => (rule.kind === "path" ? { ...rule, regex: globToRegExp(rule.pattern, home) } : rule));
+}
+
+// Globs are matched against "/"-separated paths, so Windows paths swap their backslashes
+function toGlobPath(path: string, home: string): string {
+  return detectPathFlavor(home) === "win32" ? path.replace(/\\/g, "/") : path;
+}
+
+// First rule matching the project, in the order the rules were written
+export function matchEditorRule(
+  rules: EditorRule[],
+  project: { path: string; type: string },
+  home: string,
+): EditorRule | undefined {
+  const type = project.type.toLowerCase();
+  return rules.find((rule) =>
+    rule.kind === "type"
+      ? rule.pattern === type
+      : (rule.regex ?? globToRegExp(rule.pattern, home)).test(toGlobPath(project.path, home)),
+  );
+}
+
+// Match an application by exact or partial name
+export function findApplicationByName<T extends { name: string }>(apps: T[], name: string): T | undefined {
+  const wanted = name.toLowerCase();
+  return (
+    apps.find((app) => app.name.toLowerCase() === wanted) ?? apps.find((app) => app.name.toLowerCase().includes(wanted))
+  );
+}
+
+export interface EditorChoice<T> {
+  application: T | undefined;
+  // Why this editor was picked, shown in the action title; undefined for the default editor
+  reason?: string;
+}
+
+// Pick the editor for a project: the project's override, then the first matching rule, then the default
+export function chooseEditor<T extends { name: string; path: string }>(options: {
+  project: { path: string; type: string };
+  override: string | undefined;
+  rules: EditorRule[];
+  applications: T[];
+  defaultEditor: T | undefined;
+  home: string;
+}): EditorChoice<T> {
+  const { project, override, rules, applications, defaultEditor, home } = options;
+
+  const overrideApp = override ? applications.find((app) => app.path === override) : undefined;
+  if (overrideApp) {
+    return { application: overrideApp, reason: "always for this project" };
+  }
+
+  const rule = matchEditorRule(rules, project, home);
+  const ruleApp = rule ? findApplicationByName(applications, rule.application) : undefined;
+  if (rule && ruleApp) {
+    return { application: ruleApp, reason: `${rule.pattern} rule` };
+  }
+
+  return { application: defaultEditor };
+}
@@ -0,0 +1,64 @@
+import { Action, ActionPanel, Form, Icon, popToRoot, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { createExportDocument, storedDataPaths } from "./data-transfer";
+import { FILE_MANAGER_NAME, readStoredData } from "./utils";
+
+interface ExportFormValues {
+  folder: string[];
+  fileName: string;
+}
+
+function defaultFileName(now: Date = new Date()): string {
+  return `pj-data-${now.toISOString().slice(0, 10)}.json`;
+}
+
+export default function ExportData() {
+  async function handleSubmit(values: ExportFormValues) {
+    const folder = values.folder[0];
+    const fileName = values.fileName.trim() || defaultFileName();
+    if (!folder) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a folder to export to" });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting PJ data" });
+    try {
+      const data = await readStoredData();
+      const file = join(folder, fileName.endsWith(".json") ? fileName : `${fileName}.json`);
+      await writeFile(file, JSON.stringify(createExportDocument(data, homedir()), null, 2) + "\n", "utf8");
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Exported PJ data";
+      toast.message = `${data.favorites.length} favorites, ${storedDataPaths(data).length} projects in total`;
+      toast.primaryAction = { title: `Show in ${FILE_MANAGER_NAME}`, onAction: () => showInFinder(file) };
+      await popToRoot();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to export PJ data";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" icon={Icon.Upload} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Save favorites, recent projects, tags and project sets to a JSON file you can import on another machine." />
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[join(homedir(), "Downloads")]}
+      />
+      <Form.TextField id="fileName" title="File Name" defaultValue={defaultFileName()} />
+    </Form>
+  );
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  frecencyScore,
+  HALF_LIFE_MS,
+  MAX_VISITS_PER_PROJECT,
+  normalizeHistoryEntry,
+  pruneHistory,
+  rankByFrecency,
+  rankHistory,
+  recordVisit,
+} from "./frecency";
+import type { ProjectHistoryEntry } from "./types";
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(path: string, visits: number[], count = visits.length): ProjectHistoryEntry {
+  return { path, count, visits, lastAccessed: visits[0] ?? 0 };
+}
+
+describe("normalizeHistoryEntry", () => {
+  it("upgrades entries from the old recent list", () => {
+    expect(normalizeHistoryEntry({ path: "/a", lastAccessed: NOW })).toEqual({
+      path: "/a",
+      count: 1,
+      visits: [NOW],
+      lastAccessed: NOW,
+    });
+  });
+
+  it("handles old entries without a timestamp", () => {
+    expect(normalizeHistoryEntry({ path: "/a" })).toEqual({ path: "/a", count: 0, visits: [], lastAccessed: 0 });
+  });
+
+  it("keeps entries that are already in the new format", () => {
+    const existing = entry("/a", [NOW, NOW - DAY], 5);
+    expect(normalizeHistoryEntry(existing)).toEqual(existing);
+  });
+});
+
+describe("frecencyScore", () => {
+  it("scores a visit right now as 1", () => {
+    expect(frecencyScore(entry("/a", [NOW]), NOW)).toBeCloseTo(1);
+  });
+
+  it("halves the weight of a visit after one half-life", () => {
+    expect(frecencyScore(entry("/a", [NOW - HALF_LIFE_MS]), NOW)).toBeCloseTo(0.5);
+  });
+
+  it("scales sampled visits up to the total open count", () => {
+    expect(frecencyScore(entry("/a", [NOW], 4), NOW)).toBeCloseTo(4);
+  });
+
+  it("scores projects without visits as 0", () => {
+    expect(frecencyScore(entry("/a", []), NOW)).toBe(0);
+  });
+
+  it("prefers frequent projects over a single more recent open", () => {
+    const frequent = entry("/frequent", [NOW - DAY, NOW - 2 * DAY, NOW - 3 * DAY]);
+    const recent = entry("/recent", [NOW]);
+    expect(frecencyScore(frequent, NOW)).toBeGreaterThan(frecencyScore(recent, NOW));
+  });
+});
+
+describe("recordVisit", () => {
+  it("adds a new project at the front", () => {
+    const history = recordVisit([entry("/a", [NOW - DAY])], "/b", NOW);
+    expect(history.map((e) => e.path)).toEqual(["/b", "/a"]);
+    expect(history[0]).toEqual({ path: "/b", count: 1, visits: [NOW], lastAccessed: NOW });
+  });
+
+  it("increments the count of an existing project and moves it to the front", () => {
+    const history = recordVisit([entry("/a", [NOW - DAY]), entry("/b", [NOW - 2 * DAY])], "/b", NOW);
+    expect(history[0]).toEqual({ path: "/b", count: 2, visits: [NOW, NOW - 2 * DAY], lastAccessed: NOW });
+    expect(history).toHaveLength(2);
+  });
+
+  it("treats Windows paths differing in case or separators as the same project", () => {
+    const history = recordVisit([entry("C:\\Code\\App", [NOW - DAY])], "c:/code/app/", NOW);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ path: "c:/code/app/", count: 2 });
+  });
+
+  it("keeps POSIX paths differing in case apart", () => {
+    expect(recordVisit([entry("/Code/App", [NOW - DAY])], "/code/app", NOW)).toHaveLength(2);
+  });
+
+  it("keeps a bounded number of timestamps while counting every open", () => {
+    let history: ProjectHistoryEntry[] = [];
+    for (let i = 0; i < MAX_VISITS_PER_PROJECT + 5; i++) {
+      history = recordVisit(history, "/a", NOW + i);
+    }
+    expect(history[0].visits).toHaveLength(MAX_VISITS_PER_PROJECT);
+    expect(history[0].count).toBe(MAX_VISITS_PER_PROJECT + 5);
+  });
+});
+
+describe("pruneHistory", () => {
+  it("drops entries that have decayed away", () => {
+    const history = [entry("/fresh", [NOW]), entry("/ancient", [NOW - 365 * DAY])];
+    expect(pruneHistory(history, NOW).map((e) => e.path)).toEqual(["/fresh"]);
+  });
+
+  it("keeps the highest scoring entries when over the limit", () => {
+    const history = [entry("/a", [NOW - 3 * DAY]), entry("/b", [NOW]), entry("/c", [NOW - DAY])];
+    expect(pruneHistory(history, NOW, 2).map((e) => e.path)).toEqual(["/b", "/c"]);
+  });
+
+  it("keeps more than ten entries", () => {
+    const history = Array.from({ length: 25 }, (_, i) => entry(`/p${i}`, [NOW - i * 1000]));
+    expect(pruneHistory(history, NOW)).toHaveLength(25);
+  });
+});
+
+describe("rankHistory", () => {
+  it("orders paths by score", () => {
+    const history = [entry("/a", [NOW - 10 * DAY]), entry("/b", [NOW, NOW - DAY]), entry("/c", [NOW])];
+    expect(rankHistory(history, NOW)).toEqual(["/b", "/c", "/a"]);
+  });
+});
+
+describe("rankByFrecency", () => {
+  const projects = [
+    { name: "zeta", path: "/zeta" },
+    { name: "alpha", path: "/alpha" },
+    { name: "beta", path: "/beta" },
+  ];
+
+  it("puts scored projects first, highest score first", () => {
+    const history = [entry("/beta", [NOW - 10 * DAY]), entry("/zeta", [NOW])];
+    expect(rankByFrecency(projects, history, NOW).map((p) => p.name)).toEqual(["zeta", "beta", "alpha"]);
+  });
+
+  it("finds the history of Windows projects regardless of path case", () => {
+    const windowsProjects = [
+      { name: "api", path: "C:\\code\\api" },
+      { name: "web", path: "C:\\code\\web" },
+    ];
+    const history = [entry("c:\\CODE\\WEB", [NOW])];
+    expect(rankByFrecency(windowsProjects, history, NOW).map((p) => p.name)).toEqual(["web", "api"]);
+  });
+
+  it("sorts alphabetically without history", () => {
+    expect(rankByFrecency(projects, [], NOW).map((p) => p.name)).toEqual(["alpha", "beta", "zeta"]);
+  });
+
+  it("does not mutate the input", () => {
+    const input = [...projects];
+    rankByFrecency(input, [], NOW);
+    expect(input).toEqual(projects);
+  });
+});
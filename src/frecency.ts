@@ -0,0 +1,118 @@
+import { isSamePath, pathKey } from "./paths";
+import type { FavoriteProject, ProjectHistoryEntry } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A visit loses half its weight every week
+export const HALF_LIFE_MS = 7 * DAY_MS;
+
+// Individual timestamps kept per project; older visits still count through `count`
+export const MAX_VISITS_PER_PROJECT = 10;
+
+// Upper bound on tracked projects after pruning
+export const MAX_HISTORY_ENTRIES = 200;
+
+// Entries whose score decays below this are dropped when pruning
+export const MIN_SCORE = 0.01;
+
+// Upgrade entries stored by the old fixed-size recent list, which only had a single timestamp
+export function normalizeHistoryEntry(entry: FavoriteProject | ProjectHistoryEntry): ProjectHistoryEntry {
+  const visits =
+    "visits" in entry && Array.isArray(entry.visits) && entry.visits.length > 0
+      ? entry.visits
+      : entry.lastAccessed !== undefined
+        ? [entry.lastAccessed]
+        : [];
+  const count =
+    "count" in entry && typeof entry.count === "number" ? Math.max(entry.count, visits.length) : visits.length;
+  const lastAccessed = entry.lastAccessed ?? (visits.length > 0 ? Math.max(...visits) : 0);
+
+  return { path: entry.path, count, visits, lastAccessed };
+}
+
+// Frecency score: time-decayed sampled visits, scaled up to the total number of opens
+export function frecencyScore(entry: ProjectHistoryEntry, now: number = Date.now()): number {
+  if (entry.visits.length === 0 || entry.count === 0) {
+    return 0;
+  }
+
+  const decayed = entry.visits.reduce((sum, visit) => {
+    const age = Math.max(0, now - visit);
+    return sum + Math.pow(0.5, age / HALF_LIFE_MS);
+  }, 0);
+
+  return (decayed * entry.count) / entry.visits.length;
+}
+
+// Record an open of a project, most recent entry first
+export function recordVisit(
+  history: ProjectHistoryEntry[],
+  path: string,
+  now: number = Date.now(),
+): ProjectHistoryEntry[] {
+  const existing = history.find((entry) => isSamePath(entry.path, path));
+  const others = history.filter((entry) => !isSamePath(entry.path, path));
+
+  const updated: ProjectHistoryEntry = {
+    path,
+    count: (existing?.count ?? 0) + 1,
+    visits: [now, ...(existing?.visits ?? [])].slice(0, MAX_VISITS_PER_PROJECT),
+    lastAccessed: now,
+  };
+
+  return [updated, ...others];
+}
+
+// Drop entries that have decayed away and cap the history size, keeping the highest scores
+export function pruneHistory(
+  history: ProjectHistoryEntry[],
+  now: number = Date.now(),
+  maxEntries: number = MAX_HISTORY_ENTRIES,
+): ProjectHistoryEntry[] {
+  const scored = history
+    .map((entry) => ({ entry, score: frecencyScore(entry, now) }))
+    .filter(({ score }) => score >= MIN_SCORE);
+
+  if (scored.length <= maxEntries) {
+    return scored.map(({ entry }) => entry);
+  }
+
+  const keep = new Set(
+    [...scored]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxEntries)
+      .map(({ entry }) => entry.path),
+  );
+  return scored.filter(({ entry }) => keep.has(entry.path)).map(({ entry }) => entry);
+}
+
+// Map of project path key (see pathKey) to frecency score
+export function scoreHistory(history: ProjectHistoryEntry[], now: number = Date.now()): Map<string, number> {
+  return new Map(history.map((entry) => [pathKey(entry.path), frecencyScore(entry, now)]));
+}
+
+// History paths ordered from highest to lowest score
+export function rankHistory(history: ProjectHistoryEntry[], now: number = Date.now()): string[] {
+  return history
+    .map((entry) => ({ path: entry.path, score: frecencyScore(entry, now) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ path }) => path);
+}
+
+// Sort projects by frecency, falling back to name for projects without history
+export function rankByFrecency<T extends { path: string; name: string }>(
+  projects: T[],
+  history: ProjectHistoryEntry[],
+  now: number = Date.now(),
+): T[] {
+  const scores = scoreHistory(history, now);
+
+  return [...projects].sort((a, b) => {
+    const aScore = scores.get(pathKey(a.path)) ?? 0;
+    const bScore = scores.get(pathKey(b.path)) ?? 0;
+    if (aScore !== bScore) {
+      return bScore - aScore;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect } from "vitest";
+import {
+  fuzzyMatch,
+  highlightMatches,
+  matchPathSegments,
+  parseQuery,
+  scoreFields,
+  searchItems,
+  type SearchFields,
+} from "./fuzzy";
+
+function fields(overrides: Partial<SearchFields> & { name: string }): SearchFields {
+  return {
+    displayPath: `~/code/${overrides.name}`,
+    path: `/Users/me/code/${overrides.name}`,
+    type: "git",
+    tags: [],
+    isFavorite: false,
+    frecency: 0,
+    ...overrides,
+  };
+}
+
+function names(items: SearchFields[], query: string): string[] {
+  return searchItems(items, query, (item) => item).map(({ item }) => item.name);
+}
+
+describe("parseQuery", () => {
+  it("splits free terms and lowercases them", () => {
+    expect(parseQuery("  Api  SRV ")).toEqual({ terms: ["api", "srv"], types: [], tags: [], paths: [] });
+  });
+
+  it("reads type, tag and path operators", () => {
+    expect(parseQuery("type:Go,cargo tag:#Work path:~/work api")).toEqual({
+      terms: ["api"],
+      types: ["go", "cargo"],
+      tags: ["work"],
+      paths: ["~/work"],
+    });
+  });
+
+  it("treats a bare fav: as favorites only and fav:no as the opposite", () => {
+    expect(parseQuery("fav:").favorite).toBe(true);
+    expect(parseQuery("fav:yes").favorite).toBe(true);
+    expect(parseQuery("fav:no").favorite).toBe(false);
+    expect(parseQuery("api").favorite).toBeUndefined();
+  });
+
+  it("keeps unknown operators and leading colons as terms", () => {
+    expect(parseQuery("foo:bar :x").terms).toEqual(["foo:bar", ":x"]);
+  });
+
+  it("ignores operators without a value", () => {
+    expect(parseQuery("type: path: tag:")).toEqual({ terms: [], types: [], tags: [], paths: [] });
+  });
+});
+
+describe("fuzzyMatch", () => {
+  it("matches subsequences case-insensitively", () => {
+    expect(fuzzyMatch("PJR", "pj-raycast")?.indices).toEqual([0, 1, 3]);
+  });
+
+  it("returns undefined when characters are missing or out of order", () => {
+    expect(fuzzyMatch("rpj", "pj-raycast")).toBeUndefined();
+    expect(fuzzyMatch("pjx", "pj-raycast")).toBeUndefined();
+    expect(fuzzyMatch("toolong", "tool")).toBeUndefined();
+  });
+
+  it("matches everything with an empty pattern", () => {
+    expect(fuzzyMatch("", "anything")).toEqual({ score: 0, indices: [] });
+  });
+
+  it("prefers word starts over earlier letters inside words", () => {
+    // "r" of "raycast" beats the "r" earlier in "parser"
+    expect(fuzzyMatch("pr", "parser-raycast")?.indices).toEqual([0, 7]);
+  });
+
+  it("prefers consecutive runs", () => {
+    expect(fuzzyMatch("abc", "xaxbxcabc")?.indices).toEqual([6, 7, 8]);
+  });
+
+  it("rewards camelCase boundaries", () => {
+    const camel = fuzzyMatch("ws", "webServer");
+    const plain = fuzzyMatch("ws", "webserver");
+    expect(camel?.indices).toEqual([0, 3]);
+    expect(camel!.score).toBeGreaterThan(plain!.score);
+  });
+
+  it("ranks exact, prefix and scattered matches in that order", () => {
+    const exact = fuzzyMatch("api", "api")!.score;
+    const prefix = fuzzyMatch("api", "api-server")!.score;
+    const scattered = fuzzyMatch("api", "a-plugin-index")!.score;
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(scattered);
+  });
+
+  it("penalizes gaps between matched characters", () => {
+    expect(fuzzyMatch("ab", "axb")!.score).toBeGreaterThan(fuzzyMatch("ab", "axxxxxxb")!.score);
+  });
+});
+
+describe("matchPathSegments", () => {
+  it("matches slash-separated terms against path segments in order", () => {
+    expect(matchPathSegments("api/srv", "~/work/api/server")).toBeGreaterThan(0);
+    expect(matchPathSegments("wrk/srv", "~/work/api/server")).toBeGreaterThan(0);
+  });
+
+  it("requires each part to match a later segment", () => {
+    expect(matchPathSegments("srv/api", "~/work/api/server")).toBeUndefined();
+    expect(matchPathSegments("api/api", "~/work/api/server")).toBeUndefined();
+  });
+
+  it("does not let a plain term span segments", () => {
+    expect(matchPathSegments("wa", "~/w/a")).toBeUndefined();
+    expect(matchPathSegments("wor", "~/work/api")).toBeGreaterThan(0);
+  });
+
+  it("ignores empty parts", () => {
+    expect(matchPathSegments("/api/", "~/work/api")).toBeGreaterThan(0);
+    expect(matchPathSegments("/", "~/work/api")).toBeUndefined();
+  });
+
+  it("splits Windows display paths and terms on either separator", () => {
+    expect(matchPathSegments("api/srv", "~\\Work\\api\\server")).toBeGreaterThan(0);
+    expect(matchPathSegments("work\\srv", "~\\Work\\api\\server")).toBeGreaterThan(0);
+    expect(matchPathSegments("srv/api", "~\\Work\\api\\server")).toBeUndefined();
+    expect(matchPathSegments("wa", "~\\w\\a")).toBeUndefined();
+  });
+});
+
+describe("scoreFields", () => {
+  it("requires every term to match some field", () => {
+    const project = fields({ name: "pj-raycast", type: "npm" });
+    expect(scoreFields(project, parseQuery("pjr npm"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("pjr cargo"))).toBeUndefined();
+  });
+
+  it("matches tags by prefix", () => {
+    const project = fields({ name: "billing", tags: ["work", "client-a"] });
+    expect(scoreFields(project, parseQuery("cli"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("ent"))).toBeUndefined();
+  });
+
+  it("reports name positions from all terms", () => {
+    const result = scoreFields(fields({ name: "api-server" }), parseQuery("api srv"));
+    expect(result?.nameIndices).toEqual([0, 1, 2, 4, 6, 7]);
+  });
+
+  it("applies operators before terms", () => {
+    const project = fields({ name: "api", type: "go", tags: ["work"], isFavorite: true });
+    expect(scoreFields(project, parseQuery("type:go"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("type:cargo"))).toBeUndefined();
+    expect(scoreFields(project, parseQuery("type:cargo,go"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("tag:work"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("tag:work tag:home"))).toBeUndefined();
+    expect(scoreFields(project, parseQuery("fav:"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("fav:no"))).toBeUndefined();
+  });
+
+  it("matches path: against the display path or the absolute path by whole segments", () => {
+    const project = fields({ name: "api", displayPath: "~/work/api", path: "/Users/me/work/api" });
+    expect(scoreFields(project, parseQuery("path:~/work"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:~/Work/"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:/Users/me/work"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:~/wo"))).toBeUndefined();
+    expect(scoreFields(project, parseQuery("path:~/play"))).toBeUndefined();
+  });
+
+  it("matches path: on Windows with either separator and any case", () => {
+    const project = fields({ name: "api", displayPath: "~\\Work\\api", path: "C:\\Users\\Me\\Work\\api" });
+    expect(scoreFields(project, parseQuery("path:~/work"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:~\\Work\\"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:c:/users/me/work"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("path:C:\\Users\\Me\\Wo"))).toBeUndefined();
+  });
+
+  it("matches segment terms against Windows display paths", () => {
+    const project = fields({
+      name: "server",
+      displayPath: "~\\Work\\api\\server",
+      path: "C:\\Users\\Me\\Work\\api\\server",
+    });
+    expect(scoreFields(project, parseQuery("api/srv"))).toBeDefined();
+    expect(scoreFields(project, parseQuery("api\\srv"))).toBeDefined();
+  });
+
+  it("boosts favorites and frequently opened projects", () => {
+    const query = parseQuery("api");
+    const base = scoreFields(fields({ name: "api" }), query)!.score;
+    const favorite = scoreFields(fields({ name: "api", isFavorite: true }), query)!.score;
+    const frequent = scoreFields(fields({ name: "api", frecency: 50 }), query)!.score;
+    const veryFrequent = scoreFields(fields({ name: "api", frecency: 1e9 }), query)!.score;
+    expect(favorite).toBeGreaterThan(base);
+    expect(frequent).toBeGreaterThan(base);
+    // The frecency boost is capped so history can't outweigh relevance
+    expect(veryFrequent).toBeCloseTo(base * 1.3);
+  });
+});
+
+describe("searchItems", () => {
+  const projects = [
+    fields({ name: "pj-raycast", type: "npm" }),
+    fields({ name: "api-server", displayPath: "~/work/api/server", type: "go" }),
+    fields({ name: "payments", type: "go", isFavorite: true }),
+    fields({ name: "raycast-extensions", type: "npm" }),
+    fields({ name: "srv", displayPath: "~/play/srv", type: "cargo" }),
+  ];
+
+  it("keeps the input order without free terms", () => {
+    expect(names(projects, "")).toEqual(projects.map((project) => project.name));
+    expect(names(projects, "type:go")).toEqual(["api-server", "payments"]);
+    expect(names(projects, "fav:")).toEqual(["payments"]);
+  });
+
+  it("finds abbreviations", () => {
+    expect(names(projects, "pjr")).toEqual(["pj-raycast"]);
+  });
+
+  it("finds path segment queries", () => {
+    expect(names(projects, "api/srv")).toEqual(["api-server"]);
+  });
+
+  it("ranks a prefix match above a scattered one", () => {
+    expect(names(projects, "ray")[0]).toBe("raycast-extensions");
+  });
+
+  it("ranks name matches above path-only matches", () => {
+    expect(names(projects, "srv")).toEqual(["srv", "api-server"]);
+  });
+
+  it("combines operators and terms", () => {
+    expect(names(projects, "type:npm ray")).toEqual(["raycast-extensions", "pj-raycast"]);
+    expect(names(projects, "type:go pay")).toEqual(["payments"]);
+  });
+
+  it("lets a favorite win a tie", () => {
+    const tied = [fields({ name: "web" }), fields({ name: "web", isFavorite: true, displayPath: "~/other/web" })];
+    expect(searchItems(tied, "web", (item) => item)[0].item.isFavorite).toBe(true);
+  });
+
+  it("returns nothing when no project matches", () => {
+    expect(names(projects, "zzz")).toEqual([]);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("brackets runs of matched characters", () => {
+    expect(highlightMatches("pj-raycast", [0, 1, 3])).toBe("[pj]-[r]aycast");
+  });
+
+  it("leaves text without matches unchanged", () => {
+    expect(highlightMatches("api", [])).toBe("api");
+  });
+});
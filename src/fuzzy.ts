@@ -0,0 +1,285 @@
+import { detectPathFlavor, pathKey, pathModule, splitAnySeparator } from "./paths";
+
+// Fuzzy project search: query operators, subsequence matching with boundary bonuses, and ranking
+// across name, display path segments, type and tags, boosted by favorites and frecency
+
+export interface ParsedQuery {
+  // Free-text terms; every term must match
+  terms: string[];
+  // type:go or type:go,cargo
+  types: string[];
+  // tag:work
+  tags: string[];
+  // path:~/work, matched as a prefix of the display or absolute path
+  paths: string[];
+  // fav: / fav:yes keeps favorites only, fav:no hides them
+  favorite?: boolean;
+}
+
+export interface FuzzyMatch {
+  score: number;
+  // Matched character positions in the text
+  indices: number[];
+}
+
+export interface SearchFields {
+  name: string;
+  // Path with the home directory shown as ~
+  displayPath: string;
+  path: string;
+  type: string;
+  tags: string[];
+  isFavorite: boolean;
+  // Frecency score, 0 for projects never opened
+  frecency: number;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  // Matched positions in the name, for highlighting
+  nameIndices: number[];
+}
+
+const SCORE_MATCH = 16;
+const BONUS_START = 12;
+const BONUS_BOUNDARY = 10;
+const BONUS_CAMEL = 8;
+const BONUS_CONSECUTIVE = 8;
+const PENALTY_GAP = 1;
+const BONUS_EXACT = 40;
+const BONUS_PREFIX = 20;
+
+// Weight of each field relative to the name
+const PATH_WEIGHT = 0.6;
+const TYPE_WEIGHT = 0.8;
+const TAG_WEIGHT = 0.8;
+
+const FAVORITE_BOOST = 0.2;
+const MAX_FRECENCY_BOOST = 0.3;
+
+const OPERATORS = new Set(["type", "tag", "path", "fav"]);
+const SEPARATORS = new Set(["/", "\\", "-", "_", ".", " ", "@", ":"]);
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], types: [], tags: [], paths: [] };
+
+  for (const token of query.trim().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(":");
+    const operator = separator > 0 ? token.slice(0, separator).toLowerCase() : "";
+    if (!OPERATORS.has(operator)) {
+      parsed.terms.push(token.toLowerCase());
+      continue;
+    }
+
+    const value = token.slice(separator + 1);
+    const values = value
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean);
+    switch (operator) {
+      case "type":
+        parsed.types.push(...values.map((part) => part.toLowerCase()));
+        break;
+      case "tag":
+        parsed.tags.push(...values.map((part) => part.toLowerCase().replace(/^#/, "")));
+        break;
+      case "path":
+        if (value) parsed.paths.push(value);
+        break;
+      case "fav":
+        parsed.favorite = !/^(no|false|0|n)$/i.test(value);
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+function boundaryBonus(text: string, index: number): number {
+  if (index === 0) return BONUS_START;
+  const previous = text[index - 1];
+  if (SEPARATORS.has(previous)) return BONUS_BOUNDARY;
+  const current = text[index];
+  if (previous === previous.toLowerCase() && current !== current.toLowerCase() && /[a-z]/i.test(current)) {
+    return BONUS_CAMEL;
+  }
+  return 0;
+}
+
+// Best subsequence match of the pattern in the text, favoring word starts and consecutive runs
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | undefined {
+  const needle = pattern.toLowerCase();
+  const haystack = text.toLowerCase();
+  const n = needle.length;
+  const m = haystack.length;
+  if (n === 0) return { score: 0, indices: [] };
+  if (n > m) return undefined;
+
+  // score[i][j]: best score with needle[i] matched at haystack[j]; from[i][j]: position of needle[i - 1]
+  const score: number[][] = Array.from({ length: n }, () => new Array<number>(m).fill(-Infinity));
+  const from: number[][] = Array.from({ length: n }, () => new Array<number>(m).fill(-1));
+
+  for (let j = 0; j < m; j++) {
+    if (haystack[j] === needle[0]) {
+      score[0][j] = SCORE_MATCH + boundaryBonus(text, j) - Math.min(j, 10) * 0.5;
+    }
+  }
+
+  for (let i = 1; i < n; i++) {
+    // Running best of score[i - 1][k] + k * PENALTY_GAP over k < j - 1, for gapped transitions
+    let bestGapped = -Infinity;
+    let bestGappedFrom = -1;
+    for (let j = i; j < m; j++) {
+      const k = j - 2;
+      if (k >= 0 && score[i - 1][k] + k * PENALTY_GAP > bestGapped) {
+        bestGapped = score[i - 1][k] + k * PENALTY_GAP;
+        bestGappedFrom = k;
+      }
+      if (haystack[j] !== needle[i]) continue;
+
+      const bonus = SCORE_MATCH + boundaryBonus(text, j);
+      const consecutive = score[i - 1][j - 1] + bonus + BONUS_CONSECUTIVE;
+      const gapped = bestGapped - (j - 1) * PENALTY_GAP + bonus;
+      if (consecutive >= gapped && consecutive > -Infinity) {
+        score[i][j] = consecutive;
+        from[i][j] = j - 1;
+      } else if (gapped > -Infinity) {
+        score[i][j] = gapped;
+        from[i][j] = bestGappedFrom;
+      }
+    }
+  }
+
+  let end = -1;
+  for (let j = 0; j < m; j++) {
+    if (score[n - 1][j] > (end === -1 ? -Infinity : score[n - 1][end])) end = j;
+  }
+  if (end === -1) return undefined;
+
+  const indices = new Array<number>(n);
+  for (let i = n - 1, j = end; i >= 0; i--) {
+    indices[i] = j;
+    j = from[i][j];
+  }
+
+  let total = score[n - 1][end];
+  if (haystack === needle) total += BONUS_EXACT;
+  else if (haystack.startsWith(needle)) total += BONUS_PREFIX;
+  return { score: total, indices };
+}
+
+// Match "api/srv" style terms against path segments in order; plain terms match the best single segment.
+// Terms and paths may use either separator.
+export function matchPathSegments(term: string, displayPath: string): number | undefined {
+  const segments = splitAnySeparator(displayPath);
+  const parts = splitAnySeparator(term);
+  if (parts.length === 0) return undefined;
+
+  if (parts.length === 1) {
+    const scores = segments.map((segment) => fuzzyMatch(parts[0], segment)?.score ?? -Infinity);
+    const best = Math.max(-Infinity, ...scores);
+    return best > -Infinity ? best : undefined;
+  }
+
+  // Each part must match a later segment than the previous part; greedy from the left
+  let total = 0;
+  let start = 0;
+  for (const part of parts) {
+    let matched = false;
+    for (let s = start; s < segments.length; s++) {
+      const match = fuzzyMatch(part, segments[s]);
+      if (match) {
+        total += match.score;
+        start = s + 1;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) return undefined;
+  }
+  return total;
+}
+
+// path: values written with ~ match the display path, absolute values the real path. Paths compare
+// by path key in the project's flavor, ignoring case.
+function pathMatchesPrefix(fields: SearchFields, prefix: string): boolean {
+  const flavor = detectPathFlavor(fields.path);
+  const key = (path: string) => pathKey(path, flavor).toLowerCase();
+  const sep = pathModule(flavor).sep;
+  const wanted = key(prefix);
+  const below = wanted.endsWith(sep) ? wanted : wanted + sep;
+  return [fields.displayPath, fields.path].some((path) => key(path) === wanted || key(path).startsWith(below));
+}
+
+function passesOperators(fields: SearchFields, query: ParsedQuery): boolean {
+  if (query.types.length > 0 && !query.types.includes(fields.type.toLowerCase())) return false;
+  if (query.tags.length > 0 && !query.tags.every((tag) => fields.tags.includes(tag))) return false;
+  if (query.paths.length > 0 && !query.paths.some((prefix) => pathMatchesPrefix(fields, prefix))) return false;
+  if (query.favorite !== undefined && fields.isFavorite !== query.favorite) return false;
+  return true;
+}
+
+// Best score of a single term over all fields, or undefined when no field matches
+function scoreTerm(term: string, fields: SearchFields): { score: number; nameIndices: number[] } | undefined {
+  const name = /[\\/]/.test(term) ? undefined : fuzzyMatch(term, fields.name);
+  const path = matchPathSegments(term, fields.displayPath);
+  const type = fields.type.toLowerCase().startsWith(term) ? fuzzyMatch(term, fields.type) : undefined;
+  const tag = fields.tags.some((value) => value.startsWith(term))
+    ? SCORE_MATCH * term.length + BONUS_PREFIX
+    : undefined;
+
+  const candidates = [
+    name ? name.score : undefined,
+    path !== undefined ? path * PATH_WEIGHT : undefined,
+    type ? type.score * TYPE_WEIGHT : undefined,
+    tag !== undefined ? tag * TAG_WEIGHT : undefined,
+  ].filter((score): score is number => score !== undefined);
+  if (candidates.length === 0) return undefined;
+
+  return { score: Math.max(...candidates), nameIndices: name?.indices ?? [] };
+}
+
+// Relevance of a project for the query, or undefined when it doesn't match
+export function scoreFields(fields: SearchFields, query: ParsedQuery): Omit<SearchResult<never>, "item"> | undefined {
+  if (!passesOperators(fields, query)) return undefined;
+
+  let score = 0;
+  const nameIndices = new Set<number>();
+  for (const term of query.terms) {
+    const result = scoreTerm(term, fields);
+    if (!result) return undefined;
+    score += result.score;
+    result.nameIndices.forEach((index) => nameIndices.add(index));
+  }
+
+  const boost =
+    1 + (fields.isFavorite ? FAVORITE_BOOST : 0) + Math.min(MAX_FRECENCY_BOOST, Math.log1p(fields.frecency) * 0.1);
+  return { score: score * boost, nameIndices: Array.from(nameIndices).sort((a, b) => a - b) };
+}
+
+// Filter and rank items for a query. Without free-text terms the input order is kept.
+export function searchItems<T>(items: T[], query: string, getFields: (item: T) => SearchFields): SearchResult<T>[] {
+  const parsed = parseQuery(query);
+  const results: SearchResult<T>[] = [];
+  for (const item of items) {
+    const result = scoreFields(getFields(item), parsed);
+    if (result) results.push({ item, ...result });
+  }
+
+  if (parsed.terms.length === 0) return results;
+  // Array.prototype.sort is stable, so ties keep the input order
+  return results.sort((a, b) => b.score - a.score);
+}
+
+// Wrap matched runs of characters in brackets, e.g. "[pj]-[r]aycast"
+export function highlightMatches(text: string, indices: number[]): string {
+  const matched = new Set(indices);
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    if (matched.has(i) && !matched.has(i - 1)) result += "[";
+    result += text[i];
+    if (matched.has(i) && !matched.has(i + 1)) result += "]";
+  }
+  return result;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareByDate,
+  hasUnpushedCommits,
+  isOffDefaultBranch,
+  lastCommitTime,
+  matchesGitFilter,
+  remoteOwnerKey,
+} from "./git-filters";
+import type { GitInfo } from "./types";
+
+function info(overrides: Partial<GitInfo> = {}): GitInfo {
+  return {
+    branch: "main",
+    detached: false,
+    upstream: "origin/main",
+    ahead: 0,
+    behind: 0,
+    dirty: 0,
+    remote: { host: "github.com", owner: "our-org", repo: "api" },
+    lastCommit: { subject: "Initial commit", author: "Jane", date: "2026-01-01T00:00:00Z" },
+    ...overrides,
+  };
+}
+
+describe("matchesGitFilter", () => {
+  it("matches dirty working trees", () => {
+    expect(matchesGitFilter(info({ dirty: 2 }), "dirty")).toBe(true);
+    expect(matchesGitFilter(info(), "dirty")).toBe(false);
+  });
+
+  it("never matches projects without git info", () => {
+    expect(matchesGitFilter(undefined, "dirty")).toBe(false);
+    expect(matchesGitFilter(undefined, "off-default")).toBe(false);
+  });
+});
+
+describe("hasUnpushedCommits", () => {
+  it("is true when ahead of upstream", () => {
+    expect(hasUnpushedCommits(info({ ahead: 1 }))).toBe(true);
+  });
+
+  it("is true for a branch that was never pushed", () => {
+    expect(hasUnpushedCommits(info({ upstream: undefined, branch: "feature" }))).toBe(true);
+  });
+
+  it("is false for local-only repositories", () => {
+    expect(hasUnpushedCommits(info({ upstream: undefined, remote: undefined }))).toBe(false);
+  });
+
+  it("is false when up to date", () => {
+    expect(hasUnpushedCommits(info({ behind: 3 }))).toBe(false);
+  });
+});
+
+describe("isOffDefaultBranch", () => {
+  it("compares against the advertised default branch", () => {
+    expect(isOffDefaultBranch(info({ branch: "develop", defaultBranch: "develop" }))).toBe(false);
+    expect(isOffDefaultBranch(info({ branch: "main", defaultBranch: "develop" }))).toBe(true);
+  });
+
+  it("falls back to main and master", () => {
+    expect(isOffDefaultBranch(info({ branch: "master" }))).toBe(false);
+    expect(isOffDefaultBranch(info({ branch: "feature/x" }))).toBe(true);
+  });
+
+  it("treats a detached HEAD as off the default branch", () => {
+    expect(isOffDefaultBranch(info({ branch: undefined, detached: true }))).toBe(true);
+  });
+});
+
+describe("remoteOwnerKey", () => {
+  it("joins host and owner", () => {
+    expect(remoteOwnerKey(info())).toBe("github.com/our-org");
+  });
+
+  it("is undefined without a remote", () => {
+    expect(remoteOwnerKey(info({ remote: undefined }))).toBeUndefined();
+    expect(remoteOwnerKey(undefined)).toBeUndefined();
+  });
+});
+
+describe("lastCommitTime", () => {
+  it("parses the commit date", () => {
+    expect(lastCommitTime(info())).toBe(Date.parse("2026-01-01T00:00:00Z"));
+  });
+
+  it("ignores invalid dates", () => {
+    expect(lastCommitTime(info({ lastCommit: { subject: "x", author: "y", date: "garbage" } }))).toBeUndefined();
+  });
+});
+
+describe("compareByDate", () => {
+  it("sorts newest first, undated last, then by name", () => {
+    const items = [
+      { name: "c", time: undefined },
+      { name: "a", time: 100 },
+      { name: "b", time: undefined },
+      { name: "d", time: 200 },
+    ];
+    const sorted = [...items].sort(compareByDate((item) => item.time));
+    expect(sorted.map((item) => item.name)).toEqual(["d", "a", "b", "c"]);
+  });
+});
@@ -0,0 +1,65 @@
+import type { GitInfo } from "./types";
+
+// Branches treated as the default when origin doesn't advertise one
+const FALLBACK_DEFAULT_BRANCHES = ["main", "master"];
+
+export type GitFilter = "dirty" | "unpushed" | "off-default";
+
+export const GIT_FILTER_TITLES: Record<GitFilter, string> = {
+  dirty: "Uncommitted Changes",
+  unpushed: "Unpushed Commits",
+  "off-default": "Not on Default Branch",
+};
+
+export function hasUncommittedChanges(info: GitInfo): boolean {
+  return info.dirty > 0;
+}
+
+// Ahead of upstream, or a branch that has never been pushed to a configured remote
+export function hasUnpushedCommits(info: GitInfo): boolean {
+  if (info.ahead > 0) return true;
+  return !info.upstream && !info.detached && Boolean(info.remote) && Boolean(info.lastCommit);
+}
+
+export function isOffDefaultBranch(info: GitInfo): boolean {
+  if (info.detached) return true;
+  if (!info.branch) return false;
+  if (info.defaultBranch) return info.branch !== info.defaultBranch;
+  return !FALLBACK_DEFAULT_BRANCHES.includes(info.branch);
+}
+
+export function matchesGitFilter(info: GitInfo | undefined, filter: GitFilter): boolean {
+  if (!info) return false;
+  switch (filter) {
+    case "dirty":
+      return hasUncommittedChanges(info);
+    case "unpushed":
+      return hasUnpushedCommits(info);
+    case "off-default":
+      return isOffDefaultBranch(info);
+  }
+}
+
+// Remote host and owner, e.g. "github.com/our-org"
+export function remoteOwnerKey(info: GitInfo | undefined): string | undefined {
+  return info?.remote ? `${info.remote.host}/${info.remote.owner}` : undefined;
+}
+
+// Timestamp of the last commit, if known
+export function lastCommitTime(info: GitInfo | undefined): number | undefined {
+  if (!info?.lastCommit) return undefined;
+  const time = new Date(info.lastCommit.date).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Newest first; projects without a date sort after dated ones, then by name
+export function compareByDate<T extends { name: string }>(getTime: (item: T) => number | undefined) {
+  return (a: T, b: T): number => {
+    const aTime = getTime(a);
+    const bTime = getTime(b);
+    if (aTime !== undefined && bTime !== undefined && aTime !== bTime) return bTime - aTime;
+    if (aTime !== undefined && bTime === undefined) return -1;
+    if (aTime === undefined && bTime !== undefined) return 1;
+    return a.name.localeCompare(b.name);
+  };
+}
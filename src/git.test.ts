@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { parseLastCommit, parseRemoteUrl, parseStatusPorcelain } from "./git";
+
+describe("parseStatusPorcelain", () => {
+  it("parses branch, upstream and ahead/behind counts", () => {
+    const output = [
+      "# branch.oid 1234567890abcdef",
+      "# branch.head main",
+      "# branch.upstream origin/main",
+      "# branch.ab +2 -3",
+      "",
+    ].join("\n");
+
+    expect(parseStatusPorcelain(output)).toEqual({
+      branch: "main",
+      upstream: "origin/main",
+      detached: false,
+      ahead: 2,
+      behind: 3,
+      dirty: 0,
+    });
+  });
+
+  it("counts changed, renamed, unmerged and untracked entries", () => {
+    const output = [
+      "# branch.oid 1234567890abcdef",
+      "# branch.head feature/x",
+      "1 .M N... 100644 100644 100644 abc def src/index.ts",
+      "2 R. N... 100644 100644 100644 abc def R100 new.ts\told.ts",
+      "u UU N... 100644 100644 100644 100644 abc def ghi conflict.ts",
+      "? notes.md",
+    ].join("\n");
+
+    const status = parseStatusPorcelain(output);
+    expect(status.branch).toBe("feature/x");
+    expect(status.dirty).toBe(4);
+    expect(status.upstream).toBeUndefined();
+  });
+
+  it("detects a detached HEAD", () => {
+    const status = parseStatusPorcelain("# branch.oid abc\n# branch.head (detached)\n");
+    expect(status.detached).toBe(true);
+    expect(status.branch).toBeUndefined();
+  });
+});
+
+describe("parseLastCommit", () => {
+  it("splits subject, author and date", () => {
+    expect(parseLastCommit("Fix the thing\x1fJane Doe\x1f2026-01-31T10:00:00+01:00\n")).toEqual({
+      subject: "Fix the thing",
+      author: "Jane Doe",
+      date: "2026-01-31T10:00:00+01:00",
+    });
+  });
+
+  it("returns undefined for empty output", () => {
+    expect(parseLastCommit("")).toBeUndefined();
+  });
+});
+
+describe("parseRemoteUrl", () => {
+  it("parses scp-like ssh remotes", () => {
+    expect(parseRemoteUrl("git@github.com:our-org/payments.git\n")).toEqual({
+      host: "github.com",
+      owner: "our-org",
+      repo: "payments",
+    });
+  });
+
+  it("parses https remotes", () => {
+    expect(parseRemoteUrl("https://github.com/our-org/payments")).toEqual({
+      host: "github.com",
+      owner: "our-org",
+      repo: "payments",
+    });
+  });
+
+  it("parses ssh:// remotes with a port", () => {
+    expect(parseRemoteUrl("ssh://git@git.example.com:2222/team/api.git")).toEqual({
+      host: "git.example.com",
+      owner: "team",
+      repo: "api",
+    });
+  });
+
+  it("keeps nested groups in the owner", () => {
+    expect(parseRemoteUrl("https://gitlab.com/group/subgroup/project.git")?.owner).toBe("group/subgroup");
+  });
+
+  it("lowercases the host", () => {
+    expect(parseRemoteUrl("git@GitHub.com:Org/Repo.git")?.host).toBe("github.com");
+  });
+
+  it("rejects URLs without an owner and repo", () => {
+    expect(parseRemoteUrl("https://example.com/")).toBeUndefined();
+    expect(parseRemoteUrl("not a url")).toBeUndefined();
+  });
+});
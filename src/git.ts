@@ -0,0 +1,134 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { GitCommit, GitInfo, GitRemote, GitStatus } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+const FIELD_SEPARATOR = "\x1f";
+
+// Run git in a project directory, returning stdout or undefined when git fails
+export async function runGit(cwd: string, args: string[]): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, timeout: 10000, maxBuffer: 4 * 1024 * 1024 });
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+// Parse `git status --porcelain=v2 --branch` output
+export function parseStatusPorcelain(output: string): Omit<GitStatus, "lastCommit"> {
+  const status: Omit<GitStatus, "lastCommit"> = { detached: false, ahead: 0, behind: 0, dirty: 0 };
+
+  for (const line of output.split("\n")) {
+    if (!line) continue;
+
+    if (line.startsWith("# branch.head ")) {
+      const head = line.slice("# branch.head ".length);
+      if (head === "(detached)") {
+        status.detached = true;
+      } else {
+        status.branch = head;
+      }
+    } else if (line.startsWith("# branch.upstream ")) {
+      status.upstream = line.slice("# branch.upstream ".length);
+    } else if (line.startsWith("# branch.ab ")) {
+      const match = line.match(/\+(\d+) -(\d+)/);
+      if (match) {
+        status.ahead = Number(match[1]);
+        status.behind = Number(match[2]);
+      }
+    } else if (!line.startsWith("#")) {
+      status.dirty += 1;
+    }
+  }
+
+  return status;
+}
+
+// Parse `git log -1` output produced with LAST_COMMIT_FORMAT
+export function parseLastCommit(output: string): GitCommit | undefined {
+  const [subject, author, date] = output.trim().split(FIELD_SEPARATOR);
+  if (!subject || !date) {
+    return undefined;
+  }
+  return { subject, author: author ?? "", date };
+}
+
+const LAST_COMMIT_FORMAT = ["%s", "%an", "%cI"].join("%x1f");
+
+export async function getLastCommit(path: string): Promise<GitCommit | undefined> {
+  const output = await runGit(path, ["log", "-1", `--format=${LAST_COMMIT_FORMAT}`]);
+  return output ? parseLastCommit(output) : undefined;
+}
+
+// Branch, ahead/behind, dirty count and last commit, or undefined outside a git work tree
+export async function getGitStatus(path: string): Promise<GitStatus | undefined> {
+  const [statusOutput, lastCommit] = await Promise.all([
+    runGit(path, ["status", "--porcelain=v2", "--branch"]),
+    getLastCommit(path),
+  ]);
+  if (statusOutput === undefined) {
+    return undefined;
+  }
+  return { ...parseStatusPorcelain(statusOutput), lastCommit };
+}
+
+// Parse a remote URL (https, ssh:// or scp-like git@host:owner/repo) into host, owner and repo
+export function parseRemoteUrl(url: string): GitRemote | undefined {
+  const trimmed = url.trim();
+  let host: string;
+  let path: string;
+
+  const scpLike = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.+)$/);
+  if (scpLike && !trimmed.includes("://")) {
+    host = scpLike[1];
+    path = scpLike[2];
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = parsed.pathname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const segments = path
+    .replace(/\.git\/?$/, "")
+    .split("/")
+    .filter(Boolean);
+  if (!host || segments.length < 2) {
+    return undefined;
+  }
+  return {
+    host: host.toLowerCase(),
+    owner: segments.slice(0, -1).join("/"),
+    repo: segments[segments.length - 1],
+  };
+}
+
+// Default branch as advertised by origin, e.g. "main"
+export async function getDefaultBranch(path: string): Promise<string | undefined> {
+  const output = await runGit(path, ["symbolic-ref", "--short", "refs/remotes/origin/HEAD"]);
+  const ref = output?.trim();
+  return ref ? ref.replace(/^origin\//, "") : undefined;
+}
+
+export async function getRemote(path: string): Promise<GitRemote | undefined> {
+  const output = await runGit(path, ["remote", "get-url", "origin"]);
+  return output ? parseRemoteUrl(output) : undefined;
+}
+
+// Status plus remote and default branch, used for filtering and sorting
+export async function getGitInfo(path: string): Promise<GitInfo | undefined> {
+  const [status, remote, defaultBranch] = await Promise.all([
+    getGitStatus(path),
+    getRemote(path),
+    getDefaultBranch(path),
+  ]);
+  if (!status) {
+    return undefined;
+  }
+  return { ...status, remote, defaultBranch };
+}
@@ -0,0 +1,120 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Detail,
+  Form,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { access, readFile } from "fs/promises";
+import { homedir } from "os";
+import { applyImport, findMissingPaths, parseExportDocument, type ImportMode } from "./data-transfer";
+import type { StoredData } from "./types";
+import { formatDisplayPath, readStoredData, writeStoredData } from "./utils";
+
+interface ImportFormValues {
+  file: string[];
+  mode: ImportMode;
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function ImportSummary({ imported, mode, missing }: { imported: StoredData; mode: ImportMode; missing: string[] }) {
+  const lines = [
+    `# ${mode === "replace" ? "Replaced" : "Merged"} PJ Data`,
+    "",
+    `- ${imported.favorites.length} favorites`,
+    `- ${imported.recentProjects.length} recent projects`,
+    `- ${Object.keys(imported.tags).length} tagged projects`,
+  ];
+  if (missing.length > 0) {
+    lines.push(
+      "",
+      `## ${missing.length} ${missing.length === 1 ? "path does" : "paths do"} not exist on this machine`,
+      "",
+      "They were imported anyway. After the next project scan, a toast offers to remove them (or relink moved projects); ignore it to keep them until the projects are cloned to the same location.",
+      "",
+      ...missing.map((path) => `- \`${formatDisplayPath(path)}\``),
+    );
+  }
+
+  return (
+    <Detail
+      markdown={lines.join("\n")}
+      actions={
+        missing.length > 0 ? (
+          <ActionPanel>
+            <Action.CopyToClipboard title="Copy Missing Paths" content={missing.join("\n")} />
+          </ActionPanel>
+        ) : undefined
+      }
+    />
+  );
+}
+
+export default function ImportData() {
+  const { push } = useNavigation();
+
+  async function handleSubmit(values: ImportFormValues) {
+    const file = values.file[0];
+    if (!file) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a file to import" });
+      return;
+    }
+
+    if (
+      values.mode === "replace" &&
+      !(await confirmAlert({
+        title: "Replace PJ Data?",
+        message: "Your current favorites, recent projects, tags and project sets will be overwritten.",
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      }))
+    ) {
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Importing PJ data" });
+    try {
+      const imported = parseExportDocument(await readFile(file, "utf8"), homedir());
+      const missing = await findMissingPaths(imported, pathExists);
+      await writeStoredData(applyImport(await readStoredData(), imported, values.mode));
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Imported PJ data";
+      toast.message = missing.length > 0 ? `${missing.length} paths not found on this machine` : undefined;
+      push(<ImportSummary imported={imported} mode={values.mode} missing={missing} />);
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to import PJ data";
+      toast.message = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Load favorites, recent projects, tags and project sets from a file created by Export PJ Data." />
+      <Form.FilePicker id="file" title="Export File" allowMultipleSelection={false} canChooseDirectories={false} />
+      <Form.Dropdown id="mode" title="Mode" defaultValue="merge">
+        <Form.Dropdown.Item value="merge" title="Merge with current data" />
+        <Form.Dropdown.Item value="replace" title="Replace current data" />
+      </Form.Dropdown>
+    </Form>
+  );
+}
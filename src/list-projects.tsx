@@ -1,126 +1,125 @@
-import {
-  ActionPanel,
-  Action,
-  List,
-  Icon,
-  showToast,
-  Toast,
-  getPreferenceValues,
-  open,
-  Application,
-  getApplications,
-} from "@raycast/api";
-import { discover, getBinaryManager } from "@joe-sh/pj";
-import { useState, useEffect } from "react";
-import type { Project, Preferences } from "./types";
+import { List, Icon, getPreferenceValues } from "@raycast/api";
+import { useState, useEffect, useMemo } from "react";
+import type { ListProjectsPreferences, ProjectHistoryEntry } from "./types";
 import {
   getProjectIcon,
   formatDisplayPath,
-  formatProjectType,
-  getFavorites,
+  formatMatchTitle,
+  formatTagAccessories,
+  getStoredData,
   toggleFavorite,
-  addToRecentProjects,
 } from "./utils";
+import { formatProjectType } from "./markers";
+import { getAllTags } from "./stored-data";
+import { rankByFrecency } from "./frecency";
+import { includesPath, pathKey } from "./paths";
+import { useCachedState } from "@raycast/utils";
+import { ProjectDetail } from "./project-detail";
+import { ProjectActions } from "./project-actions";
+import { useApplications } from "./use-applications";
+import { useEditorRules } from "./use-editor-rules";
+import { useCustomActions } from "./use-custom-actions";
+import { useProjects } from "./use-projects";
+import { useProjectSearch } from "./use-project-search";
+import { useMarkedProjects } from "./use-marked-projects";
+import { SelectionActions } from "./selection-actions";
+import { DiscoveryErrorView, NoProjectsView } from "./discovery-views";
 
 export default function Command() {
-  const preferences = getPreferenceValues<Preferences>();
-
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const preferences = getPreferenceValues<ListProjectsPreferences>();
+
+  const {
+    projects: discoveredProjects,
+    binary,
+    error,
+    isLoading,
+    revalidate,
+    refresh,
+  } = useProjects({
+    onStoredDataChange: () => loadStoredData(),
+  });
   const [favorites, setFavorites] = useState<string[]>([]);
-  const [terminalApp, setTerminalApp] = useState<Application | undefined>();
-  const [editorApp, setEditorApp] = useState<Application | undefined>();
-
-  // Load projects using @joe-sh/pj API
-  async function loadProjects() {
-    try {
-      setIsLoading(true);
-
-      // Ensure binary is installed
-      await getBinaryManager().getBinaryPath();
-
-      // Discover projects
-      const discoveredProjects = await discover({ icons: true });
-
-      // Load favorites
-      const storedFavorites = await getFavorites();
-      setFavorites(storedFavorites);
-
-      // Sort projects: favorites first, then alphabetically
-      const sortedProjects = [...discoveredProjects].sort((a, b) => {
-        const aIsFavorite = storedFavorites.includes(a.path);
-        const bIsFavorite = storedFavorites.includes(b.path);
-
-        if (aIsFavorite && !bIsFavorite) return -1;
-        if (!aIsFavorite && bIsFavorite) return 1;
+  const [history, setHistory] = useState<ProjectHistoryEntry[]>([]);
+  const [tags, setTags] = useState<Record<string, string[]>>({});
+  const [sets, setSets] = useState<Record<string, string[]>>({});
+  const [startupCommands, setStartupCommands] = useState<Record<string, string>>({});
+  const [editorOverrides, setEditorOverrides] = useState<Record<string, string>>({});
+  const [isShowingDetail, setIsShowingDetail] = useCachedState<boolean>("show-project-detail", false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+  const customActions = useCustomActions();
+
+  async function loadStoredData() {
+    const data = await getStoredData();
+    setFavorites(data.favorites);
+    setTags(data.tags);
+    setSets(data.sets);
+    setStartupCommands(data.commands);
+    setEditorOverrides(data.editors);
+    setHistory(data.recentProjects);
+  }
 
-        return a.name.localeCompare(b.name);
-      });
+  // Sort projects: favorites first, then alphabetically or by frecency
+  const projects = useMemo(() => {
+    const ordered =
+      preferences.sortOrder === "frecency"
+        ? rankByFrecency(discoveredProjects, history)
+        : [...discoveredProjects].sort((a, b) => a.name.localeCompare(b.name));
 
-      setProjects(sortedProjects);
-    } catch (error) {
-      console.error("Failed to load projects:", error);
-      await showToast({
-        style: Toast.Style.Failure,
-        title: "Failed to load projects",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-      setProjects([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }
+    // Stable sort keeps the secondary order within favorites and non-favorites
+    return ordered.sort((a, b) => {
+      const aIsFavorite = includesPath(favorites, a.path);
+      const bIsFavorite = includesPath(favorites, b.path);
 
-  // Find the configured terminal and editor applications
-  useEffect(() => {
-    async function findApps() {
-      const apps = await getApplications();
+      if (aIsFavorite && !bIsFavorite) return -1;
+      if (!aIsFavorite && bIsFavorite) return 1;
 
-      // Find terminal app
-      const terminalName = preferences.terminalApp || "Terminal";
-      const terminal = apps.find(
-        (app) =>
-          app.name.toLowerCase() === terminalName.toLowerCase() ||
-          app.name.toLowerCase().includes(terminalName.toLowerCase()),
-      );
-      setTerminalApp(terminal);
+      return 0;
+    });
+  }, [discoveredProjects, favorites, history, preferences.sortOrder]);
 
-      // Find editor app
-      const editorName = preferences.editorApp || "Visual Studio Code";
-      const editor = apps.find(
-        (app) =>
-          app.name.toLowerCase() === editorName.toLowerCase() ||
-          app.name.toLowerCase().includes(editorName.toLowerCase()),
-      );
-      setEditorApp(editor);
-    }
-    findApps();
-  }, [preferences.terminalApp, preferences.editorApp]);
+  const allTags = useMemo(() => getAllTags(tags), [tags]);
+  const { searchText, setSearchText, results } = useProjectSearch(projects, { favorites, history, tags });
+  const { markedProjects, isMarked, toggleMarked, clearMarked } = useMarkedProjects(discoveredProjects);
 
-  // Load projects on mount
+  // Load favorites, tags and history on mount
   useEffect(() => {
-    loadProjects();
+    loadStoredData();
   }, []);
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search projects...">
-      {projects.length === 0 && !isLoading ? (
-        <List.EmptyView
-          icon={Icon.Folder}
-          title="No Projects Found"
-          description="Make sure pj is installed and configured correctly."
-        />
+    <List
+      isLoading={isLoading}
+      isShowingDetail={isShowingDetail}
+      searchBarPlaceholder="Search projects, or filter with type:, tag:, path:, fav:"
+      navigationTitle={markedProjects.length > 0 ? `List Projects (${markedProjects.length} Selected)` : undefined}
+      filtering={false}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedPath}
+    >
+      {error && !isLoading && projects.length === 0 ? (
+        <DiscoveryErrorView error={error} onRetry={revalidate} />
+      ) : projects.length === 0 && !isLoading ? (
+        <NoProjectsView binary={binary} onRetry={refresh} />
       ) : (
-        projects.map((project, index) => {
-          const isFavorite = favorites.includes(project.path);
+        results.map(({ item: project, nameIndices }, index) => {
+          const isFavorite = includesPath(favorites, project.path);
           return (
             <List.Item
               key={`${project.path}-${index}`}
+              id={project.path}
               icon={getProjectIcon(project)}
-              title={project.name}
-              subtitle={formatDisplayPath(project.path)}
+              title={formatMatchTitle(project.name, nameIndices)}
+              subtitle={isShowingDetail ? undefined : formatDisplayPath(project.path)}
+              detail={
+                isShowingDetail && selectedPath === project.path ? <ProjectDetail project={project} /> : undefined
+              }
               accessories={[
+                isMarked(project.path) ? { icon: Icon.CheckCircle, tooltip: "Selected" } : null,
                 isFavorite ? { icon: Icon.Star, tooltip: "Favorite" } : null,
+                ...formatTagAccessories(tags[pathKey(project.path)]),
                 { tag: formatProjectType(project.marker) },
                 { icon: Icon.Folder, tooltip: project.path },
               ].filter(Boolean)}
@@ -128,14 +127,54 @@ export default function Command() {
                 <ProjectActions
                   project={project}
                   isFavorite={isFavorite}
+                  tags={tags[pathKey(project.path)]}
+                  allTags={allTags}
+                  isShowingDetail={isShowingDetail}
+                  isSelected={selectedPath === project.path}
+                  isMarked={isMarked(project.path)}
+                  onToggleMarked={() => toggleMarked(project.path)}
+                  selectionActions={
+                    markedProjects.length > 0 && (
+                      <SelectionActions
+                        projects={markedProjects}
+                        terminal={{
+                          terminalName: preferences.terminalApp || "Terminal",
+                          terminalApp,
+                          mode: preferences.terminalMode ?? "window",
+                          commands: startupCommands,
+                        }}
+                        editorApp={editorApp}
+                        applications={applications}
+                        editorRules={editorRules}
+                        editorOverrides={editorOverrides}
+                        favorites={favorites}
+                        onFavoritesChange={loadStoredData}
+                        onDone={clearMarked}
+                      />
+                    )
+                  }
                   preferences={preferences}
                   terminalApp={terminalApp}
                   editorApp={editorApp}
-                  onRefresh={loadProjects}
+                  applications={applications}
+                  editorRules={editorRules}
+                  editorOverride={editorOverrides[pathKey(project.path)]}
+                  customActions={customActions}
+                  onRefresh={async () => {
+                    await loadStoredData();
+                    await refresh();
+                  }}
                   onToggleFavorite={async () => {
                     await toggleFavorite(project.path);
-                    await loadProjects();
+                    await loadStoredData();
                   }}
+                  onTagsChange={loadStoredData}
+                  sets={sets}
+                  onSetsChange={loadStoredData}
+                  startupCommand={startupCommands[pathKey(project.path)]}
+                  onStartupCommandChange={loadStoredData}
+                  onEditorOverrideChange={loadStoredData}
+                  onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
                 />
               }
             />
@@ -145,105 +184,3 @@ export default function Command() {
     </List>
   );
 }
-
-interface ProjectActionsProps {
-  project: Project;
-  isFavorite: boolean;
-  preferences: Preferences;
-  terminalApp: Application | undefined;
-  editorApp: Application | undefined;
-  onRefresh: () => void;
-  onToggleFavorite: () => void;
-}
-
-function ProjectActions({
-  project,
-  isFavorite,
-  preferences,
-  terminalApp,
-  editorApp,
-  onRefresh,
-  onToggleFavorite,
-}: ProjectActionsProps) {
-  const openInFinder = <Action.ShowInFinder path={project.path} shortcut={{ modifiers: ["cmd"], key: "f" }} />;
-
-  const openInEditor = editorApp ? (
-    <Action.Open
-      title={`Open in ${editorApp.name}`}
-      icon={Icon.Code}
-      target={project.path}
-      application={editorApp}
-      shortcut={{ modifiers: ["cmd"], key: "e" }}
-      onOpen={async () => {
-        await addToRecentProjects(project.path);
-      }}
-    />
-  ) : (
-    <Action
-      title="Open in Default Editor"
-      icon={Icon.Code}
-      shortcut={{ modifiers: ["cmd"], key: "e" }}
-      onAction={async () => {
-        await open(project.path);
-        await addToRecentProjects(project.path);
-      }}
-    />
-  );
-
-  const openInTerminal = terminalApp ? (
-    <Action.Open
-      title={`Open in ${terminalApp.name}`}
-      icon={Icon.Terminal}
-      target={project.path}
-      application={terminalApp}
-      shortcut={{ modifiers: ["cmd"], key: "t" }}
-      onOpen={async () => {
-        await addToRecentProjects(project.path);
-      }}
-    />
-  ) : (
-    <Action.OpenWith path={project.path} shortcut={{ modifiers: ["cmd"], key: "t" }} />
-  );
-
-  const copyPath = <Action.CopyToClipboard content={project.path} shortcut={{ modifiers: ["cmd"], key: "c" }} />;
-
-  // Order actions based on default preference
-  const actions = [];
-  switch (preferences.defaultAction) {
-    case "finder":
-      actions.push(openInFinder, openInEditor, openInTerminal, copyPath);
-      break;
-    case "editor":
-      actions.push(openInEditor, openInFinder, openInTerminal, copyPath);
-      break;
-    case "terminal":
-      actions.push(openInTerminal, openInFinder, openInEditor, copyPath);
-      break;
-    case "copy":
-      actions.push(copyPath, openInFinder, openInEditor, openInTerminal);
-      break;
-    default:
-      actions.push(openInFinder, openInEditor, openInTerminal, copyPath);
-  }
-
-  return (
-    <ActionPanel>
-      <ActionPanel.Section title="Open Project">{actions}</ActionPanel.Section>
-      <ActionPanel.Section>
-        <Action
-          title={isFavorite ? "Remove from Favorites" : "Add to Favorites"}
-          icon={isFavorite ? Icon.StarDisabled : Icon.Star}
-          shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
-          onAction={onToggleFavorite}
-        />
-        <Action.OpenWith path={project.path} shortcut={{ modifiers: ["cmd", "shift"], key: "o" }} />
-        <Action
-          title="Refresh Projects"
-          icon={Icon.ArrowClockwise}
-          shortcut={{ modifiers: ["cmd"], key: "r" }}
-          onAction={onRefresh}
-        />
-      </ActionPanel.Section>
-    </ActionPanel>
-  );
-}
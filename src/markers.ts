@@ -0,0 +1,22 @@
+// Marker files pj understands, mapped to a readable project type
+export const MARKER_TYPES: Record<string, string> = {
+  ".git": "git",
+  "package.json": "npm",
+  "Cargo.toml": "cargo",
+  "go.mod": "go",
+  "pyproject.toml": "python",
+  Makefile: "make",
+  "flake.nix": "nix",
+  "composer.json": "php",
+  "build.gradle": "gradle",
+  "pom.xml": "maven",
+  Gemfile: "ruby",
+  "mix.exs": "elixir",
+  "deno.json": "deno",
+  "pubspec.yaml": "dart",
+};
+
+// Format marker as a readable project type
+export function formatProjectType(marker: string): string {
+  return MARKER_TYPES[marker] || marker;
+}
@@ -0,0 +1,138 @@
+import {
+  Application,
+  environment,
+  getPreferenceValues,
+  Icon,
+  launchCommand,
+  LaunchType,
+  MenuBarExtra,
+  open,
+  showHUD,
+} from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { homedir } from "os";
+import { useMemo } from "react";
+import { chooseEditor, compileEditorRules, parseEditorRules } from "./editor-rules";
+import { formatProjectType } from "./markers";
+import { selectMenuBarProjects } from "./menu-bar";
+import { openInEditors, openProjectInTerminal, type EditorChoice, type TerminalChoice } from "./open-projects";
+import { pathKey } from "./paths";
+import { readProjectCache } from "./project-cache";
+import { findTerminalAdapter } from "./terminal";
+import type { Preferences, Project } from "./types";
+import { useApplications } from "./use-applications";
+import { addToRecentProjects, FILE_MANAGER_NAME, formatDisplayPath, getProjectIcon, getStoredData } from "./utils";
+
+const RECENT_LIMIT = 8;
+
+// Stored data and cached projects only: the menu bar never waits for a pj scan
+async function loadMenuBarData() {
+  const [data, cache] = await Promise.all([getStoredData(), readProjectCache(environment.supportPath)]);
+  return {
+    ...selectMenuBarProjects(data.favorites, data.recentProjects, cache?.projects ?? [], RECENT_LIMIT),
+    editorOverrides: data.editors,
+    startupCommands: data.commands,
+  };
+}
+
+// Report failures with a HUD, as menu bar commands have no window for toasts
+async function run(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    await showHUD(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+interface ProjectMenuProps {
+  project: Project;
+  editor: EditorChoice;
+  terminal: TerminalChoice;
+}
+
+function ProjectMenu({ project, editor, terminal }: ProjectMenuProps) {
+  const { application } = chooseEditor<Application>({
+    project: { path: project.path, type: formatProjectType(project.marker) },
+    override: editor.editorOverrides[pathKey(project.path)],
+    rules: editor.editorRules,
+    applications: editor.applications,
+    defaultEditor: editor.editorApp,
+    home: homedir(),
+  });
+  const terminalTitle = findTerminalAdapter(terminal.terminalName)?.title ?? terminal.terminalApp?.name ?? "Terminal";
+
+  return (
+    <MenuBarExtra.Submenu title={project.name} icon={getProjectIcon(project)}>
+      <MenuBarExtra.Item
+        title={formatDisplayPath(project.path)}
+        subtitle={project.marker ? formatProjectType(project.marker) : undefined}
+      />
+      <MenuBarExtra.Item
+        title={`Open in ${application?.name ?? "Editor"}`}
+        icon={Icon.Code}
+        onAction={() => run(() => openInEditors([project], editor))}
+      />
+      <MenuBarExtra.Item
+        title={`Open in ${terminalTitle}`}
+        icon={Icon.Terminal}
+        onAction={() => run(() => openProjectInTerminal(project, terminal))}
+      />
+      <MenuBarExtra.Item
+        title={`Open in ${FILE_MANAGER_NAME}`}
+        icon={Icon.Finder}
+        onAction={() =>
+          run(async () => {
+            await open(project.path);
+            await addToRecentProjects(project.path);
+          })
+        }
+      />
+    </MenuBarExtra.Submenu>
+  );
+}
+
+export default function MenuBarProjects() {
+  const preferences = getPreferenceValues<Preferences>();
+  const { data, isLoading } = useCachedPromise(loadMenuBarData);
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useMemo(
+    () => compileEditorRules(parseEditorRules(preferences.editorRules ?? "").rules, homedir()),
+    [preferences.editorRules],
+  );
+
+  const editor: EditorChoice = { editorApp, applications, editorRules, editorOverrides: data?.editorOverrides ?? {} };
+  const terminal: TerminalChoice = {
+    terminalName: preferences.terminalApp || "Terminal",
+    terminalApp,
+    mode: preferences.terminalMode ?? "window",
+    commands: data?.startupCommands ?? {},
+  };
+  const favorites = data?.favorites ?? [];
+  const recents = data?.recents ?? [];
+
+  return (
+    <MenuBarExtra icon={Icon.Folder} tooltip="PJ Projects" isLoading={isLoading}>
+      {favorites.length === 0 && recents.length === 0 && !isLoading && (
+        <MenuBarExtra.Item title="No favorites or recent projects yet" />
+      )}
+      <MenuBarExtra.Section title="Favorites">
+        {favorites.map((project) => (
+          <ProjectMenu key={project.path} project={project} editor={editor} terminal={terminal} />
+        ))}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section title="Recent Projects">
+        {recents.map((project) => (
+          <ProjectMenu key={project.path} project={project} editor={editor} terminal={terminal} />
+        ))}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Search Projects…"
+          icon={Icon.MagnifyingGlass}
+          shortcut={{ modifiers: ["cmd"], key: "f" }}
+          onAction={() => launchCommand({ name: "search-projects", type: LaunchType.UserInitiated })}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { selectMenuBarProjects } from "./menu-bar";
+import type { Project, ProjectHistoryEntry } from "./types";
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(path: string, visits: number[]): ProjectHistoryEntry {
+  return { path, count: visits.length, visits, lastAccessed: visits[0] };
+}
+
+const projects: Project[] = [
+  { name: "api", path: "/code/api", marker: "go.mod" },
+  { name: "web", path: "/code/web", marker: "package.json" },
+  { name: "cli", path: "/code/cli", marker: "Cargo.toml" },
+];
+
+describe("selectMenuBarProjects", () => {
+  it("resolves favorites in their saved order", () => {
+    const { favorites } = selectMenuBarProjects(["/code/web", "/code/api"], [], projects, 5, NOW);
+    expect(favorites.map((project) => project.name)).toEqual(["web", "api"]);
+    expect(favorites[0].marker).toBe("package.json");
+  });
+
+  it("ranks recents by frecency, leaving out favorites and capping the count", () => {
+    const history = [
+      entry("/code/api", [NOW - DAY]),
+      entry("/code/web", [NOW - 2 * DAY]),
+      entry("/code/cli", [NOW, NOW - DAY, NOW - 2 * DAY]),
+    ];
+    const { recents } = selectMenuBarProjects(["/code/web"], history, projects, 1, NOW);
+    expect(recents.map((project) => project.name)).toEqual(["cli"]);
+  });
+
+  it("names projects missing from the cache after their directory", () => {
+    const { favorites } = selectMenuBarProjects(["/srv/legacy-app/", "C:\\code\\Tool"], [], projects, 5, NOW);
+    expect(favorites).toEqual([
+      { name: "legacy-app", path: "/srv/legacy-app/", marker: "" },
+      { name: "Tool", path: "C:\\code\\Tool", marker: "" },
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import { rankHistory } from "./frecency";
+import { detectPathFlavor, includesPath, pathKey, pathModule } from "./paths";
+import type { Project, ProjectHistoryEntry } from "./types";
+
+export interface MenuBarProjects {
+  favorites: Project[];
+  // Most frecent projects that aren't favorites
+  recents: Project[];
+}
+
+// Projects for the menu bar, using the project cache for names and markers. Paths pj hasn't
+// reported (yet) get a project named after their directory.
+export function selectMenuBarProjects(
+  favorites: string[],
+  history: ProjectHistoryEntry[],
+  projects: Project[],
+  recentLimit: number,
+  now: number = Date.now(),
+): MenuBarProjects {
+  const byKey = new Map(projects.map((project) => [pathKey(project.path), project]));
+  const resolve = (path: string): Project =>
+    byKey.get(pathKey(path)) ?? { name: pathModule(detectPathFlavor(path)).basename(path), path, marker: "" };
+
+  return {
+    favorites: favorites.map(resolve),
+    recents: rankHistory(history, now)
+      .filter((path) => !includesPath(favorites, path))
+      .slice(0, recentLimit)
+      .map(resolve),
+  };
+}
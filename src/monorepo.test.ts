@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { join } from "path";
+import {
+  expandWorkspacePattern,
+  loadWorkspacePackages,
+  parseCargoWorkspace,
+  parseGoWork,
+  parseNxLayout,
+  parsePackageJsonWorkspaces,
+  parsePnpmWorkspace,
+  readPackageName,
+  readTomlArray,
+} from "./monorepo";
+
+const FIXTURES = join(__dirname, "__fixtures__", "monorepos");
+
+function summarize(root: string, packages: { name: string; path: string; tool: string }[]) {
+  return packages.map((pkg) => [pkg.name, pkg.path.slice(root.length + 1), pkg.tool]);
+}
+
+describe("parsePackageJsonWorkspaces", () => {
+  it("reads the array and the Yarn { packages } forms", () => {
+    expect(parsePackageJsonWorkspaces('{"workspaces": ["packages/*"]}')).toEqual(["packages/*"]);
+    expect(parsePackageJsonWorkspaces('{"workspaces": {"packages": ["apps/*"], "nohoist": ["**"]}}')).toEqual([
+      "apps/*",
+    ]);
+  });
+
+  it("returns nothing without workspaces or for invalid JSON", () => {
+    expect(parsePackageJsonWorkspaces('{"name": "app"}')).toEqual([]);
+    expect(parsePackageJsonWorkspaces("{")).toEqual([]);
+  });
+});
+
+describe("parsePnpmWorkspace", () => {
+  it("reads packages, including negations", () => {
+    expect(parsePnpmWorkspace("packages:\n  - 'apps/*'\n  - '!apps/legacy'\n")).toEqual(["apps/*", "!apps/legacy"]);
+  });
+
+  it("returns nothing for invalid YAML", () => {
+    expect(parsePnpmWorkspace("packages: [")).toEqual([]);
+  });
+});
+
+describe("readTomlArray", () => {
+  it("reads multi-line arrays with comments and trailing commas", () => {
+    const toml = '[workspace]\nmembers = [\n  "a", # first\n  "b",\n]\n[package]\nmembers = ["c"]\n';
+    expect(readTomlArray(toml, "workspace", "members")).toEqual(["a", "b"]);
+    expect(readTomlArray(toml, "package", "members")).toEqual(["c"]);
+    expect(readTomlArray(toml, "workspace", "exclude")).toEqual([]);
+  });
+});
+
+describe("parseCargoWorkspace", () => {
+  it("turns exclude entries into negated patterns", () => {
+    expect(parseCargoWorkspace('[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/old"]\n')).toEqual([
+      "crates/*",
+      "!crates/old",
+    ]);
+  });
+});
+
+describe("parseGoWork", () => {
+  it("reads single and block use directives", () => {
+    expect(parseGoWork('go 1.22\nuse ./a // comment\nuse (\n\t./b\n\t"./c"\n)\n')).toEqual(["./a", "./b", "./c"]);
+  });
+});
+
+describe("parseNxLayout", () => {
+  it("defaults to apps and libs", () => {
+    expect(parseNxLayout("{}")).toEqual(["apps/*", "apps/*/*", "libs/*", "libs/*/*"]);
+  });
+
+  it("honors workspaceLayout", () => {
+    expect(parseNxLayout('{"workspaceLayout": {"appsDir": "projects", "libsDir": "modules"}}')).toEqual([
+      "projects/*",
+      "projects/*/*",
+      "modules/*",
+      "modules/*/*",
+    ]);
+  });
+});
+
+describe("readPackageName", () => {
+  it("reads names from each manifest type", () => {
+    expect(readPackageName("package.json", '{"name": "@acme/ui"}', "/r/ui")).toBe("@acme/ui");
+    expect(readPackageName("Cargo.toml", '[package]\nname = "core"\n', "/r/c")).toBe("core");
+    expect(readPackageName("go.mod", "module github.com/acme/api\n", "/r/api")).toBe("github.com/acme/api");
+  });
+
+  it("falls back to the directory name", () => {
+    expect(readPackageName("package.json", "{}", "/r/tools/cli")).toBe("cli");
+    expect(readPackageName("package.json", "{", "/r/broken")).toBe("broken");
+  });
+});
+
+describe("expandWorkspacePattern", () => {
+  it("expands * one level and keeps literal paths", async () => {
+    const root = join(FIXTURES, "npm");
+    expect((await expandWorkspacePattern(root, "packages/*")).sort()).toEqual([
+      join(root, "packages", "internal"),
+      join(root, "packages", "ui"),
+      join(root, "packages", "utils"),
+    ]);
+    expect(await expandWorkspacePattern(root, "./tools/cli/")).toEqual([join(root, "tools", "cli")]);
+  });
+});
+
+describe("loadWorkspacePackages", () => {
+  it("lists npm workspaces, honoring negated patterns", async () => {
+    const root = join(FIXTURES, "npm");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["@acme/ui", "packages/ui", "npm"],
+      ["@acme/utils", "packages/utils", "npm"],
+      ["cli", "tools/cli", "npm"],
+    ]);
+  });
+
+  it("lists yarn workspaces from ** patterns, skipping build output", async () => {
+    const root = join(FIXTURES, "yarn");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["app", "packages/app", "yarn"],
+      ["lib", "packages/lib", "yarn"],
+    ]);
+  });
+
+  it("lists pnpm workspaces", async () => {
+    const root = join(FIXTURES, "pnpm");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["web", "apps/web", "pnpm"],
+      ["@platform/config", "packages/config", "pnpm"],
+    ]);
+  });
+
+  it("lists Cargo workspace members without excluded crates", async () => {
+    const root = join(FIXTURES, "cargo");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["engine-cli", "crates/cli", "cargo"],
+      ["engine-core", "crates/core", "cargo"],
+      ["xtask", "xtask", "cargo"],
+    ]);
+  });
+
+  it("lists go.work modules that exist", async () => {
+    const root = join(FIXTURES, "go");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["github.com/acme/shared", "pkg/shared", "go"],
+      ["github.com/acme/api", "services/api", "go"],
+    ]);
+  });
+
+  it("lists Nx projects from project.json files", async () => {
+    const root = join(FIXTURES, "nx");
+    expect(summarize(root, await loadWorkspacePackages(root))).toEqual([
+      ["dashboard", "apps/dashboard", "nx"],
+      ["shared-data", "libs/shared/data", "nx"],
+      ["shared-ui", "libs/shared/ui", "nx"],
+    ]);
+  });
+
+  it("returns nothing for projects without workspaces", async () => {
+    expect(await loadWorkspacePackages(join(FIXTURES, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import type { Dirent } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { basename, join, relative } from "path";
+import { parse } from "yaml";
+import { readTomlTables } from "./tasks";
+
+export type WorkspaceTool = "npm" | "pnpm" | "yarn" | "cargo" | "go" | "nx";
+
+// A package or crate inside a monorepo
+export interface WorkspacePackage {
+  name: string;
+  path: string;
+  // Manifest that makes the directory a package, like pj's markers
+  marker: string;
+  tool: WorkspaceTool;
+}
+
+// Member globs from a workspace config; patterns starting with ! exclude
+export interface WorkspaceMembers {
+  tool: WorkspaceTool;
+  patterns: string[];
+  manifest: string;
+}
+
+// Directories never searched for members, even when a ** pattern would reach them
+const SKIPPED_DIRS = new Set(["node_modules", ".git", "target", "dist", "build", "vendor"]);
+
+// Upper bound on directory levels a ** pattern descends
+const MAX_GLOB_DEPTH = 4;
+
+// `workspaces` from package.json: an array, or { packages } as used by Yarn
+export function parsePackageJsonWorkspaces(contents: string): string[] {
+  try {
+    const workspaces = JSON.parse(contents).workspaces;
+    const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// `packages` from pnpm-workspace.yaml
+export function parsePnpmWorkspace(contents: string): string[] {
+  try {
+    const packages = parse(contents)?.packages;
+    return Array.isArray(packages) ? packages.filter((pattern): pattern is string => typeof pattern === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// String items of a TOML array that may span several lines, e.g. `members = [\n "a",\n "b",\n]`
+export function readTomlArray(contents: string, table: string, key: string): string[] {
+  const lines = contents.split(/\r?\n/);
+  let current = "";
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const header = line.match(/^\[\s*([^[\]]+?)\s*\]$/);
+    if (header) {
+      current = header[1].replace(/\s+/g, "");
+      continue;
+    }
+    if (current !== table || !new RegExp(`^"?${key}"?\\s*=\\s*\\[`).test(line)) continue;
+
+    // Collect lines until the closing bracket, ignoring comments
+    let body = line.slice(line.indexOf("[") + 1);
+    while (!body.replace(/#.*$/gm, "").includes("]") && i + 1 < lines.length) {
+      i += 1;
+      body += "\n" + lines[i];
+    }
+    body = body.replace(/#.*$/gm, "");
+    return Array.from(body.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g), (match) => match[1] ?? match[2]);
+  }
+  return [];
+}
+
+// Workspace members and exclusions from Cargo.toml
+export function parseCargoWorkspace(contents: string): string[] {
+  return [
+    ...readTomlArray(contents, "workspace", "members"),
+    ...readTomlArray(contents, "workspace", "exclude").map((pattern) => `!${pattern}`),
+  ];
+}
+
+// Module directories from go.work `use` directives (single or block form)
+export function parseGoWork(contents: string): string[] {
+  const withoutComments = contents.replace(/\/\/.*$/gm, "");
+  const patterns: string[] = [];
+  for (const match of withoutComments.matchAll(/^\s*use\s*(?:\(([\s\S]*?)\)|(\S+))/gm)) {
+    const entries = match[1] !== undefined ? match[1].split(/\s+/) : [match[2]];
+    patterns.push(...entries.filter(Boolean).map((entry) => entry.replace(/^"|"$/g, "")));
+  }
+  return patterns;
+}
+
+// Project directories for an Nx workspace, from workspaceLayout (apps/ and libs/ by default)
+export function parseNxLayout(contents: string): string[] {
+  let layout: { appsDir?: unknown; libsDir?: unknown } | undefined;
+  try {
+    layout = JSON.parse(contents).workspaceLayout;
+  } catch {
+    layout = undefined;
+  }
+  const appsDir = typeof layout?.appsDir === "string" ? layout.appsDir : "apps";
+  const libsDir = typeof layout?.libsDir === "string" ? layout.libsDir : "libs";
+  return [`${appsDir}/*`, `${appsDir}/*/*`, `${libsDir}/*`, `${libsDir}/*/*`];
+}
+
+function segmentMatcher(segment: string): RegExp {
+  const source = segment
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`);
+}
+
+async function listDirectories(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry.isDirectory() && !SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith("."))
+    .map((entry) => entry.name);
+}
+
+// Directories matching a member glob relative to the root: * matches one path segment, ** any number
+export async function expandWorkspacePattern(root: string, pattern: string): Promise<string[]> {
+  const segments = pattern
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "")
+    .split("/")
+    .filter((segment) => segment && segment !== ".");
+
+  let current = [root];
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of current) {
+      if (segment === "**") {
+        let level = [dir];
+        for (let depth = 0; depth <= MAX_GLOB_DEPTH && level.length > 0; depth++) {
+          next.push(...level);
+          const children = await Promise.all(
+            level.map(async (parent) => (await listDirectories(parent)).map((name) => join(parent, name))),
+          );
+          level = children.flat();
+        }
+      } else if (/[*?]/.test(segment)) {
+        const matcher = segmentMatcher(segment);
+        next.push(...(await listDirectories(dir)).filter((name) => matcher.test(name)).map((name) => join(dir, name)));
+      } else {
+        next.push(join(dir, segment));
+      }
+    }
+    current = next;
+  }
+  return Array.from(new Set(current));
+}
+
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+// Workspace configs found in the project's root
+export async function readWorkspaceMembers(projectPath: string): Promise<WorkspaceMembers[]> {
+  const file = (name: string) => readOptional(join(projectPath, name));
+  const [packageJson, pnpmWorkspace, yarnLock, cargoToml, goWork, nxJson] = await Promise.all([
+    file("package.json"),
+    file("pnpm-workspace.yaml"),
+    file("yarn.lock"),
+    file("Cargo.toml"),
+    file("go.work"),
+    file("nx.json"),
+  ]);
+
+  const members: WorkspaceMembers[] = [];
+  if (pnpmWorkspace) {
+    members.push({ tool: "pnpm", patterns: parsePnpmWorkspace(pnpmWorkspace), manifest: "package.json" });
+  } else if (packageJson) {
+    const tool = yarnLock !== undefined ? "yarn" : "npm";
+    members.push({ tool, patterns: parsePackageJsonWorkspaces(packageJson), manifest: "package.json" });
+  }
+  if (cargoToml) members.push({ tool: "cargo", patterns: parseCargoWorkspace(cargoToml), manifest: "Cargo.toml" });
+  if (goWork) members.push({ tool: "go", patterns: parseGoWork(goWork), manifest: "go.mod" });
+  // Turbo reuses the package manager's workspaces; Nx may also lay projects out on its own
+  if (nxJson) members.push({ tool: "nx", patterns: parseNxLayout(nxJson), manifest: "project.json" });
+
+  return members.filter((member) => member.patterns.some((pattern) => !pattern.startsWith("!")));
+}
+
+// Package name from its manifest, falling back to the directory name
+export function readPackageName(manifest: string, contents: string, directory: string): string {
+  try {
+    if (manifest === "package.json" || manifest === "project.json") {
+      const name = JSON.parse(contents).name;
+      if (typeof name === "string" && name) return name;
+    } else if (manifest === "Cargo.toml") {
+      const name = readTomlTables(contents).get("package")?.get("name");
+      if (name) return name;
+    } else if (manifest === "go.mod") {
+      const module = contents.match(/^\s*module\s+"?([^\s"]+)"?/m)?.[1];
+      if (module) return module;
+    }
+  } catch {
+    // Use the directory name
+  }
+  return basename(directory);
+}
+
+// All member packages of a monorepo, sorted by path; empty for projects without workspaces
+export async function loadWorkspacePackages(projectPath: string): Promise<WorkspacePackage[]> {
+  const packages = new Map<string, WorkspacePackage>();
+
+  for (const { tool, patterns, manifest } of await readWorkspaceMembers(projectPath)) {
+    const included = patterns.filter((pattern) => !pattern.startsWith("!"));
+    const excluded = patterns.filter((pattern) => pattern.startsWith("!")).map((pattern) => pattern.slice(1));
+
+    const excludedDirs = new Set(
+      (await Promise.all(excluded.map((p) => expandWorkspacePattern(projectPath, p)))).flat(),
+    );
+    const dirs = (await Promise.all(included.map((p) => expandWorkspacePattern(projectPath, p)))).flat();
+
+    for (const dir of dirs) {
+      if (dir === projectPath || excludedDirs.has(dir) || packages.has(dir)) continue;
+      const contents = await readOptional(join(dir, manifest));
+      if (contents === undefined) continue;
+      packages.set(dir, { name: readPackageName(manifest, contents, dir), path: dir, marker: manifest, tool });
+    }
+  }
+
+  return Array.from(packages.values()).sort((a, b) =>
+    relative(projectPath, a.path).localeCompare(relative(projectPath, b.path)),
+  );
+}
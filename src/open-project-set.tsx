@@ -0,0 +1,297 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  confirmAlert,
+  getPreferenceValues,
+  Icon,
+  List,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { access } from "fs/promises";
+import { basename } from "path";
+import { useEffect, useMemo, useState } from "react";
+import { openInEditors, openInTerminal, type EditorChoice, type TerminalChoice } from "./open-projects";
+import { pathKey, uniquePaths } from "./paths";
+import { ProjectSetForm } from "./project-set-form";
+import { deleteProjectSet, setSetMembership } from "./stored-data";
+import type { Preferences, Project } from "./types";
+import { useApplications } from "./use-applications";
+import { useEditorRules } from "./use-editor-rules";
+import { useProjects } from "./use-projects";
+import { FILE_MANAGER_NAME, formatDisplayPath, getProjectIcon, getStoredData, saveProjectSets } from "./utils";
+
+interface SetMember {
+  project: Project;
+  // Members pj no longer finds are kept and opened by path
+  isDiscovered: boolean;
+  // Members whose directory is gone are skipped when opening
+  exists: boolean;
+}
+
+type OpenTarget = "editor" | "terminal" | "both";
+
+interface OpenContext {
+  choice: EditorChoice;
+  terminal: TerminalChoice;
+}
+
+async function findMissingPaths(paths: string[]): Promise<string[]> {
+  const missing = await Promise.all(
+    paths.map(async (path) => {
+      try {
+        await access(path);
+        return undefined;
+      } catch {
+        return path;
+      }
+    }),
+  );
+  return missing.filter((path): path is string => path !== undefined);
+}
+
+function countProjects(count: number): string {
+  return `${count} ${count === 1 ? "project" : "projects"}`;
+}
+
+async function openSet(name: string, members: SetMember[], target: OpenTarget, context: OpenContext) {
+  const present = members.filter((member) => member.exists).map((member) => member.project);
+  const skipped = members.length - present.length;
+  if (present.length === 0) {
+    await showToast({ style: Toast.Style.Failure, title: `No project in ${name} exists on disk` });
+    return;
+  }
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: `Opening ${name}` });
+  try {
+    if (target !== "terminal") await openInEditors(present, context.choice);
+    if (target !== "editor") {
+      await openInTerminal(present, context.terminal);
+    }
+    toast.style = Toast.Style.Success;
+    toast.title = `Opened ${name}`;
+    if (skipped > 0) toast.message = `Skipped ${countProjects(skipped)} missing on disk`;
+  } catch (error) {
+    toast.style = Toast.Style.Failure;
+    toast.title = `Failed to open ${name}`;
+    toast.message = error instanceof Error ? error.message : "Unknown error";
+  }
+}
+
+function memberAccessories(member: SetMember): List.Item.Accessory[] {
+  if (!member.exists) {
+    return [{ icon: { source: Icon.Warning, tintColor: Color.Red }, tooltip: "Missing on disk, skipped when opening" }];
+  }
+  if (!member.isDiscovered) {
+    return [{ icon: { source: Icon.Warning, tintColor: Color.Orange }, tooltip: "Not found by pj" }];
+  }
+  return [];
+}
+
+interface SetMembersProps {
+  name: string;
+  members: SetMember[];
+  context: OpenContext;
+  onChange: () => void;
+}
+
+// Pushed list of one set's members
+function SetMembers({ name, members, context, onChange }: SetMembersProps) {
+  const [current, setCurrent] = useState(members);
+
+  return (
+    <List navigationTitle={`${name} › Members`} searchBarPlaceholder={`Search projects in ${name}...`}>
+      <List.EmptyView icon={Icon.Layers} title={`${name} Has No Projects`} />
+      {current.map((member) => (
+        <List.Item
+          key={member.project.path}
+          icon={getProjectIcon(member.project)}
+          title={member.project.name}
+          subtitle={formatDisplayPath(member.project.path)}
+          accessories={memberAccessories(member)}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Open in Editor"
+                icon={Icon.Code}
+                onAction={() => openSet(member.project.name, [member], "editor", context)}
+              />
+              <Action
+                title="Open in Terminal"
+                icon={Icon.Terminal}
+                shortcut={{ modifiers: ["cmd"], key: "t" }}
+                onAction={() => openSet(member.project.name, [member], "terminal", context)}
+              />
+              <Action.ShowInFinder
+                title={`Show in ${FILE_MANAGER_NAME}`}
+                path={member.project.path}
+                shortcut={{ modifiers: ["cmd"], key: "f" }}
+              />
+              <Action
+                title="Remove from Set"
+                icon={Icon.MinusCircle}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={async () => {
+                  const path = member.project.path;
+                  if (
+                    await saveProjectSets((data) => setSetMembership(data, name, path, false), `Removed from ${name}`)
+                  ) {
+                    setCurrent((members) => members.filter((m) => m.project.path !== path));
+                    onChange();
+                  }
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+export default function OpenProjectSet() {
+  const preferences = getPreferenceValues<Preferences>();
+  const { projects, isLoading } = useProjects({ onStoredDataChange: () => loadStoredData() });
+  const [sets, setSets] = useState<Record<string, string[]>>({});
+  const [editorOverrides, setEditorOverrides] = useState<Record<string, string>>({});
+  const [startupCommands, setStartupCommands] = useState<Record<string, string>>({});
+  const [isLoadingSets, setIsLoadingSets] = useState(true);
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+
+  async function loadStoredData() {
+    const data = await getStoredData();
+    setSets(data.sets);
+    setEditorOverrides(data.editors);
+    setStartupCommands(data.commands);
+    setIsLoadingSets(false);
+  }
+
+  useEffect(() => {
+    loadStoredData();
+  }, []);
+
+  const memberPaths = useMemo(() => uniquePaths(Object.values(sets).flat()), [sets]);
+  const { data: missingPaths = [], isLoading: isCheckingPaths } = useCachedPromise(findMissingPaths, [memberPaths]);
+
+  // Members in the order they were added; undiscovered members get a project built from their path
+  const members = useMemo(() => {
+    const discovered = new Map(projects.map((project) => [pathKey(project.path), project]));
+    const missing = new Set(missingPaths.map((path) => pathKey(path)));
+    return Object.fromEntries(
+      Object.entries(sets).map(([name, paths]) => [
+        name,
+        paths.map((path): SetMember => ({
+          project: discovered.get(pathKey(path)) ?? { name: basename(path), path, marker: "" },
+          isDiscovered: discovered.has(pathKey(path)),
+          exists: !missing.has(pathKey(path)),
+        })),
+      ]),
+    );
+  }, [sets, projects, missingPaths]);
+
+  const context: OpenContext = {
+    choice: { editorApp, applications, editorRules, editorOverrides },
+    terminal: {
+      terminalName: preferences.terminalApp || "Terminal",
+      terminalApp,
+      mode: preferences.terminalMode ?? "window",
+      commands: startupCommands,
+    },
+  };
+  const names = Object.keys(sets).sort((a, b) => a.localeCompare(b));
+
+  return (
+    <List isLoading={isLoading || isLoadingSets || isCheckingPaths} searchBarPlaceholder="Search project sets...">
+      <List.EmptyView
+        icon={Icon.Layers}
+        title="No Project Sets"
+        description="Add projects to a set with Project Sets… (Cmd+Shift+K) in List Projects, Quick Switch or Search Projects."
+      />
+      {names.map((name) => {
+        const setMembers = members[name] ?? [];
+        const missing = setMembers.filter((member) => !member.exists).length;
+        return (
+          <List.Item
+            key={name}
+            icon={Icon.Layers}
+            title={name}
+            subtitle={setMembers.map((member) => member.project.name).join(", ")}
+            keywords={setMembers.map((member) => member.project.name)}
+            accessories={[
+              ...(missing > 0
+                ? [
+                    {
+                      icon: { source: Icon.Warning, tintColor: Color.Red },
+                      tooltip: `${countProjects(missing)} missing on disk`,
+                    },
+                  ]
+                : []),
+              { text: countProjects(setMembers.length) },
+            ]}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action
+                    title="Open All in Editors"
+                    icon={Icon.Code}
+                    onAction={() => openSet(name, setMembers, "editor", context)}
+                  />
+                  <Action
+                    title="Open All in Terminal"
+                    icon={Icon.Terminal}
+                    shortcut={{ modifiers: ["cmd"], key: "t" }}
+                    onAction={() => openSet(name, setMembers, "terminal", context)}
+                  />
+                  <Action
+                    title="Open All in Editors and Terminal"
+                    icon={Icon.AppWindowGrid2x2}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+                    onAction={() => openSet(name, setMembers, "both", context)}
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action.Push
+                    title="Show Projects"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd"], key: "l" }}
+                    target={<SetMembers name={name} members={setMembers} context={context} onChange={loadStoredData} />}
+                  />
+                  <Action.Push
+                    title="Rename Set…"
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+                    target={<ProjectSetForm setName={name} onSave={loadStoredData} />}
+                  />
+                  <Action
+                    title="Delete Set"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={async () => {
+                      const confirmed = await confirmAlert({
+                        title: `Delete ${name}?`,
+                        message: "The projects themselves are not affected.",
+                        primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+                      });
+                      if (
+                        confirmed &&
+                        (await saveProjectSets((data) => deleteProjectSet(data, name), `Deleted ${name}`))
+                      ) {
+                        await loadStoredData();
+                      }
+                    }}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
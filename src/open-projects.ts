@@ -0,0 +1,92 @@
+import { Application, Clipboard, open, showToast, Toast } from "@raycast/api";
+import { runAppleScript } from "@raycast/utils";
+import { execFile } from "child_process";
+import { homedir } from "os";
+import { promisify } from "util";
+import { chooseEditor, type EditorRule } from "./editor-rules";
+import { formatProjectType } from "./markers";
+import { pathKey } from "./paths";
+import { buildTerminalInvocation, type TerminalInvocation, type TerminalMode } from "./terminal";
+import type { Project } from "./types";
+import { addToRecentProjects } from "./utils";
+
+const execFileAsync = promisify(execFile);
+
+export interface EditorChoice {
+  editorApp: Application | undefined;
+  applications: Application[];
+  editorRules: EditorRule[];
+  editorOverrides: Record<string, string>;
+}
+
+export interface TerminalChoice {
+  // The "Terminal Application" preference
+  terminalName: string;
+  terminalApp: Application | undefined;
+  mode: TerminalMode;
+  // Startup commands by project path
+  commands: Record<string, string>;
+}
+
+// Open each project in the editor its rules or override pick, recording every open
+export async function openInEditors(projects: Project[], choice: EditorChoice): Promise<void> {
+  for (const project of projects) {
+    const { application } = chooseEditor({
+      project: { path: project.path, type: formatProjectType(project.marker) },
+      override: choice.editorOverrides[pathKey(project.path)],
+      rules: choice.editorRules,
+      applications: choice.applications,
+      defaultEditor: choice.editorApp,
+      home: homedir(),
+    });
+    await open(project.path, application);
+    await addToRecentProjects(project.path);
+  }
+}
+
+// Run an adapter's invocation; terminals that can't run commands get them on the clipboard
+export async function launchTerminal(invocation: TerminalInvocation, terminalApp: Application | undefined) {
+  switch (invocation.kind) {
+    case "applescript":
+      await runAppleScript(invocation.script);
+      break;
+    case "exec":
+      await execFileAsync(invocation.file, invocation.args, { timeout: 10000 });
+      break;
+    case "open":
+      if (invocation.clipboard) await Clipboard.copy(invocation.clipboard);
+      await open(invocation.target, invocation.application && (terminalApp ?? invocation.application));
+      if (invocation.clipboard) {
+        await showToast({
+          style: Toast.Style.Success,
+          title: `Copied ${invocation.clipboard}`,
+          message: "Paste it in the terminal to run it",
+        });
+      }
+      break;
+  }
+}
+
+// Open a project in the configured terminal, running `command` or else its startup command
+export async function openProjectInTerminal(
+  project: Project,
+  choice: TerminalChoice,
+  options: { command?: string; mode?: TerminalMode } = {},
+): Promise<void> {
+  const invocation = buildTerminalInvocation(choice.terminalName, {
+    cwd: project.path,
+    title: project.name,
+    command: options.command ?? choice.commands[pathKey(project.path)],
+    mode: options.mode ?? choice.mode,
+    shell: process.env.SHELL || "/bin/zsh",
+  });
+  await launchTerminal(invocation, choice.terminalApp);
+  await addToRecentProjects(project.path);
+}
+
+// Open several projects: the first in a new window, the rest as tabs where the terminal has them
+export async function openInTerminal(projects: Project[], choice: TerminalChoice): Promise<void> {
+  for (const [index, project] of projects.entries()) {
+    await openProjectInTerminal(project, choice, { mode: index === 0 ? "window" : "tab" });
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { posix, win32 } from "path";
+import {
+  detectPathFlavor,
+  expandHomePath,
+  includesPath,
+  isSamePath,
+  pathBelow,
+  pathKey,
+  pathModule,
+  splitAnySeparator,
+  uniquePaths,
+} from "./paths";
+
+describe("detectPathFlavor", () => {
+  it("recognizes drive letters and UNC paths as Windows paths", () => {
+    expect(detectPathFlavor("C:\\Users\\me")).toBe("win32");
+    expect(detectPathFlavor("d:/code")).toBe("win32");
+    expect(detectPathFlavor("C:")).toBe("win32");
+    expect(detectPathFlavor("\\\\server\\share\\code")).toBe("win32");
+  });
+
+  it("treats everything else as POSIX", () => {
+    expect(detectPathFlavor("/Users/me")).toBe("posix");
+    expect(detectPathFlavor("~/code")).toBe("posix");
+    expect(detectPathFlavor("relative\\path")).toBe("posix");
+  });
+});
+
+describe("pathModule", () => {
+  it("returns the matching path implementation", () => {
+    expect(pathModule("win32")).toBe(win32);
+    expect(pathModule("posix")).toBe(posix);
+  });
+});
+
+describe("pathKey", () => {
+  it("normalizes POSIX paths and keeps their case", () => {
+    expect(pathKey("/Users/Me/code/../app/")).toBe("/Users/Me/app");
+    expect(pathKey("/")).toBe("/");
+  });
+
+  it("normalizes separators and case on Windows", () => {
+    expect(pathKey("C:/Users/Me/Code/")).toBe("c:\\users\\me\\code");
+    expect(pathKey("C:\\")).toBe("c:\\");
+    expect(pathKey("\\\\Server\\Share\\App\\")).toBe("\\\\server\\share\\app");
+  });
+
+  it("can be forced to a flavor", () => {
+    expect(pathKey("/Code/App", "win32")).toBe("\\code\\app");
+  });
+});
+
+describe("isSamePath", () => {
+  it("compares Windows paths case-insensitively and across separators", () => {
+    expect(isSamePath("C:\\Users\\me\\App", "c:/users/ME/app/")).toBe(true);
+    expect(isSamePath("C:\\code\\app", "D:\\code\\app")).toBe(false);
+  });
+
+  it("compares POSIX paths case-sensitively", () => {
+    expect(isSamePath("/code/App", "/code/app")).toBe(false);
+    expect(isSamePath("/code/app/", "/code/app")).toBe(true);
+  });
+});
+
+describe("includesPath", () => {
+  it("finds a path in a list by key", () => {
+    expect(includesPath(["C:\\code\\API", "C:\\code\\web"], "c:/code/api")).toBe(true);
+    expect(includesPath(["/code/API"], "/code/api")).toBe(false);
+  });
+});
+
+describe("uniquePaths", () => {
+  it("keeps the first spelling of each path", () => {
+    expect(uniquePaths(["C:\\Code\\api", "c:\\code\\api\\", "/code/API", "/code/api", "/code/api/"])).toEqual([
+      "C:\\Code\\api",
+      "/code/API",
+      "/code/api",
+    ]);
+  });
+});
+
+describe("pathBelow", () => {
+  it("returns the segments below a POSIX parent", () => {
+    expect(pathBelow("/Users/me/code/app", "/Users/me")).toEqual(["code", "app"]);
+    expect(pathBelow("/Users/me", "/Users/me/")).toEqual([]);
+    expect(pathBelow("/Users/meadow/app", "/Users/me")).toBeUndefined();
+    expect(pathBelow("/Users/ME/app", "/Users/me")).toBeUndefined();
+  });
+
+  it("matches Windows parents case-insensitively and keeps the original case below them", () => {
+    expect(pathBelow("c:/users/Me/Code/App", "C:\\Users\\me")).toEqual(["Code", "App"]);
+    expect(pathBelow("C:\\Users\\meadow", "C:\\Users\\me")).toBeUndefined();
+    expect(pathBelow("D:\\Users\\me\\app", "C:\\Users\\me")).toBeUndefined();
+  });
+
+  it("handles drive roots", () => {
+    expect(pathBelow("C:\\code\\app", "C:\\")).toEqual(["code", "app"]);
+    expect(pathBelow("/code", "/")).toEqual(["code"]);
+  });
+});
+
+describe("splitAnySeparator", () => {
+  it("splits on both separators", () => {
+    expect(splitAnySeparator("code\\app/src")).toEqual(["code", "app", "src"]);
+  });
+});
+
+describe("expandHomePath", () => {
+  it("expands a leading ~/", () => {
+    expect(expandHomePath("~/bin/pj", "/Users/testuser")).toBe("/Users/testuser/bin/pj");
+  });
+
+  it("expands ~\\ under a Windows home", () => {
+    expect(expandHomePath("~\\bin\\pj.exe", "C:\\Users\\testuser")).toBe("C:\\Users\\testuser\\bin\\pj.exe");
+  });
+
+  it("expands a bare ~", () => {
+    expect(expandHomePath("~", "/Users/testuser")).toBe("/Users/testuser");
+  });
+
+  it("leaves other paths unchanged", () => {
+    expect(expandHomePath("/usr/local/bin/pj", "/Users/testuser")).toBe("/usr/local/bin/pj");
+    expect(expandHomePath("~other/pj", "/Users/testuser")).toBe("~other/pj");
+  });
+});
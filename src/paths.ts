@@ -0,0 +1,81 @@
+import { homedir } from "os";
+import { posix, win32 } from "path";
+
+// Path semantics: Windows paths use either separator, drive letters and case-insensitive names
+export type PathFlavor = "posix" | "win32";
+
+// Windows paths start with a drive letter or a UNC prefix
+export function detectPathFlavor(path: string): PathFlavor {
+  return /^[a-zA-Z]:([\\/]|$)/.test(path) || path.startsWith("\\\\") ? "win32" : "posix";
+}
+
+export function pathModule(flavor: PathFlavor): typeof posix {
+  return flavor === "win32" ? win32 : posix;
+}
+
+// Normalized path without a trailing separator, keeping the original case
+function normalizePath(path: string, flavor: PathFlavor): string {
+  const api = pathModule(flavor);
+  const normalized = api.normalize(path);
+  const root = api.parse(normalized).root;
+  return normalized.length > root.length ? normalized.replace(/[\\/]+$/, "") : normalized;
+}
+
+// Key for comparing paths: normalized, and lowercased on Windows
+export function pathKey(path: string, flavor: PathFlavor = detectPathFlavor(path)): string {
+  const normalized = normalizePath(path, flavor);
+  return flavor === "win32" ? normalized.toLowerCase() : normalized;
+}
+
+export function isSamePath(a: string, b: string, flavor: PathFlavor = detectPathFlavor(a)): boolean {
+  return pathKey(a, flavor) === pathKey(b, flavor);
+}
+
+export function includesPath(paths: string[], path: string, flavor: PathFlavor = detectPathFlavor(path)): boolean {
+  const key = pathKey(path, flavor);
+  return paths.some((candidate) => pathKey(candidate, flavor) === key);
+}
+
+// Paths with duplicates dropped, keeping the first spelling of each
+export function uniquePaths(paths: string[]): string[] {
+  const seen = new Set<string>();
+  return paths.filter((path) => {
+    const key = pathKey(path);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Segments of `path` below `parent`, or undefined when it isn't inside it; [] for the parent itself
+export function pathBelow(
+  path: string,
+  parent: string,
+  flavor: PathFlavor = detectPathFlavor(parent),
+): string[] | undefined {
+  const normalized = normalizePath(path, flavor);
+  const parentKey = pathKey(parent, flavor);
+  const key = flavor === "win32" ? normalized.toLowerCase() : normalized;
+  if (key === parentKey) return [];
+
+  const sep = pathModule(flavor).sep;
+  const prefix = parentKey.endsWith(sep) ? parentKey : parentKey + sep;
+  if (!key.startsWith(prefix)) return undefined;
+  return normalized.slice(prefix.length).split(sep).filter(Boolean);
+}
+
+// Split a path written with either separator, as exports from another platform are
+export function splitAnySeparator(path: string): string[] {
+  return path.split(/[\\/]+/).filter(Boolean);
+}
+
+// Expand a leading ~ to the user's home directory
+export function expandHomePath(path: string, home: string = homedir()): string {
+  if (path === "~") {
+    return home;
+  }
+  if (/^~[\\/]/.test(path)) {
+    return pathModule(detectPathFlavor(home)).join(home, ...splitAnySeparator(path.slice(2)));
+  }
+  return path;
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_EXCLUDES,
+  parseListInput,
+  parseMaxDepth,
+  parsePjConfig,
+  parsePjConfigSettings,
+  readPjConfigSettings,
+  updatePjConfig,
+  writePjConfig,
+} from "./pj-config";
+
+describe("parsePjConfig", () => {
+  it("reads paths, markers, exclude and max_depth", () => {
+    const config = parsePjConfig(`
+paths:
+  - ~/development
+  - ~/projects
+markers:
+  - .git
+  - go.mod
+exclude:
+  - node_modules
+max_depth: 5
+`);
+
+    expect(config).toEqual({
+      paths: ["~/development", "~/projects"],
+      markers: [".git", "go.mod"],
+      exclude: ["node_modules"],
+      maxDepth: 5,
+    });
+  });
+
+  it("falls back to the default excludes", () => {
+    expect(parsePjConfig("paths: [~/dev]").exclude).toEqual(DEFAULT_EXCLUDES);
+  });
+
+  it("handles an empty config", () => {
+    expect(parsePjConfig("")).toEqual({ paths: [], markers: [], exclude: DEFAULT_EXCLUDES, maxDepth: undefined });
+  });
+
+  it("ignores values of the wrong type", () => {
+    const config = parsePjConfig("paths: ~/dev\nmarkers: [1, .git]\nmax_depth: deep\n");
+    expect(config.paths).toEqual([]);
+    expect(config.markers).toEqual([".git"]);
+    expect(config.maxDepth).toBeUndefined();
+  });
+});
+
+describe("parsePjConfigSettings", () => {
+  it("leaves unset lists empty instead of applying defaults", () => {
+    expect(parsePjConfigSettings("paths: [~/dev]")).toEqual({
+      paths: ["~/dev"],
+      markers: [],
+      exclude: [],
+      maxDepth: undefined,
+    });
+  });
+});
+
+describe("updatePjConfig", () => {
+  const config = `# pj configuration
+paths:
+  - ~/development # main checkout
+  # old work projects
+  - ~/work
+markers:
+  - .git
+exclude: [node_modules, vendor]
+max_depth: 5 # deep enough for monorepos
+icons:
+  go.mod: go
+`;
+
+  it("returns the same text when nothing changes", () => {
+    expect(updatePjConfig(config, parsePjConfigSettings(config))).toBe(config);
+  });
+
+  it("keeps comments, unknown keys and the way kept roots were written", () => {
+    const updated = updatePjConfig(config, {
+      paths: [join(homedir(), "development"), "/srv/code"],
+      markers: [".git", "go.mod"],
+      exclude: ["node_modules", "vendor", "target"],
+      maxDepth: 3,
+    });
+
+    expect(updated).toBe(`# pj configuration
+paths:
+  - ~/development # main checkout
+  - /srv/code
+markers:
+  - .git
+  - go.mod
+exclude: [node_modules, vendor, target]
+max_depth: 3 # deep enough for monorepos
+icons:
+  go.mod: go
+`);
+    expect(parsePjConfigSettings(updated)).toEqual({
+      paths: ["~/development", "/srv/code"],
+      markers: [".git", "go.mod"],
+      exclude: ["node_modules", "vendor", "target"],
+      maxDepth: 3,
+    });
+  });
+
+  it("removes keys that go back to pj's defaults", () => {
+    const updated = updatePjConfig(config, { paths: ["~/work"], markers: [], exclude: [], maxDepth: undefined });
+    expect(updated).not.toContain("markers");
+    expect(updated).not.toContain("exclude");
+    expect(updated).not.toContain("max_depth");
+    expect(updated).toContain("  # old work projects\n  - ~/work\n");
+    expect(updated).toContain("icons:");
+  });
+
+  it("creates settings in an empty or comment-only config", () => {
+    const settings = { paths: ["~/dev"], markers: [".git"], exclude: [], maxDepth: 2 };
+    expect(parsePjConfigSettings(updatePjConfig("", settings))).toEqual(settings);
+    const commented = updatePjConfig("# managed by hand\n", settings);
+    expect(commented.startsWith("# managed by hand\n")).toBe(true);
+    expect(parsePjConfigSettings(commented)).toEqual(settings);
+  });
+
+  it("refuses to overwrite invalid YAML or a non-mapping config", () => {
+    const settings = { paths: [], markers: [], exclude: [], maxDepth: undefined };
+    expect(() => updatePjConfig("paths: [~/dev\n", settings)).toThrow(/not valid YAML/);
+    expect(() => updatePjConfig("- ~/dev\n", settings)).toThrow(/mapping/);
+  });
+});
+
+describe("writePjConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("creates the config and its directory", async () => {
+    const path = join(dir, "pj", "config.yaml");
+    await writePjConfig({ paths: ["~/dev"], markers: [], exclude: [], maxDepth: undefined }, path);
+    expect(readFileSync(path, "utf8")).toBe("paths:\n  - ~/dev\n");
+    expect((await readPjConfigSettings(path)).paths).toEqual(["~/dev"]);
+  });
+
+  it("updates an existing config in place", async () => {
+    const path = join(dir, "config.yaml");
+    writeFileSync(path, "# roots\npaths: [~/dev]\n");
+    await writePjConfig({ paths: ["~/dev"], markers: [], exclude: [], maxDepth: 4 }, path);
+    expect(readFileSync(path, "utf8")).toBe("# roots\npaths: [~/dev]\nmax_depth: 4\n");
+  });
+});
+
+describe("parseListInput", () => {
+  it("splits lines and commas, dropping blanks and duplicates", () => {
+    expect(parseListInput(".git\n package.json, go.mod\n\n.git")).toEqual([".git", "package.json", "go.mod"]);
+  });
+});
+
+describe("parseMaxDepth", () => {
+  it("accepts positive integers and empty input", () => {
+    expect(parseMaxDepth(" 4 ")).toEqual({ maxDepth: 4 });
+    expect(parseMaxDepth("")).toEqual({});
+  });
+
+  it("rejects anything else", () => {
+    expect(parseMaxDepth("0").error).toBeDefined();
+    expect(parseMaxDepth("2.5").error).toBeDefined();
+    expect(parseMaxDepth("deep").error).toBeDefined();
+  });
+});
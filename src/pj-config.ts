@@ -0,0 +1,151 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { isMap, isScalar, isSeq, parse, parseDocument, type Document } from "yaml";
+import { MARKER_TYPES } from "./markers";
+import { expandHomePath, isSamePath } from "./paths";
+
+// Directories pj skips when no exclude list is configured
+export const DEFAULT_EXCLUDES = ["node_modules", ".git", "vendor", "target", "dist", "build", ".venv", "__pycache__"];
+
+// Markers and depth pj uses when config.yaml doesn't set them
+export const DEFAULT_MARKERS = Object.keys(MARKER_TYPES);
+export const DEFAULT_MAX_DEPTH = 3;
+
+export interface PjConfig {
+  paths: string[];
+  markers: string[];
+  exclude: string[];
+  maxDepth?: number;
+}
+
+// Location of pj's config file, honoring XDG_CONFIG_HOME like pj itself
+export function getPjConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "pj", "config.yaml");
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+// The settings the extension edits, exactly as written (empty lists mean pj's defaults)
+export function parsePjConfigSettings(contents: string): PjConfig {
+  const raw = parse(contents) ?? {};
+  return {
+    paths: stringList(raw.paths),
+    markers: stringList(raw.markers),
+    exclude: stringList(raw.exclude),
+    maxDepth: typeof raw.max_depth === "number" ? raw.max_depth : undefined,
+  };
+}
+
+// Parse the subset of pj's config the extension cares about
+export function parsePjConfig(contents: string): PjConfig {
+  const settings = parsePjConfigSettings(contents);
+  return { ...settings, exclude: settings.exclude.length > 0 ? settings.exclude : DEFAULT_EXCLUDES };
+}
+
+// Replace a list, reusing the existing item nodes (and their comments) for values that are kept
+function updateList(document: Document, key: string, values: string[], same: (a: string, b: string) => boolean) {
+  if (values.length === 0) {
+    document.delete(key);
+    return;
+  }
+  const existing = document.get(key, true);
+  if (!isSeq(existing)) {
+    document.set(key, document.createNode(values));
+    return;
+  }
+  existing.items = values.map(
+    (value) =>
+      existing.items.find((item) => isScalar(item) && typeof item.value === "string" && same(item.value, value)) ??
+      document.createNode(value),
+  );
+}
+
+// Write the settings into config.yaml's contents, keeping comments, key order and every other key.
+// Empty lists and an undefined max depth remove the key so pj falls back to its defaults.
+export function updatePjConfig(contents: string, settings: PjConfig): string {
+  const document = parseDocument(contents);
+  if (document.errors.length > 0) {
+    throw new Error(`config.yaml is not valid YAML: ${document.errors[0].message}`);
+  }
+  if (document.contents !== null && !isMap(document.contents)) {
+    throw new Error("config.yaml must contain a mapping of settings");
+  }
+
+  // "~/code" and "/Users/me/code" are the same root, so the way it was written is kept
+  updateList(document, "paths", settings.paths, (a, b) => isSamePath(expandHomePath(a), expandHomePath(b)));
+  updateList(document, "markers", settings.markers, (a, b) => a === b);
+  updateList(document, "exclude", settings.exclude, (a, b) => a === b);
+  if (settings.maxDepth === undefined) {
+    document.delete("max_depth");
+  } else {
+    document.set("max_depth", settings.maxDepth);
+  }
+  // Match how flow lists are usually written by hand: [a, b] rather than [ a, b ]
+  return document.toString({ flowCollectionPadding: false });
+}
+
+// Entries of a one-per-line (or comma-separated) form field, without blanks and duplicates
+export function parseListInput(text: string): string[] {
+  const entries = text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return Array.from(new Set(entries));
+}
+
+// Max depth from a form field: undefined when empty, an error message when it isn't a positive integer
+export function parseMaxDepth(text: string): { maxDepth?: number; error?: string } {
+  const value = text.trim();
+  if (!value) return {};
+  return /^\d+$/.test(value) && Number(value) > 0
+    ? { maxDepth: Number(value) }
+    : { error: "Enter a whole number greater than 0" };
+}
+
+// Read pj's config, falling back to defaults when it is missing or invalid
+export async function readPjConfig(configPath: string = getPjConfigPath()): Promise<PjConfig> {
+  try {
+    return parsePjConfig(await readFile(configPath, "utf8"));
+  } catch {
+    return parsePjConfig("");
+  }
+}
+
+// Settings as written in pj's config, or empty settings when it is missing
+export async function readPjConfigSettings(configPath: string = getPjConfigPath()): Promise<PjConfig> {
+  try {
+    return parsePjConfigSettings(await readFile(configPath, "utf8"));
+  } catch {
+    return parsePjConfigSettings("");
+  }
+}
+
+// Save settings to pj's config, creating it if needed and replacing it atomically
+export async function writePjConfig(settings: PjConfig, configPath: string = getPjConfigPath()): Promise<void> {
+  let contents = "";
+  try {
+    contents = await readFile(configPath, "utf8");
+  } catch {
+    // No config yet
+  }
+  const temporary = `${configPath}.${process.pid}.tmp`;
+  await mkdir(dirname(configPath), { recursive: true });
+  await writeFile(temporary, updatePjConfig(contents, settings));
+  await rename(temporary, configPath);
+}
+
+// Fingerprint of the pj config so cached results can be invalidated when it changes
+export async function hashPjConfig(configPath: string = getPjConfigPath()): Promise<string> {
+  let contents = "";
+  try {
+    contents = await readFile(configPath, "utf8");
+  } catch {
+    // A missing config means pj runs with its defaults
+  }
+  return createHash("sha256").update(contents).digest("hex").slice(0, 16);
+}
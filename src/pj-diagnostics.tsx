@@ -0,0 +1,162 @@
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  environment,
+  Form,
+  getPreferenceValues,
+  Icon,
+  launchCommand,
+  LaunchType,
+  useNavigation,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { readdir, stat } from "fs/promises";
+import { useState } from "react";
+import { readRefreshLog } from "./background-refresh";
+import { describeBinary } from "./binary";
+import {
+  explainPath,
+  formatDiagnosticsReport,
+  resolveEffectiveConfig,
+  type EffectiveConfig,
+  type PathFacts,
+} from "./diagnostics";
+import { discoverProjects } from "./discovery";
+import { expandHomePath } from "./paths";
+import { getPjConfigPath, readPjConfig } from "./pj-config";
+import type { Preferences, Project } from "./types";
+import { formatDisplayPath } from "./utils";
+
+interface DiagnosticsResult {
+  markdown: string;
+  config: EffectiveConfig;
+  projects: Project[];
+}
+
+async function runDiagnostics(pjPath: string | undefined, cacheTtl: string): Promise<DiagnosticsResult> {
+  const config = resolveEffectiveConfig(await readPjConfig());
+  const started = Date.now();
+  const { projects, binary } = await discoverProjects({
+    pjPath,
+    cacheDir: environment.supportPath,
+    maxAgeMs: Number(cacheTtl) * 60 * 1000,
+    force: true,
+  });
+  const markdown = formatDiagnosticsReport({
+    binaryDescription: describeBinary(binary),
+    binaryPath: binary.path,
+    configPath: getPjConfigPath(),
+    config,
+    durationMs: Date.now() - started,
+    projects,
+    refreshLog: await readRefreshLog(environment.supportPath),
+  });
+  return { markdown, config, projects };
+}
+
+async function readPathFacts(path: string): Promise<PathFacts> {
+  try {
+    const stats = await stat(path);
+    return { exists: true, isDirectory: stats.isDirectory(), entries: stats.isDirectory() ? await readdir(path) : [] };
+  } catch {
+    return { exists: false, isDirectory: false, entries: [] };
+  }
+}
+
+function WhyNotFoundForm({ config, projects }: { config: EffectiveConfig; projects: Project[] }) {
+  const { push } = useNavigation();
+  const [pathError, setPathError] = useState<string>();
+
+  async function handleSubmit(values: { path: string }) {
+    const path = expandHomePath(values.path.trim());
+    if (!path) {
+      setPathError("Enter the path of the missing project");
+      return;
+    }
+    const explanation = explainPath(
+      path,
+      config,
+      await readPathFacts(path),
+      projects.map((project) => project.path),
+    );
+    push(
+      <Detail
+        navigationTitle="Why Not Found?"
+        markdown={`# ${explanation.title}\n\n\`${formatDisplayPath(path)}\`\n\n${explanation.detail}`}
+        actions={
+          <ActionPanel>
+            <Action
+              title="Configure PJ"
+              icon={Icon.Gear}
+              onAction={() => launchCommand({ name: "configure-pj", type: LaunchType.UserInitiated })}
+            />
+            <Action.CopyToClipboard title="Copy Explanation" content={`${path}: ${explanation.detail}`} />
+          </ActionPanel>
+        }
+      />,
+    );
+  }
+
+  return (
+    <Form
+      navigationTitle="Why Not Found?"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Explain" icon={Icon.QuestionMarkCircle} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="path"
+        title="Project Path"
+        placeholder="~/code/my-project"
+        error={pathError}
+        onChange={() => setPathError(undefined)}
+        info="The directory you expected pj to list"
+      />
+    </Form>
+  );
+}
+
+export default function PjDiagnostics() {
+  const { pjPath, cacheTtl } = getPreferenceValues<Preferences>();
+  const { data, isLoading, error, revalidate } = usePromise(runDiagnostics, [pjPath, cacheTtl]);
+
+  const markdown = error ? `# PJ Diagnostics\n\nDiscovery failed: ${error.message}` : (data?.markdown ?? "");
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          {data && (
+            <Action.Push
+              title="Why Not Found?"
+              icon={Icon.QuestionMarkCircle}
+              target={<WhyNotFoundForm config={data.config} projects={data.projects} />}
+            />
+          )}
+          <Action
+            title="Run Again"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={revalidate}
+          />
+          <Action.CopyToClipboard
+            title="Copy Report"
+            content={markdown}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          <Action
+            title="Configure PJ"
+            icon={Icon.Gear}
+            shortcut={{ modifiers: ["cmd"], key: "," }}
+            onAction={() => launchCommand({ name: "configure-pj", type: LaunchType.UserInitiated })}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,432 @@
+import { Action, ActionPanel, Application, Icon, open, showToast, Toast } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { execFile } from "child_process";
+import { useState, type ReactNode } from "react";
+import { promisify } from "util";
+import { homedir } from "os";
+import { buildInvocation, type CustomAction } from "./custom-actions";
+import { chooseEditor, type EditorRule } from "./editor-rules";
+import { formatProjectType } from "./markers";
+import { includesPath } from "./paths";
+import { loadProjectTasks, TASK_SOURCE_TITLES } from "./tasks";
+import { ProjectSetForm } from "./project-set-form";
+import { setSetMembership } from "./stored-data";
+import { TagForm } from "./tag-form";
+import { openProjectInTerminal, type TerminalChoice } from "./open-projects";
+import { StartupCommandForm } from "./startup-command-form";
+import { findTerminalAdapter } from "./terminal";
+import type { Preferences, Project, ProjectTask, TaskSource } from "./types";
+import { addToRecentProjects, FILE_MANAGER_NAME, saveEditorOverride, saveProjectSets } from "./utils";
+import { loadWorkspacePackages } from "./monorepo";
+import { workspaceActions } from "./workspace-actions";
+import { WorkspacePackages } from "./workspace-packages";
+import { detectWorkspaces } from "./workspaces";
+
+const execFileAsync = promisify(execFile);
+
+type OpenActionId = Preferences["defaultAction"];
+
+interface ActionContext {
+  project: Project;
+  terminal: TerminalChoice;
+  editorApp: Application | undefined;
+  // Why editorApp was chosen over the Editor Application preference
+  editorReason?: string;
+}
+
+// Built-in open actions, keyed by the ids used in the "Default Action" preference
+const OPEN_ACTIONS: Record<OpenActionId, (context: ActionContext) => ReactNode> = {
+  finder: ({ project }) => (
+    <Action.ShowInFinder
+      key="finder"
+      title={`Show in ${FILE_MANAGER_NAME}`}
+      path={project.path}
+      shortcut={{ modifiers: ["cmd"], key: "f" }}
+    />
+  ),
+  editor: ({ project, editorApp, editorReason }) =>
+    editorApp ? (
+      <Action.Open
+        key="editor"
+        title={editorReason ? `Open in ${editorApp.name} (${editorReason})` : `Open in ${editorApp.name}`}
+        icon={Icon.Code}
+        target={project.path}
+        application={editorApp}
+        shortcut={{ modifiers: ["cmd"], key: "e" }}
+        onOpen={async () => {
+          await addToRecentProjects(project.path);
+        }}
+      />
+    ) : (
+      <Action
+        key="editor"
+        title="Open in Default Editor"
+        icon={Icon.Code}
+        shortcut={{ modifiers: ["cmd"], key: "e" }}
+        onAction={async () => {
+          await open(project.path);
+          await addToRecentProjects(project.path);
+        }}
+      />
+    ),
+  terminal: ({ project, terminal }) => {
+    const title = findTerminalAdapter(terminal.terminalName)?.title ?? terminal.terminalApp?.name;
+    return title ? (
+      <Action
+        key="terminal"
+        title={`Open in ${title}`}
+        icon={Icon.Terminal}
+        shortcut={{ modifiers: ["cmd"], key: "t" }}
+        onAction={() => runInTerminal(project, terminal)}
+      />
+    ) : (
+      <Action.OpenWith key="terminal" path={project.path} shortcut={{ modifiers: ["cmd"], key: "t" }} />
+    );
+  },
+  copy: ({ project }) => (
+    <Action.CopyToClipboard
+      key="copy"
+      title="Copy Path"
+      content={project.path}
+      shortcut={{ modifiers: ["cmd"], key: "c" }}
+    />
+  ),
+};
+
+// Order of the open actions for each default action; the first one runs on Enter
+const OPEN_ACTION_ORDER: Record<OpenActionId, OpenActionId[]> = {
+  finder: ["finder", "editor", "terminal", "copy"],
+  editor: ["editor", "finder", "terminal", "copy"],
+  terminal: ["terminal", "finder", "editor", "copy"],
+  copy: ["copy", "finder", "editor", "terminal"],
+};
+
+async function runCustomAction(action: CustomAction, project: Project) {
+  const toast = await showToast({ style: Toast.Style.Animated, title: action.title });
+  try {
+    const { file, args, cwd } = buildInvocation(action, project);
+    await execFileAsync(file, args, { cwd, timeout: 60000 });
+    await addToRecentProjects(project.path);
+    toast.style = Toast.Style.Success;
+  } catch (error) {
+    toast.style = Toast.Style.Failure;
+    toast.title = `Failed: ${action.title}`;
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    toast.message = stderr || (error instanceof Error ? error.message : "Unknown error");
+  }
+}
+
+async function runInTerminal(project: Project, terminal: TerminalChoice, command?: string) {
+  try {
+    await openProjectInTerminal(project, terminal, { command });
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: command ? `Failed to run ${command}` : "Failed to open terminal",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+// Tasks from the project's build files, loaded when the submenu opens
+function RunTaskSubmenu({ project, terminal }: { project: Project; terminal: TerminalChoice }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: tasks, isLoading } = useCachedPromise(loadProjectTasks, [project.path], { execute: isOpen });
+
+  const sections = new Map<TaskSource, ProjectTask[]>();
+  for (const task of tasks ?? []) {
+    sections.set(task.source, [...(sections.get(task.source) ?? []), task]);
+  }
+
+  return (
+    <ActionPanel.Submenu
+      title="Run Task…"
+      icon={Icon.Play}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+      isLoading={isLoading}
+      onOpen={() => setIsOpen(true)}
+    >
+      {Array.from(sections, ([source, sourceTasks]) => (
+        <ActionPanel.Section key={source} title={TASK_SOURCE_TITLES[source]}>
+          {sourceTasks.map((task) => (
+            <Action
+              key={`${source}-${task.name}`}
+              title={task.name}
+              icon={Icon.Terminal}
+              onAction={() => runInTerminal(project, terminal, task.command)}
+            />
+          ))}
+        </ActionPanel.Section>
+      ))}
+      {tasks?.length === 0 && <Action title="No Tasks Found" icon={Icon.XMarkCircle} onAction={() => undefined} />}
+    </ActionPanel.Submenu>
+  );
+}
+
+interface AlwaysOpenWithSubmenuProps {
+  project: Project;
+  applications: Application[];
+  editorOverride?: string;
+  onChange: () => void;
+}
+
+// Installed applications, listed once the submenu opens rather than for every list item
+function AlwaysOpenWithSubmenu({ project, applications, editorOverride, onChange }: AlwaysOpenWithSubmenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <ActionPanel.Submenu
+      title="Always Open With…"
+      icon={Icon.Pin}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+      onOpen={() => setIsOpen(true)}
+    >
+      {editorOverride && (
+        <Action
+          title="Use Editor Rules"
+          icon={Icon.PinDisabled}
+          onAction={async () => {
+            await saveEditorOverride(project.path, undefined);
+            onChange();
+          }}
+        />
+      )}
+      {isOpen &&
+        applications.map((application) => (
+          <Action
+            key={application.path}
+            title={application.name}
+            icon={{ fileIcon: application.path }}
+            onAction={async () => {
+              await saveEditorOverride(project.path, application);
+              onChange();
+            }}
+          />
+        ))}
+    </ActionPanel.Submenu>
+  );
+}
+
+interface ProjectActionsProps {
+  project: Project;
+  preferences: Preferences;
+  terminalApp: Application | undefined;
+  editorApp: Application | undefined;
+  // Installed applications and editor rules, for per-project editor selection
+  applications?: Application[];
+  editorRules?: EditorRule[];
+  // Application path from "Always open with…"
+  editorOverride?: string;
+  customActions: CustomAction[];
+  // Overrides the "Default Action" preference for commands with a fixed primary action
+  defaultAction?: OpenActionId;
+  isFavorite?: boolean;
+  // The project's tags and every tag in use, for the tag form
+  tags?: string[];
+  allTags?: string[];
+  // Project sets by name, for editing this project's membership
+  sets?: Record<string, string[]>;
+  // Command run when the project opens in the terminal
+  startupCommand?: string;
+  isShowingDetail: boolean;
+  // Every list item renders its actions, so only the selected one scans for workspaces and packages
+  isSelected?: boolean;
+  // Multi-select: whether the project is marked, and the actions over every marked project
+  isMarked?: boolean;
+  selectionActions?: ReactNode;
+  onToggleMarked?: () => void;
+  onRefresh: () => void;
+  onToggleFavorite?: () => void;
+  onTagsChange?: () => void;
+  onSetsChange?: () => void;
+  onStartupCommandChange?: () => void;
+  onEditorOverrideChange?: () => void;
+  onToggleDetail: () => void;
+  // Command-specific actions, shown with the project management actions
+  children?: ReactNode;
+}
+
+// Action panel shared by all project lists
+export function ProjectActions({
+  project,
+  preferences,
+  terminalApp,
+  editorApp,
+  applications = [],
+  editorRules = [],
+  editorOverride,
+  customActions,
+  defaultAction,
+  isFavorite,
+  tags = [],
+  allTags = [],
+  sets = {},
+  startupCommand,
+  isShowingDetail,
+  isSelected = false,
+  isMarked,
+  selectionActions,
+  onToggleMarked,
+  onRefresh,
+  onToggleFavorite,
+  onTagsChange,
+  onSetsChange,
+  onStartupCommandChange,
+  onEditorOverrideChange,
+  onToggleDetail,
+  children,
+}: ProjectActionsProps) {
+  const editor = chooseEditor({
+    project: { path: project.path, type: formatProjectType(project.marker) },
+    override: editorOverride,
+    rules: editorRules,
+    applications,
+    defaultEditor: editorApp,
+    home: homedir(),
+  });
+  const terminal: TerminalChoice = {
+    terminalName: preferences.terminalApp || "Terminal",
+    terminalApp,
+    mode: preferences.terminalMode ?? "window",
+    commands: startupCommand ? { [project.path]: startupCommand } : {},
+  };
+  const context: ActionContext = {
+    project,
+    terminal,
+    editorApp: editor.application,
+    editorReason: editor.reason,
+  };
+  const { data: workspaces = [] } = useCachedPromise(detectWorkspaces, [project.path], { execute: isSelected });
+  const openWorkspaces = workspaceActions({ project, workspaces, applications, editorApp: editor.application });
+  const { data: packages = [] } = useCachedPromise(loadWorkspacePackages, [project.path], {
+    execute: preferences.expandMonorepos && isSelected,
+  });
+  const order = OPEN_ACTION_ORDER[defaultAction ?? preferences.defaultAction] ?? OPEN_ACTION_ORDER.finder;
+
+  return (
+    <ActionPanel>
+      <ActionPanel.Section title="Open Project">
+        {order.flatMap((id) => {
+          if (id !== "editor") return [OPEN_ACTIONS[id](context)];
+          // Workspaces sit next to the editor action, ahead of it when they should open by default
+          return preferences.openWorkspaces
+            ? [...openWorkspaces, OPEN_ACTIONS.editor(context)]
+            : [OPEN_ACTIONS.editor(context), ...openWorkspaces];
+        })}
+      </ActionPanel.Section>
+      {selectionActions}
+      {customActions.length > 0 && (
+        <ActionPanel.Section title="Custom Actions">
+          {customActions.map((action, index) => (
+            <Action
+              key={`custom-${index}`}
+              title={action.title}
+              icon={action.command ? Icon.Terminal : Icon.AppWindow}
+              shortcut={action.shortcut}
+              onAction={() => runCustomAction(action, project)}
+            />
+          ))}
+        </ActionPanel.Section>
+      )}
+      <ActionPanel.Section>
+        {preferences.expandMonorepos && packages.length > 0 && (
+          <Action.Push
+            title={`Show ${packages.length} Workspace Packages`}
+            icon={Icon.List}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            target={<WorkspacePackages parent={project} />}
+          />
+        )}
+        <RunTaskSubmenu project={project} terminal={terminal} />
+      </ActionPanel.Section>
+      <ActionPanel.Section>
+        {onToggleMarked && (
+          <Action
+            title={isMarked ? "Deselect Project" : "Select Project"}
+            icon={isMarked ? Icon.Circle : Icon.CheckCircle}
+            shortcut={{ modifiers: ["cmd"], key: "s" }}
+            onAction={onToggleMarked}
+          />
+        )}
+        {onToggleFavorite && (
+          <Action
+            title={isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+            icon={isFavorite ? Icon.StarDisabled : Icon.Star}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+            onAction={onToggleFavorite}
+          />
+        )}
+        {onTagsChange && (
+          <Action.Push
+            title="Edit Tags…"
+            icon={Icon.Tag}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+            target={<TagForm project={project} tags={tags} allTags={allTags} onSave={onTagsChange} />}
+          />
+        )}
+        {onSetsChange && (
+          <ActionPanel.Submenu
+            title="Project Sets…"
+            icon={Icon.Layers}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+          >
+            {Object.keys(sets)
+              .sort((a, b) => a.localeCompare(b))
+              .map((name) => {
+                const isMember = includesPath(sets[name], project.path);
+                return (
+                  <Action
+                    key={name}
+                    title={name}
+                    icon={isMember ? Icon.CheckCircle : Icon.Circle}
+                    onAction={async () => {
+                      await saveProjectSets(
+                        (data) => setSetMembership(data, name, project.path, !isMember),
+                        isMember ? `Removed from ${name}` : `Added to ${name}`,
+                      );
+                      onSetsChange();
+                    }}
+                  />
+                );
+              })}
+            <Action.Push
+              title="New Set…"
+              icon={Icon.Plus}
+              target={<ProjectSetForm project={project} onSave={onSetsChange} />}
+            />
+          </ActionPanel.Submenu>
+        )}
+        {onStartupCommandChange && (
+          <Action.Push
+            title={startupCommand ? "Edit Startup Command…" : "Set Startup Command…"}
+            icon={Icon.Terminal}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+            target={<StartupCommandForm project={project} command={startupCommand} onSave={onStartupCommandChange} />}
+          />
+        )}
+        <Action.OpenWith path={project.path} shortcut={{ modifiers: ["cmd", "shift"], key: "o" }} />
+        {onEditorOverrideChange && applications.length > 0 && (
+          <AlwaysOpenWithSubmenu
+            project={project}
+            applications={applications}
+            editorOverride={editorOverride}
+            onChange={onEditorOverrideChange}
+          />
+        )}
+        <Action
+          title={isShowingDetail ? "Hide Details" : "Show Details"}
+          icon={Icon.Sidebar}
+          shortcut={{ modifiers: ["cmd"], key: "d" }}
+          onAction={onToggleDetail}
+        />
+        {children}
+        <Action
+          title="Refresh Projects"
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={onRefresh}
+        />
+      </ActionPanel.Section>
+    </ActionPanel>
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addProjectToCache,
+  applyProjectDiff,
+  diffProjects,
+  isCacheFresh,
+  matchesCacheKey,
+  readProjectCache,
+  writeProjectCache,
+} from "./project-cache";
+import type { Project } from "./types";
+
+function project(name: string, marker = ".git"): Project {
+  return { name, path: `/Users/testuser/dev/${name}`, marker } as Project;
+}
+
+describe("diffProjects", () => {
+  it("detects added, removed and changed projects", () => {
+    const previous = [project("api"), project("web"), project("infra")];
+    const next = [project("api"), project("web", "package.json"), project("docs")];
+
+    const diff = diffProjects(previous, next);
+
+    expect(diff.added.map((p) => p.name)).toEqual(["docs"]);
+    expect(diff.removed.map((p) => p.name)).toEqual(["infra"]);
+    expect(diff.changed.map((p) => p.name)).toEqual(["web"]);
+  });
+
+  it("reports nothing for identical lists", () => {
+    const projects = [project("api"), project("web")];
+    expect(diffProjects(projects, [...projects])).toEqual({ added: [], removed: [], changed: [] });
+  });
+});
+
+describe("applyProjectDiff", () => {
+  it("keeps the existing order and appends new projects", () => {
+    const previous = [project("web"), project("api"), project("infra")];
+    const next = [project("docs"), project("api"), project("web")];
+
+    expect(applyProjectDiff(previous, next).map((p) => p.name)).toEqual(["web", "api", "docs"]);
+  });
+
+  it("replaces changed projects in place", () => {
+    const previous = [project("web"), project("api")];
+    const next = [project("web", "package.json"), project("api")];
+
+    const result = applyProjectDiff(previous, next);
+    expect(result[0].marker).toBe("package.json");
+  });
+
+  it("returns the previous array when nothing changed", () => {
+    const previous = [project("web")];
+    expect(applyProjectDiff(previous, [project("web")])).toBe(previous);
+  });
+
+  it("uses the fresh list when nothing was shown yet", () => {
+    const next = [project("web"), project("api")];
+    expect(applyProjectDiff([], next)).toEqual(next);
+  });
+});
+
+describe("cache freshness", () => {
+  const entry = {
+    version: 1 as const,
+    configHash: "abc",
+    binaryVersion: "1.6.3",
+    updatedAt: 1_000_000,
+    projects: [],
+  };
+
+  it("is fresh within the TTL", () => {
+    expect(isCacheFresh(entry, 60_000, 1_030_000)).toBe(true);
+  });
+
+  it("is stale after the TTL", () => {
+    expect(isCacheFresh(entry, 60_000, 1_060_000)).toBe(false);
+  });
+
+  it("is never fresh with a zero TTL", () => {
+    expect(isCacheFresh(entry, 0, 1_000_000)).toBe(false);
+  });
+
+  it("matches only the same config and binary version", () => {
+    expect(matchesCacheKey(entry, { configHash: "abc", binaryVersion: "1.6.3" })).toBe(true);
+    expect(matchesCacheKey(entry, { configHash: "def", binaryVersion: "1.6.3" })).toBe(false);
+    expect(matchesCacheKey(entry, { configHash: "abc", binaryVersion: "1.7.0" })).toBe(false);
+  });
+});
+
+describe("cache file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips projects", async () => {
+    const projects = [project("api")];
+    await writeProjectCache(dir, { configHash: "abc", binaryVersion: "1.6.3" }, projects, 42);
+
+    expect(await readProjectCache(dir)).toEqual({
+      version: 1,
+      configHash: "abc",
+      binaryVersion: "1.6.3",
+      updatedAt: 42,
+      projects,
+    });
+  });
+
+  it("creates the cache directory when missing", async () => {
+    const nested = join(dir, "support");
+    await writeProjectCache(nested, { configHash: "abc" }, []);
+    expect(await readProjectCache(nested)).toBeDefined();
+  });
+
+  it("adds a project to an existing cache, keeping its key and age", async () => {
+    await writeProjectCache(dir, { configHash: "abc", binaryVersion: "1.6.3" }, [project("api")], 42);
+
+    expect(await addProjectToCache(dir, project("web"))).toBe(true);
+    expect(await addProjectToCache(dir, project("web"))).toBe(false);
+    expect(await readProjectCache(dir)).toMatchObject({
+      configHash: "abc",
+      binaryVersion: "1.6.3",
+      updatedAt: 42,
+      projects: [project("api"), project("web")],
+    });
+  });
+
+  it("doesn't create a cache when adding a project", async () => {
+    expect(await addProjectToCache(dir, project("web"))).toBe(false);
+    expect(await readProjectCache(dir)).toBeUndefined();
+  });
+
+  it("ignores missing, corrupt and outdated cache files", async () => {
+    expect(await readProjectCache(dir)).toBeUndefined();
+
+    writeFileSync(join(dir, "projects-cache.json"), "{not json");
+    expect(await readProjectCache(dir)).toBeUndefined();
+
+    writeFileSync(join(dir, "projects-cache.json"), JSON.stringify({ version: 0, projects: [] }));
+    expect(await readProjectCache(dir)).toBeUndefined();
+  });
+});
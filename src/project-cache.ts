@@ -0,0 +1,117 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Project } from "./types";
+
+const CACHE_FILE = "projects-cache.json";
+const CACHE_VERSION = 1;
+
+export interface ProjectCacheEntry {
+  version: typeof CACHE_VERSION;
+  configHash: string;
+  binaryVersion?: string;
+  updatedAt: number;
+  projects: Project[];
+}
+
+export interface ProjectCacheKey {
+  configHash: string;
+  binaryVersion?: string;
+}
+
+export interface ProjectDiff {
+  added: Project[];
+  removed: Project[];
+  changed: Project[];
+}
+
+// Read the shared project cache, ignoring missing or outdated files
+export async function readProjectCache(cacheDir: string): Promise<ProjectCacheEntry | undefined> {
+  try {
+    const entry = JSON.parse(await readFile(join(cacheDir, CACHE_FILE), "utf8"));
+    if (entry?.version !== CACHE_VERSION || !Array.isArray(entry.projects)) {
+      return undefined;
+    }
+    return entry as ProjectCacheEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+// Write the cache atomically so concurrent commands never read a partial file
+export async function writeProjectCache(
+  cacheDir: string,
+  key: ProjectCacheKey,
+  projects: Project[],
+  now: number = Date.now(),
+): Promise<ProjectCacheEntry> {
+  const entry: ProjectCacheEntry = { version: CACHE_VERSION, ...key, updatedAt: now, projects };
+  const target = join(cacheDir, CACHE_FILE);
+  const temporary = `${target}.${process.pid}.tmp`;
+
+  await mkdir(cacheDir, { recursive: true });
+  await writeFile(temporary, JSON.stringify(entry));
+  await rename(temporary, target);
+  return entry;
+}
+
+// Add a project to the cache without a rescan (e.g. after cloning it), keeping the entry's key and age.
+// Does nothing when there is no cache yet or it already has the project.
+export async function addProjectToCache(cacheDir: string, project: Project): Promise<boolean> {
+  const entry = await readProjectCache(cacheDir);
+  if (!entry || entry.projects.some((cached) => cached.path === project.path)) {
+    return false;
+  }
+  const key = { configHash: entry.configHash, binaryVersion: entry.binaryVersion };
+  await writeProjectCache(cacheDir, key, [...entry.projects, project], entry.updatedAt);
+  return true;
+}
+
+// Whether a cache entry was produced by the same pj config and binary version
+export function matchesCacheKey(entry: ProjectCacheEntry, key: ProjectCacheKey): boolean {
+  return entry.configHash === key.configHash && entry.binaryVersion === key.binaryVersion;
+}
+
+// Whether a cache entry is younger than the configured TTL
+export function isCacheFresh(entry: ProjectCacheEntry, maxAgeMs: number, now: number = Date.now()): boolean {
+  return maxAgeMs > 0 && now - entry.updatedAt < maxAgeMs;
+}
+
+function projectsEqual(a: Project, b: Project): boolean {
+  return a.name === b.name && a.marker === b.marker && a.icon === b.icon;
+}
+
+// Compare two discovery results by project path
+export function diffProjects(previous: Project[], next: Project[]): ProjectDiff {
+  const previousByPath = new Map(previous.map((project) => [project.path, project]));
+  const nextPaths = new Set(next.map((project) => project.path));
+
+  const added: Project[] = [];
+  const changed: Project[] = [];
+  for (const project of next) {
+    const existing = previousByPath.get(project.path);
+    if (!existing) {
+      added.push(project);
+    } else if (!projectsEqual(existing, project)) {
+      changed.push(project);
+    }
+  }
+  const removed = previous.filter((project) => !nextPaths.has(project.path));
+
+  return { added, removed, changed };
+}
+
+// Apply a fresh discovery result to the displayed list, keeping existing order stable
+export function applyProjectDiff(previous: Project[], next: Project[]): Project[] {
+  const { added, removed, changed } = diffProjects(previous, next);
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+    return previous;
+  }
+
+  const removedPaths = new Set(removed.map((project) => project.path));
+  const changedByPath = new Map(changed.map((project) => [project.path, project]));
+  const kept = previous
+    .filter((project) => !removedPaths.has(project.path))
+    .map((project) => changedByPath.get(project.path) ?? project);
+
+  return [...kept, ...added];
+}
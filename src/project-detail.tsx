@@ -0,0 +1,70 @@
+import { Color, List } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { formatProjectType } from "./markers";
+import { loadProjectDetails } from "./project-details";
+import type { GitStatus, Project } from "./types";
+import { formatDisplayPath, formatRelativeDate } from "./utils";
+
+interface ProjectDetailProps {
+  project: Project;
+}
+
+function formatSync(git: GitStatus): string {
+  if (!git.upstream) return "No upstream";
+  if (git.ahead === 0 && git.behind === 0) return `Up to date with ${git.upstream}`;
+  return `↑${git.ahead} ↓${git.behind} (${git.upstream})`;
+}
+
+// Detail pane for the selected project; results are cached per path so scrolling back is instant
+export function ProjectDetail({ project }: ProjectDetailProps) {
+  const { data, isLoading } = useCachedPromise(loadProjectDetails, [project], { keepPreviousData: false });
+
+  const git = data?.git;
+  const markdown = data?.readme ?? (data ? `# ${project.name}\n\n_No README found._` : "");
+
+  return (
+    <List.Item.Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Path" text={formatDisplayPath(project.path)} />
+          <List.Item.Detail.Metadata.Label title="Type" text={formatProjectType(project.marker)} />
+          {data && data.markers.length > 0 && (
+            <List.Item.Detail.Metadata.TagList title="Markers">
+              {data.markers.map((marker) => (
+                <List.Item.Detail.Metadata.TagList.Item key={marker} text={marker} />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {git && (
+            <>
+              <List.Item.Detail.Metadata.Separator />
+              <List.Item.Detail.Metadata.Label
+                title="Branch"
+                text={git.detached ? "Detached HEAD" : (git.branch ?? "Unknown")}
+              />
+              <List.Item.Detail.Metadata.Label title="Sync" text={formatSync(git)} />
+              <List.Item.Detail.Metadata.TagList title="Working Tree">
+                <List.Item.Detail.Metadata.TagList.Item
+                  text={git.dirty === 0 ? "Clean" : `${git.dirty} changed ${git.dirty === 1 ? "file" : "files"}`}
+                  color={git.dirty === 0 ? Color.Green : Color.Orange}
+                />
+              </List.Item.Detail.Metadata.TagList>
+              {git.lastCommit && (
+                <>
+                  <List.Item.Detail.Metadata.Label title="Last Commit" text={git.lastCommit.subject} />
+                  <List.Item.Detail.Metadata.Label title="Author" text={git.lastCommit.author} />
+                  <List.Item.Detail.Metadata.Label
+                    title="Date"
+                    text={formatRelativeDate(new Date(git.lastCommit.date))}
+                  />
+                </>
+              )}
+            </>
+          )}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
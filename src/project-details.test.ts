@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { extractReadmeIntro, loadProjectDetails } from "./project-details";
+import type { Project } from "./types";
+
+describe("extractReadmeIntro", () => {
+  it("stops at the second heading", () => {
+    const readme = "# My App\n\nDoes things.\n\n## Installation\n\nnpm install\n";
+    expect(extractReadmeIntro(readme)).toBe("# My App\n\nDoes things.");
+  });
+
+  it("keeps consecutive headings before any content", () => {
+    const readme = "# My App\n## A tagline\n\nDoes things.\n\n## Usage\n";
+    expect(extractReadmeIntro(readme)).toBe("# My App\n## A tagline\n\nDoes things.");
+  });
+
+  it("ignores headings inside code fences", () => {
+    const readme = "# Tool\n\n```sh\n# comment\nrun\n```\n\n## Next\n";
+    expect(extractReadmeIntro(readme)).toBe("# Tool\n\n```sh\n# comment\nrun\n```");
+  });
+
+  it("truncates long intros at a paragraph boundary", () => {
+    const readme = `# Long\n\n${"a".repeat(60)}\n\n${"b".repeat(60)}`;
+    expect(extractReadmeIntro(readme, 100)).toBe(`# Long\n\n${"a".repeat(60)}\n\n…`);
+  });
+
+  it("closes a code fence left open by truncation", () => {
+    const readme = `# Code\n\n\`\`\`\n${"x".repeat(200)}\n\`\`\``;
+    const intro = extractReadmeIntro(readme, 50);
+    expect(intro.match(/```/g)).toHaveLength(2);
+  });
+
+  it("normalizes Windows line endings", () => {
+    expect(extractReadmeIntro("# A\r\n\r\nText\r\n\r\n## B\r\n")).toBe("# A\n\nText");
+  });
+});
+
+describe("loadProjectDetails", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pj-details-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds marker files and the README", async () => {
+    writeFileSync(join(dir, "package.json"), "{}");
+    writeFileSync(join(dir, "Makefile"), "all:");
+    writeFileSync(join(dir, "README.md"), "# Demo\n\nHello.\n\n## More\n");
+    mkdirSync(join(dir, "src"));
+
+    const details = await loadProjectDetails({ name: "demo", path: dir, marker: "package.json" } as Project);
+
+    expect(details.markers).toEqual(["Makefile", "package.json"]);
+    expect(details.readme).toBe("# Demo\n\nHello.");
+  });
+
+  it("handles projects without a README", async () => {
+    const details = await loadProjectDetails({ name: "demo", path: dir, marker: "go.mod" } as Project);
+    expect(details.readme).toBeUndefined();
+    expect(details.markers).toEqual([]);
+  });
+
+  it("handles missing directories", async () => {
+    const details = await loadProjectDetails({ name: "gone", path: join(dir, "gone"), marker: ".git" } as Project);
+    expect(details).toEqual({ git: undefined, readme: undefined, markers: [] });
+  });
+});
@@ -0,0 +1,84 @@
+import { open, readdir } from "fs/promises";
+import { join } from "path";
+import { getGitStatus } from "./git";
+import { MARKER_TYPES } from "./markers";
+import type { Project, ProjectDetails } from "./types";
+
+const README_PATTERN = /^readme(\.(md|markdown|txt|rst))?$/i;
+
+// Only the start of the README is rendered, so never read more than this
+const README_READ_BYTES = 16 * 1024;
+
+export const README_INTRO_LENGTH = 1500;
+
+// The README up to its second heading, cut at a paragraph boundary when too long
+export function extractReadmeIntro(markdown: string, maxLength: number = README_INTRO_LENGTH): string {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const intro: string[] = [];
+  let headings = 0;
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^#{1,6}\s/.test(line)) {
+      headings += 1;
+      if (headings > 1 && intro.some((l) => l.trim() && !/^#{1,6}\s/.test(l))) {
+        break;
+      }
+    }
+    intro.push(line);
+  }
+
+  let text = intro.join("\n").trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  text = text.slice(0, maxLength);
+  const paragraphEnd = text.lastIndexOf("\n\n");
+  if (paragraphEnd > maxLength / 2) {
+    text = text.slice(0, paragraphEnd);
+  }
+  // Don't leave a code fence open after truncating
+  if ((text.match(/^\s*(```|~~~)/gm) ?? []).length % 2 === 1) {
+    text += "\n```";
+  }
+  return `${text.trimEnd()}\n\n…`;
+}
+
+async function readHead(path: string, bytes: number): Promise<string> {
+  const handle = await open(path, "r");
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead).toString("utf8");
+  } finally {
+    await handle.close();
+  }
+}
+
+// Collect git status, README intro and marker files for the detail pane
+export async function loadProjectDetails(project: Project): Promise<ProjectDetails> {
+  let entries: string[] = [];
+  try {
+    entries = await readdir(project.path);
+  } catch {
+    // Unreadable directory: still show what pj told us
+  }
+
+  const markers = entries.filter((entry) => entry in MARKER_TYPES || entry === project.marker).sort();
+  const readmeFile = entries.find((entry) => README_PATTERN.test(entry));
+
+  const [git, readme] = await Promise.all([
+    // Sub-projects of a repository have no .git of their own, so always ask git
+    getGitStatus(project.path),
+    readmeFile
+      ? readHead(join(project.path, readmeFile), README_READ_BYTES)
+          .then((contents) => extractReadmeIntro(contents))
+          .catch(() => undefined)
+      : Promise.resolve(undefined),
+  ]);
+
+  return { git, readme, markers };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { searchProjects, type ProjectSearchData } from "./project-search";
+import type { Project } from "./types";
+
+const HOME = "/Users/me";
+
+const projects: Project[] = [
+  { name: "api", path: "/Users/me/code/api", marker: "go.mod" },
+  { name: "app", path: "/Users/me/code/app", marker: "package.json" },
+  { name: "web", path: "/Users/me/work/web", marker: "package.json" },
+];
+
+const data: ProjectSearchData = {
+  favorites: ["/Users/me/code/app"],
+  history: [],
+  tags: { "/Users/me/work/web": ["client"] },
+};
+
+const names = (query: string, searchData: ProjectSearchData = data) =>
+  searchProjects(projects, query, searchData, HOME).map((result) => result.item.name);
+
+describe("searchProjects", () => {
+  it("keeps favorites with fav: and hides them with fav:no", () => {
+    expect(names("fav:")).toEqual(["app"]);
+    expect(names("fav:no")).toEqual(["api", "web"]);
+  });
+
+  it("boosts favorites among equal matches", () => {
+    expect(names("ap")).toEqual(["app", "api"]);
+    expect(names("ap", { ...data, favorites: [] })).toEqual(["api", "app"]);
+  });
+
+  it("applies the type:, tag: and path: operators", () => {
+    expect(names("type:npm")).toEqual(["app", "web"]);
+    expect(names("tag:client")).toEqual(["web"]);
+    expect(names("path:~/code")).toEqual(["api", "app"]);
+  });
+});
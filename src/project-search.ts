@@ -0,0 +1,34 @@
+import { collapseHomePath } from "./data-transfer";
+import { scoreHistory } from "./frecency";
+import { searchItems, type SearchResult } from "./fuzzy";
+import { formatProjectType } from "./markers";
+import { includesPath, pathKey } from "./paths";
+import type { Project, ProjectHistoryEntry } from "./types";
+
+// Stored data every project search needs, so fav: and tag: and the favorite and frecency boosts
+// work the same in every command
+export interface ProjectSearchData {
+  favorites: string[];
+  history: ProjectHistoryEntry[];
+  tags: Record<string, string[]>;
+}
+
+// Rank projects for a query with the fuzzy matcher; without free-text terms they keep their order
+export function searchProjects(
+  projects: Project[],
+  query: string,
+  { favorites, history, tags }: ProjectSearchData,
+  home: string,
+  now: number = Date.now(),
+): SearchResult<Project>[] {
+  const frecency = scoreHistory(history, now);
+  return searchItems(projects, query, (project) => ({
+    name: project.name,
+    displayPath: collapseHomePath(project.path, home),
+    path: project.path,
+    type: formatProjectType(project.marker),
+    tags: tags[pathKey(project.path)] ?? [],
+    isFavorite: includesPath(favorites, project.path),
+    frecency: frecency.get(pathKey(project.path)) ?? 0,
+  }));
+}
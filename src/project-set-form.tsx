@@ -0,0 +1,63 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { normalizeSetName, renameProjectSet, setSetMembership } from "./stored-data";
+import type { Project } from "./types";
+import { saveProjectSets } from "./utils";
+
+interface ProjectSetFormProps {
+  // Creates a new set holding this project
+  project?: Project;
+  // Renames this set instead
+  setName?: string;
+  onSave: () => void;
+}
+
+// Form to name a new project set, or rename an existing one
+export function ProjectSetForm({ project, setName, onSave }: ProjectSetFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { name: string }) {
+    const name = normalizeSetName(values.name);
+    if (!name) {
+      setNameError("Enter a name");
+      return;
+    }
+
+    const saved =
+      setName !== undefined
+        ? await saveProjectSets((data) => renameProjectSet(data, setName, name), `Renamed to ${name}`)
+        : project
+          ? await saveProjectSets((data) => setSetMembership(data, name, project.path, true), `Added to ${name}`)
+          : false;
+    if (saved) {
+      onSave();
+      pop();
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={setName !== undefined ? `Rename ${setName}` : "New Project Set"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={setName !== undefined ? "Rename Set" : "Create Set"}
+            icon={Icon.Layers}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Payments Stack"
+        defaultValue={setName}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+        info={project ? `${project.name} is added to the new set` : undefined}
+      />
+    </Form>
+  );
+}
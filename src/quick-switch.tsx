@@ -1,178 +1,145 @@
-import {
-  ActionPanel,
-  Action,
-  List,
-  Icon,
-  showToast,
-  Toast,
-  getPreferenceValues,
-  open,
-  Application,
-  getApplications,
-} from "@raycast/api";
-import { discover, getBinaryManager } from "@joe-sh/pj";
-import { useState, useEffect } from "react";
-import type { Project, Preferences } from "./types";
-import { getProjectIcon, formatDisplayPath, formatProjectType, getRecentProjects, addToRecentProjects } from "./utils";
+import { List, getPreferenceValues } from "@raycast/api";
+import { useState, useEffect, useMemo } from "react";
+import type { Preferences, ProjectHistoryEntry } from "./types";
+import { getProjectIcon, formatDisplayPath, formatMatchTitle, formatTagAccessories, getStoredData } from "./utils";
+import { formatProjectType } from "./markers";
+import { getAllTags } from "./stored-data";
+import { rankByFrecency, rankHistory } from "./frecency";
+import { isSamePath, pathKey } from "./paths";
+import { useCachedState } from "@raycast/utils";
+import { ProjectDetail } from "./project-detail";
+import { ProjectActions } from "./project-actions";
+import { useApplications } from "./use-applications";
+import { useEditorRules } from "./use-editor-rules";
+import { useCustomActions } from "./use-custom-actions";
+import { useProjects } from "./use-projects";
+import { useProjectSearch } from "./use-project-search";
+import { DiscoveryErrorView, NoProjectsView } from "./discovery-views";
+
+// Only the top entries get a rank badge; the rest are still ordered by score
+const RECENT_BADGE_LIMIT = 10;
 
 export default function QuickSwitch() {
   const preferences = getPreferenceValues<Preferences>();
 
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [recentPaths, setRecentPaths] = useState<string[]>([]);
-  const [editorApp, setEditorApp] = useState<Application | undefined>();
-
-  // Load projects using @joe-sh/pj API
-  async function loadProjects() {
-    try {
-      setIsLoading(true);
-
-      // Ensure binary is installed
-      await getBinaryManager().getBinaryPath();
-
-      // Get recent projects
-      const recent = await getRecentProjects();
-      const recentPathList = recent.map((r) => r.path);
-      setRecentPaths(recentPathList);
-
-      // Discover all projects
-      const discoveredProjects = await discover({ icons: true });
-
-      // Sort projects: recent first (in order), then alphabetically
-      const sortedProjects = [...discoveredProjects].sort((a, b) => {
-        const aRecentIndex = recentPathList.indexOf(a.path);
-        const bRecentIndex = recentPathList.indexOf(b.path);
-
-        // Both are recent - sort by recency
-        if (aRecentIndex !== -1 && bRecentIndex !== -1) {
-          return aRecentIndex - bRecentIndex;
-        }
-
-        // Only a is recent
-        if (aRecentIndex !== -1) return -1;
-
-        // Only b is recent
-        if (bRecentIndex !== -1) return 1;
+  const {
+    projects: discoveredProjects,
+    binary,
+    error,
+    isLoading,
+    revalidate,
+    refresh,
+  } = useProjects({
+    onStoredDataChange: () => loadStoredData(),
+  });
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [history, setHistory] = useState<ProjectHistoryEntry[]>([]);
+  const [tags, setTags] = useState<Record<string, string[]>>({});
+  const [sets, setSets] = useState<Record<string, string[]>>({});
+  const [startupCommands, setStartupCommands] = useState<Record<string, string>>({});
+  const [editorOverrides, setEditorOverrides] = useState<Record<string, string>>({});
+  const [isShowingDetail, setIsShowingDetail] = useCachedState<boolean>("show-project-detail", false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+  const customActions = useCustomActions();
+
+  async function loadStoredData() {
+    const data = await getStoredData();
+    setFavorites(data.favorites);
+    setHistory(data.recentProjects);
+    setTags(data.tags);
+    setSets(data.sets);
+    setStartupCommands(data.commands);
+    setEditorOverrides(data.editors);
+  }
 
-        // Neither is recent - alphabetical
-        return a.name.localeCompare(b.name);
-      });
+  // Sort projects by frecency, then alphabetically
+  const projects = useMemo(() => rankByFrecency(discoveredProjects, history), [discoveredProjects, history]);
 
-      setProjects(sortedProjects);
-    } catch (error) {
-      console.error("Failed to load projects:", error);
-      await showToast({
-        style: Toast.Style.Failure,
-        title: "Failed to load projects",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-      setProjects([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }
+  // Path keys with history in frecency order, for the rank accessory; projects pj no longer finds don't take a rank
+  const rankedPaths = useMemo(() => {
+    const discovered = new Set(discoveredProjects.map((project) => pathKey(project.path)));
+    return rankHistory(history.filter((entry) => discovered.has(pathKey(entry.path))))
+      .slice(0, RECENT_BADGE_LIMIT)
+      .map((path) => pathKey(path));
+  }, [discoveredProjects, history]);
 
-  // Find the configured editor application
-  useEffect(() => {
-    async function findApp() {
-      const apps = await getApplications();
-      const editorName = preferences.editorApp || "Visual Studio Code";
-      const editor = apps.find(
-        (app) =>
-          app.name.toLowerCase() === editorName.toLowerCase() ||
-          app.name.toLowerCase().includes(editorName.toLowerCase()),
-      );
-      setEditorApp(editor);
-    }
-    findApp();
-  }, [preferences.editorApp]);
+  const allTags = useMemo(() => getAllTags(tags), [tags]);
+  const { searchText, setSearchText, results } = useProjectSearch(projects, { favorites, history, tags });
 
-  // Load projects on mount
+  // Load favorites, recent projects, tags and sets on mount
   useEffect(() => {
-    loadProjects();
+    loadStoredData();
   }, []);
 
-  // Quick open in editor (primary action)
-  async function openProject(project: Project) {
-    try {
-      if (editorApp) {
-        await open(project.path, editorApp);
-      } else {
-        await open(project.path);
-      }
-      await addToRecentProjects(project.path);
-    } catch (error) {
-      await showToast({
-        style: Toast.Style.Failure,
-        title: "Failed to open project",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  }
-
   return (
     <List
       isLoading={isLoading}
+      isShowingDetail={isShowingDetail}
       searchBarPlaceholder="Quick switch to project..."
-      onSelectionChange={(id) => {
-        // Preload for even faster switching
-        if (id && !isLoading) {
-          const project = projects.find((p) => p.path === id);
-          if (project && editorApp) {
-            // Prefetch application info for faster opening
-            void editorApp.bundleId;
-          }
-        }
-      }}
+      filtering={false}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedPath}
     >
-      {projects.length === 0 && !isLoading ? (
-        <List.EmptyView
-          icon={Icon.Folder}
-          title="No Projects Found"
-          description="Make sure pj is installed and configured correctly."
-        />
+      {error && !isLoading && projects.length === 0 ? (
+        <DiscoveryErrorView error={error} onRetry={revalidate} />
+      ) : projects.length === 0 && !isLoading ? (
+        <NoProjectsView binary={binary} onRetry={refresh} />
       ) : (
-        projects.map((project) => {
-          const isRecent = recentPaths.includes(project.path);
-          const recentIndex = recentPaths.indexOf(project.path);
+        results.map(({ item: project, nameIndices }) => {
+          const recentIndex = rankedPaths.indexOf(pathKey(project.path));
+          const isRecent = recentIndex !== -1;
+          const timesOpened = history.find((entry) => isSamePath(entry.path, project.path))?.count ?? 0;
 
           return (
             <List.Item
               key={project.path}
               id={project.path}
               icon={getProjectIcon(project)}
-              title={project.name}
-              subtitle={formatDisplayPath(project.path)}
+              title={formatMatchTitle(project.name, nameIndices)}
+              subtitle={isShowingDetail ? undefined : formatDisplayPath(project.path)}
+              detail={
+                isShowingDetail && selectedPath === project.path ? <ProjectDetail project={project} /> : undefined
+              }
               accessories={[
                 isRecent
                   ? {
                       tag: { value: `Recent #${recentIndex + 1}`, color: "#007AFF" },
-                      tooltip: "Recently opened",
+                      tooltip: `Opened ${timesOpened} ${timesOpened === 1 ? "time" : "times"}`,
                     }
                   : null,
+                ...formatTagAccessories(tags[pathKey(project.path)]),
                 { tag: formatProjectType(project.marker) },
               ].filter(Boolean)}
               actions={
-                <ActionPanel>
-                  <Action
-                    title={editorApp ? `Open in ${editorApp.name}` : "Open"}
-                    icon={Icon.Code}
-                    onAction={() => openProject(project)}
-                  />
-                  <Action.ShowInFinder path={project.path} shortcut={{ modifiers: ["cmd"], key: "f" }} />
-                  <Action.CopyToClipboard
-                    title="Copy Path"
-                    content={project.path}
-                    shortcut={{ modifiers: ["cmd"], key: "c" }}
-                  />
-                  <Action
-                    title="Refresh Projects"
-                    icon={Icon.ArrowClockwise}
-                    shortcut={{ modifiers: ["cmd"], key: "r" }}
-                    onAction={loadProjects}
-                  />
-                </ActionPanel>
+                <ProjectActions
+                  project={project}
+                  preferences={preferences}
+                  terminalApp={terminalApp}
+                  editorApp={editorApp}
+                  applications={applications}
+                  editorRules={editorRules}
+                  editorOverride={editorOverrides[pathKey(project.path)]}
+                  customActions={customActions}
+                  defaultAction="editor"
+                  tags={tags[pathKey(project.path)]}
+                  allTags={allTags}
+                  isShowingDetail={isShowingDetail}
+                  isSelected={selectedPath === project.path}
+                  onRefresh={async () => {
+                    await loadStoredData();
+                    await refresh();
+                  }}
+                  onTagsChange={loadStoredData}
+                  sets={sets}
+                  onSetsChange={loadStoredData}
+                  startupCommand={startupCommands[pathKey(project.path)]}
+                  onStartupCommandChange={loadStoredData}
+                  onEditorOverrideChange={loadStoredData}
+                  onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
+                />
               }
             />
           );
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyRelinks,
+  applyRemovals,
+  findStalePaths,
+  pathsWithoutRemote,
+  planReconciliation,
+  recordRemotes,
+  remoteKey,
+} from "./reconcile";
+import { STORED_DATA_VERSION } from "./stored-data";
+import type { StoredData } from "./types";
+
+function storedData(overrides: Partial<StoredData> = {}): StoredData {
+  return {
+    version: STORED_DATA_VERSION,
+    favorites: [],
+    recentProjects: [],
+    tags: {},
+    remotes: {},
+    editors: {},
+    sets: {},
+    commands: {},
+    ...overrides,
+  };
+}
+
+function history(path: string) {
+  return { path, count: 1, visits: [1], lastAccessed: 1 };
+}
+
+const existing = (paths: string[]) => async (path: string) => paths.includes(path);
+
+describe("remoteKey", () => {
+  it("lowercases host, owner and repo", () => {
+    expect(remoteKey({ host: "GitHub.com", owner: "Me", repo: "App" })).toBe("github.com/me/app");
+  });
+});
+
+describe("findStalePaths", () => {
+  it("returns stored paths that are neither discovered nor on disk", async () => {
+    const data = storedData({ favorites: ["/found", "/excluded", "/gone"], recentProjects: [history("/also-gone")] });
+    const stale = await findStalePaths(data, [{ path: "/found" }], existing(["/found", "/excluded"]));
+    expect(stale).toEqual(["/gone", "/also-gone"]);
+  });
+});
+
+describe("planReconciliation", () => {
+  const remotes: Record<string, string> = { "/new/app": "github.com/me/app", "/fork/app": "github.com/other/app" };
+  const dependencies = { exists: existing([]), getRemoteKey: async (path: string) => remotes[path] };
+
+  it("relinks a missing project to the discovered project with the same name and remote", async () => {
+    const data = storedData({ favorites: ["/old/app"], remotes: { "/old/app": "github.com/me/app" } });
+    const projects = [
+      { path: "/fork/app", name: "app" },
+      { path: "/new/app", name: "app" },
+    ];
+    expect(await planReconciliation(data, projects, dependencies)).toEqual({
+      removed: [],
+      relinks: [{ from: "/old/app", to: "/new/app" }],
+    });
+  });
+
+  it("removes missing projects without a remote match", async () => {
+    const data = storedData({
+      favorites: ["/old/app", "/old/lib"],
+      remotes: { "/old/app": "github.com/me/unknown", "/old/lib": "" },
+    });
+    const projects = [
+      { path: "/new/app", name: "app" },
+      { path: "/new/lib", name: "lib" },
+    ];
+    expect(await planReconciliation(data, projects, dependencies)).toEqual({
+      removed: ["/old/app", "/old/lib"],
+      relinks: [],
+    });
+  });
+
+  it("does not relink onto a project that is already stored", async () => {
+    const data = storedData({
+      favorites: ["/old/app", "/new/app"],
+      remotes: { "/old/app": "github.com/me/app" },
+    });
+    const plan = await planReconciliation(data, [{ path: "/new/app", name: "app" }], dependencies);
+    expect(plan).toEqual({ removed: ["/old/app"], relinks: [] });
+  });
+
+  it("leaves discovered and existing paths alone", async () => {
+    const data = storedData({ favorites: ["/new/app", "/excluded"] });
+    const plan = await planReconciliation(data, [{ path: "/new/app", name: "app" }], {
+      ...dependencies,
+      exists: existing(["/excluded"]),
+    });
+    expect(plan).toEqual({ removed: [], relinks: [] });
+  });
+});
+
+describe("applyRemovals", () => {
+  it("drops the path from favorites, recents, tags and remotes", () => {
+    const data = storedData({
+      favorites: ["/a", "/gone"],
+      recentProjects: [history("/gone"), history("/a")],
+      tags: { "/gone": ["work"] },
+      remotes: { "/gone": "github.com/me/gone" },
+    });
+    expect(applyRemovals(data, ["/gone"])).toEqual(storedData({ favorites: ["/a"], recentProjects: [history("/a")] }));
+  });
+
+  it("drops the path from project sets and deletes sets left empty", () => {
+    const data = storedData({ sets: { stack: ["/a", "/gone"], solo: ["/gone"] } });
+    expect(applyRemovals(data, ["/gone"]).sets).toEqual({ stack: ["/a"] });
+  });
+});
+
+describe("applyRelinks", () => {
+  it("moves every reference to the new path, keeping order and history", () => {
+    const data = storedData({
+      favorites: ["/a", "/old", "/b"],
+      recentProjects: [{ path: "/old", count: 5, visits: [9, 8], lastAccessed: 9 }],
+      tags: { "/old": ["oss"] },
+      remotes: { "/old": "github.com/me/x" },
+      sets: { stack: ["/a", "/old"] },
+      commands: { "/old": "make dev" },
+    });
+    expect(applyRelinks(data, [{ from: "/old", to: "/new" }])).toEqual(
+      storedData({
+        favorites: ["/a", "/new", "/b"],
+        recentProjects: [{ path: "/new", count: 5, visits: [9, 8], lastAccessed: 9 }],
+        tags: { "/new": ["oss"] },
+        remotes: { "/new": "github.com/me/x" },
+        sets: { stack: ["/a", "/new"] },
+        commands: { "/new": "make dev" },
+      }),
+    );
+  });
+
+  it("matches Windows paths by key and re-keys project maps", () => {
+    const data = storedData({
+      favorites: ["C:\\Code\\Old"],
+      tags: { "c:\\code\\old": ["oss"] },
+      sets: { stack: ["C:\\Code\\Old"] },
+    });
+    expect(applyRelinks(data, [{ from: "c:\\code\\old", to: "D:\\Code\\New" }])).toEqual(
+      storedData({
+        favorites: ["D:\\Code\\New"],
+        tags: { "d:\\code\\new": ["oss"] },
+        sets: { stack: ["D:\\Code\\New"] },
+      }),
+    );
+  });
+});
+
+describe("recordRemotes", () => {
+  it("stores looked-up remotes and forgets paths that are no longer stored", () => {
+    const data = storedData({ favorites: ["/a", "/b"], remotes: { "/dropped": "github.com/me/dropped" } });
+    expect(recordRemotes(data, { "/a": "github.com/me/a", "/b": undefined }).remotes).toEqual({
+      "/a": "github.com/me/a",
+      "/b": "",
+    });
+  });
+});
+
+describe("pathsWithoutRemote", () => {
+  it("lists discovered stored paths with no recorded remote", () => {
+    const data = storedData({ favorites: ["/a", "/b", "/gone"], remotes: { "/a": "github.com/me/a" } });
+    expect(pathsWithoutRemote(data, [{ path: "/a" }, { path: "/b" }, { path: "/unstored" }])).toEqual(["/b"]);
+  });
+
+  it("matches discovered paths by path key", () => {
+    const data = storedData({ favorites: ["/code/api/", "C:\\Code\\Web"] });
+    expect(pathsWithoutRemote(data, [{ path: "/code/api" }, { path: "c:\\code\\web\\" }])).toEqual([
+      "/code/api/",
+      "C:\\Code\\Web",
+    ]);
+  });
+});
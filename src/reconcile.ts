@@ -0,0 +1,150 @@
+import { basename } from "path";
+import { storedDataPaths } from "./data-transfer";
+import { isSamePath, pathKey } from "./paths";
+import type { GitRemote, Project, StoredData } from "./types";
+
+// A stored project that moved, matched to a discovered project with the same name and git remote
+export interface Relink {
+  from: string;
+  to: string;
+}
+
+export interface ReconcilePlan {
+  // Missing paths with no match; only dropped from favorites, recents, tags and sets when the user accepts
+  removed: string[];
+  // Missing paths that look like they moved; only applied when the user accepts
+  relinks: Relink[];
+}
+
+export interface ReconcileDependencies {
+  exists: (path: string) => Promise<boolean>;
+  // Remote identity of a project, as produced by remoteKey
+  getRemoteKey: (path: string) => Promise<string | undefined>;
+}
+
+// Identity of a remote that survives clone URL differences (ssh vs https, .git suffix, case)
+export function remoteKey(remote: GitRemote): string {
+  return `${remote.host}/${remote.owner}/${remote.repo}`.toLowerCase();
+}
+
+// Stored paths that pj no longer discovers and that are gone from disk
+export async function findStalePaths(
+  data: StoredData,
+  projects: Pick<Project, "path">[],
+  exists: (path: string) => Promise<boolean>,
+): Promise<string[]> {
+  const discovered = new Set(projects.map((project) => pathKey(project.path)));
+  const candidates = storedDataPaths(data).filter((path) => !discovered.has(pathKey(path)));
+  const present = await Promise.all(candidates.map(exists));
+  return candidates.filter((_, index) => !present[index]);
+}
+
+// Decide what to do with each stale path: relink it when exactly one unstored project has the same
+// name and remote, otherwise remove it
+export async function planReconciliation(
+  data: StoredData,
+  projects: Pick<Project, "path" | "name">[],
+  dependencies: ReconcileDependencies,
+): Promise<ReconcilePlan> {
+  const stale = await findStalePaths(data, projects, dependencies.exists);
+  const stored = new Set(storedDataPaths(data).map((path) => pathKey(path)));
+  const remoteCache = new Map<string, Promise<string | undefined>>();
+  const lookupRemote = (path: string) => {
+    if (!remoteCache.has(path)) remoteCache.set(path, dependencies.getRemoteKey(path));
+    return remoteCache.get(path) as Promise<string | undefined>;
+  };
+
+  const plan: ReconcilePlan = { removed: [], relinks: [] };
+  const claimed = new Set<string>();
+  for (const path of stale) {
+    const remote = data.remotes[pathKey(path)];
+    const name = basename(path);
+    const sameName = projects.filter(
+      (project) => (project.name === name || basename(project.path) === name) && !stored.has(pathKey(project.path)),
+    );
+
+    const matches: string[] = [];
+    if (remote) {
+      for (const project of sameName) {
+        if ((await lookupRemote(project.path)) === remote) matches.push(project.path);
+      }
+    }
+
+    if (matches.length === 1 && !claimed.has(matches[0])) {
+      claimed.add(matches[0]);
+      plan.relinks.push({ from: path, to: matches[0] });
+    } else {
+      plan.removed.push(path);
+    }
+  }
+  return plan;
+}
+
+// Move a path-keyed entry from one path's key to another's
+function renameKey<T>(record: Record<string, T>, from: string, to: string | undefined): Record<string, T> {
+  const updated = { ...record };
+  const fromKey = pathKey(from);
+  if (fromKey in updated) {
+    const value = updated[fromKey];
+    delete updated[fromKey];
+    if (to !== undefined) updated[pathKey(to)] = value;
+  }
+  return updated;
+}
+
+// Rewrite (or drop, when `to` is undefined) every reference to a path
+export function replacePath(data: StoredData, from: string, to: string | undefined): StoredData {
+  return {
+    ...data,
+    favorites:
+      to === undefined
+        ? data.favorites.filter((path) => !isSamePath(path, from))
+        : data.favorites.map((path) => (isSamePath(path, from) ? to : path)),
+    recentProjects:
+      to === undefined
+        ? data.recentProjects.filter((entry) => !isSamePath(entry.path, from))
+        : data.recentProjects.map((entry) => (isSamePath(entry.path, from) ? { ...entry, path: to } : entry)),
+    tags: renameKey(data.tags, from, to),
+    remotes: renameKey(data.remotes, from, to),
+    editors: renameKey(data.editors, from, to),
+    commands: renameKey(data.commands, from, to),
+    sets: Object.fromEntries(
+      Object.entries(data.sets)
+        .map(([name, paths]): [string, string[]] => [
+          name,
+          to === undefined
+            ? paths.filter((path) => !isSamePath(path, from))
+            : paths.map((path) => (isSamePath(path, from) ? to : path)),
+        ])
+        .filter(([, paths]) => paths.length > 0),
+    ),
+  };
+}
+
+export function applyRemovals(data: StoredData, removed: string[]): StoredData {
+  return removed.reduce((updated, path) => replacePath(updated, path, undefined), data);
+}
+
+export function applyRelinks(data: StoredData, relinks: Relink[]): StoredData {
+  return relinks.reduce((updated, { from, to }) => replacePath(updated, from, to), data);
+}
+
+// Record looked-up remotes ("" for projects without one) and forget remotes of paths no longer stored
+export function recordRemotes(data: StoredData, found: Record<string, string | undefined>): StoredData {
+  const stored = new Set(storedDataPaths(data).map((path) => pathKey(path)));
+  const remotes: Record<string, string | undefined> = { ...data.remotes };
+  for (const [path, remote] of Object.entries(found)) {
+    remotes[pathKey(path)] = remote;
+  }
+  const recorded: Record<string, string> = {};
+  for (const [key, remote] of Object.entries(remotes)) {
+    if (stored.has(key)) recorded[key] = remote ?? "";
+  }
+  return { ...data, remotes: recorded };
+}
+
+// Stored paths that pj discovered but whose remote hasn't been recorded yet
+export function pathsWithoutRemote(data: StoredData, projects: Pick<Project, "path">[]): string[] {
+  const discovered = new Set(projects.map((project) => pathKey(project.path)));
+  return storedDataPaths(data).filter((path) => discovered.has(pathKey(path)) && !(pathKey(path) in data.remotes));
+}
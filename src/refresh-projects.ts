@@ -0,0 +1,55 @@
+import { environment, getPreferenceValues, LaunchType, showHUD, showToast, Toast } from "@raycast/api";
+import {
+  appendRefreshRecord,
+  buildRefreshBaseline,
+  buildRefreshRecord,
+  formatNewProjects,
+  isRefreshDue,
+  readRefreshLog,
+  writeRefreshLog,
+} from "./background-refresh";
+import { discoverProjects } from "./discovery";
+import { hashPjConfig } from "./pj-config";
+import type { RefreshProjectsPreferences } from "./types";
+
+// Rescan in the background so every command opens with a warm project cache
+export default async function RefreshProjects() {
+  const { pjPath, cacheTtl, refreshInterval, notifyNewProjects } = getPreferenceValues<RefreshProjectsPreferences>();
+  const cacheDir = environment.supportPath;
+  const isBackground = environment.launchType === LaunchType.Background;
+  const now = Date.now();
+
+  // Raycast runs the command every 15 minutes; scheduled runs wait for the chosen interval
+  const log = await readRefreshLog(cacheDir);
+  if (isBackground && !isRefreshDue(log, Number(refreshInterval) * 60 * 1000, now)) {
+    return;
+  }
+
+  try {
+    const configHash = await hashPjConfig();
+    const { projects } = await discoverProjects({
+      pjPath,
+      cacheDir,
+      maxAgeMs: Number(cacheTtl) * 60 * 1000,
+      force: true,
+    });
+    const record = buildRefreshRecord(log.baseline, projects, configHash, now);
+    await writeRefreshLog(cacheDir, appendRefreshRecord(log, record, buildRefreshBaseline(projects, configHash)));
+
+    if (!isBackground) {
+      const found = `Found ${projects.length} projects`;
+      await showHUD(record.added.length > 0 ? `${found} · ${formatNewProjects(record.added)}` : found);
+    } else if (notifyNewProjects && record.added.length > 0) {
+      await showHUD(formatNewProjects(record.added));
+    }
+  } catch (error) {
+    console.error("Failed to refresh projects:", error);
+    if (!isBackground) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to refresh projects",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
@@ -1,91 +1,111 @@
-import {
-  ActionPanel,
-  Action,
-  List,
-  Icon,
-  showToast,
-  Toast,
-  getPreferenceValues,
-  open,
-  Application,
-  getApplications,
-} from "@raycast/api";
-import { discover, getBinaryManager } from "@joe-sh/pj";
+import { ActionPanel, Action, List, Icon, getPreferenceValues } from "@raycast/api";
 import { useState, useEffect, useMemo } from "react";
-import type { Project, Preferences } from "./types";
+import type { Preferences, ProjectHistoryEntry } from "./types";
 import {
   getProjectIcon,
   formatDisplayPath,
-  formatProjectType,
-  getFavorites,
+  formatMatchTitle,
+  formatRelativeDate,
+  formatTagAccessories,
+  getStoredData,
   toggleFavorite,
-  addToRecentProjects,
 } from "./utils";
-import { statSync } from "fs";
+import { formatProjectType } from "./markers";
+import { getAllTags } from "./stored-data";
+import { includesPath, pathKey } from "./paths";
+import { useCachedState } from "@raycast/utils";
+import { ProjectDetail } from "./project-detail";
+import { useGitInfo } from "./use-git-info";
+import { useProjectActivity } from "./use-project-activity";
+import { ProjectActions } from "./project-actions";
+import { useApplications } from "./use-applications";
+import { useEditorRules } from "./use-editor-rules";
+import { useCustomActions } from "./use-custom-actions";
+import { useProjects } from "./use-projects";
+import { useProjectSearch } from "./use-project-search";
+import { useMarkedProjects } from "./use-marked-projects";
+import { SelectionActions } from "./selection-actions";
+import {
+  compareByDate,
+  GIT_FILTER_TITLES,
+  lastCommitTime,
+  matchesGitFilter,
+  remoteOwnerKey,
+  type GitFilter,
+} from "./git-filters";
+import { DiscoveryErrorView, NoProjectsView } from "./discovery-views";
 
-interface ProjectWithStats extends Project {
-  lastModified?: Date;
-  size?: number;
-}
+type SortOrder = "last-commit" | "last-activity" | "name";
+
+const SORT_ORDER_TITLES: Record<SortOrder, string> = {
+  "last-commit": "Last Commit",
+  "last-activity": "Last Activity",
+  name: "Name",
+};
+
+const GIT_FILTER_PREFIX = "git:";
+const REMOTE_FILTER_PREFIX = "remote:";
+const TAG_FILTER_PREFIX = "tag:";
 
 export default function SearchProjects() {
   const preferences = getPreferenceValues<Preferences>();
 
-  const [projects, setProjects] = useState<ProjectWithStats[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const {
+    projects: discoveredProjects,
+    binary,
+    error,
+    isLoading,
+    revalidate,
+    refresh,
+  } = useProjects({
+    onStoredDataChange: () => loadStoredData(),
+  });
   const [favorites, setFavorites] = useState<string[]>([]);
+  const [history, setHistory] = useState<ProjectHistoryEntry[]>([]);
+  const [tags, setTags] = useState<Record<string, string[]>>({});
+  const [sets, setSets] = useState<Record<string, string[]>>({});
+  const [startupCommands, setStartupCommands] = useState<Record<string, string>>({});
+  const [editorOverrides, setEditorOverrides] = useState<Record<string, string>>({});
   const [selectedType, setSelectedType] = useState<string>("all");
-  const [terminalApp, setTerminalApp] = useState<Application | undefined>();
-  const [editorApp, setEditorApp] = useState<Application | undefined>();
-
-  // Load projects with stats
-  async function loadProjects() {
-    try {
-      setIsLoading(true);
-
-      // Ensure binary is installed
-      await getBinaryManager().getBinaryPath();
-
-      // Discover projects
-      const discoveredProjects = await discover({ icons: true });
-
-      // Load favorites
-      const storedFavorites = await getFavorites();
-      setFavorites(storedFavorites);
-
-      // Add stats to projects
-      const projectsWithStats: ProjectWithStats[] = discoveredProjects.map((project) => {
-        try {
-          const stats = statSync(project.path);
-          return {
-            ...project,
-            lastModified: stats.mtime,
-            size: stats.size,
-          };
-        } catch {
-          return project;
-        }
-      });
+  const [sortOrder, setSortOrder] = useCachedState<SortOrder>("search-sort-order", "last-commit");
+  const [isShowingDetail, setIsShowingDetail] = useCachedState<boolean>("show-project-detail", false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  // Git lookups run a few processes per project, so only scan when the sort or filter needs them
+  const needsGitInfo =
+    sortOrder === "last-commit" ||
+    selectedType.startsWith(GIT_FILTER_PREFIX) ||
+    selectedType.startsWith(REMOTE_FILTER_PREFIX);
+  const { gitInfo, isLoading: isLoadingGit, isLoaded: isGitInfoLoaded } = useGitInfo(discoveredProjects, needsGitInfo);
+  // File scans walk every project's tree, so they only run for the activity sort
+  const { activity, isLoading: isLoadingActivity } = useProjectActivity(
+    discoveredProjects,
+    sortOrder === "last-activity",
+  );
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+  const customActions = useCustomActions();
 
-      // Sort by last modified date
-      projectsWithStats.sort((a, b) => {
-        if (!a.lastModified || !b.lastModified) return 0;
-        return b.lastModified.getTime() - a.lastModified.getTime();
-      });
+  async function loadStoredData() {
+    const data = await getStoredData();
+    setFavorites(data.favorites);
+    setHistory(data.recentProjects);
+    setTags(data.tags);
+    setSets(data.sets);
+    setStartupCommands(data.commands);
+    setEditorOverrides(data.editors);
+  }
 
-      setProjects(projectsWithStats);
-    } catch (error) {
-      console.error("Failed to load projects:", error);
-      await showToast({
-        style: Toast.Style.Failure,
-        title: "Failed to load projects",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-      setProjects([]);
-    } finally {
-      setIsLoading(false);
+  // Sort by the selected order; projects with an unknown date go last, by name
+  const projects = useMemo(() => {
+    switch (sortOrder) {
+      case "name":
+        return [...discoveredProjects].sort((a, b) => a.name.localeCompare(b.name));
+      case "last-activity":
+        return [...discoveredProjects].sort(compareByDate((p) => activity[p.path] ?? undefined));
+      default:
+        return [...discoveredProjects].sort(compareByDate((p) => lastCommitTime(gitInfo[p.path] ?? undefined)));
     }
-  }
+  }, [discoveredProjects, sortOrder, gitInfo, activity]);
 
   // Get unique project types
   const projectTypes = useMemo(() => {
@@ -94,76 +114,95 @@ export default function SearchProjects() {
     return Array.from(types).sort();
   }, [projects]);
 
-  // Filter projects by selected type
+  // Count projects per remote host/org
+  const remoteOwners = useMemo(() => {
+    const counts = new Map<string, number>();
+    projects.forEach((p) => {
+      const key = remoteOwnerKey(gitInfo[p.path] ?? undefined);
+      if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [projects, gitInfo]);
+
+  const allTags = useMemo(() => getAllTags(tags), [tags]);
+
+  // Counts only once git info is loaded; choosing a git filter starts the scan
+  function formatGitFilterTitle(filter: GitFilter): string {
+    if (!isGitInfoLoaded) return GIT_FILTER_TITLES[filter];
+    const count = projects.filter((p) => matchesGitFilter(gitInfo[p.path] ?? undefined, filter)).length;
+    return `${GIT_FILTER_TITLES[filter]} (${count})`;
+  }
+
+  // Filter projects by selected type, git state or remote
   const filteredProjects = useMemo(() => {
     if (selectedType === "all") return projects;
     if (selectedType === "favorites") {
-      return projects.filter((p) => favorites.includes(p.path));
+      return projects.filter((p) => includesPath(favorites, p.path));
+    }
+    if (selectedType.startsWith(GIT_FILTER_PREFIX)) {
+      const filter = selectedType.slice(GIT_FILTER_PREFIX.length) as GitFilter;
+      return projects.filter((p) => matchesGitFilter(gitInfo[p.path] ?? undefined, filter));
+    }
+    if (selectedType.startsWith(TAG_FILTER_PREFIX)) {
+      const tag = selectedType.slice(TAG_FILTER_PREFIX.length);
+      return projects.filter((p) => tags[pathKey(p.path)]?.includes(tag));
+    }
+    if (selectedType.startsWith(REMOTE_FILTER_PREFIX)) {
+      const owner = selectedType.slice(REMOTE_FILTER_PREFIX.length);
+      return projects.filter((p) => remoteOwnerKey(gitInfo[p.path] ?? undefined) === owner);
     }
     return projects.filter((p) => formatProjectType(p.marker) === selectedType);
-  }, [projects, selectedType, favorites]);
+  }, [projects, selectedType, favorites, tags, gitInfo]);
 
-  // Find the configured terminal and editor applications
-  useEffect(() => {
-    async function findApps() {
-      const apps = await getApplications();
+  const { searchText, setSearchText, results } = useProjectSearch(filteredProjects, { favorites, history, tags });
+  const { markedProjects, isMarked, toggleMarked, clearMarked } = useMarkedProjects(discoveredProjects);
 
-      // Find terminal app
-      const terminalName = preferences.terminalApp || "Terminal";
-      const terminal = apps.find(
-        (app) =>
-          app.name.toLowerCase() === terminalName.toLowerCase() ||
-          app.name.toLowerCase().includes(terminalName.toLowerCase()),
-      );
-      setTerminalApp(terminal);
+  // Readable name of the active filter for the empty view
+  const selectedFilterTitle = selectedType.startsWith(GIT_FILTER_PREFIX)
+    ? GIT_FILTER_TITLES[selectedType.slice(GIT_FILTER_PREFIX.length) as GitFilter]
+    : selectedType.startsWith(REMOTE_FILTER_PREFIX)
+      ? selectedType.slice(REMOTE_FILTER_PREFIX.length)
+      : selectedType.startsWith(TAG_FILTER_PREFIX)
+        ? `#${selectedType.slice(TAG_FILTER_PREFIX.length)}`
+        : selectedType;
 
-      // Find editor app
-      const editorName = preferences.editorApp || "Visual Studio Code";
-      const editor = apps.find(
-        (app) =>
-          app.name.toLowerCase() === editorName.toLowerCase() ||
-          app.name.toLowerCase().includes(editorName.toLowerCase()),
-      );
-      setEditorApp(editor);
-    }
-    findApps();
-  }, [preferences.terminalApp, preferences.editorApp]);
-
-  // Load projects on mount
+  // Load favorites, history and tags on mount
   useEffect(() => {
-    loadProjects();
+    loadStoredData();
   }, []);
 
-  // Format date for display
-  function formatDate(date: Date | undefined): string {
-    if (!date) return "";
-
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 0) return "Today";
-    if (diffDays === 1) return "Yesterday";
-    if (diffDays < 7) return `${diffDays} days ago`;
-    if (diffDays < 30) return `${Math.floor(diffDays / 7)} weeks ago`;
-    if (diffDays < 365) return `${Math.floor(diffDays / 30)} months ago`;
-    return `${Math.floor(diffDays / 365)} years ago`;
-  }
-
   return (
     <List
-      isLoading={isLoading}
+      isLoading={isLoading || isLoadingGit || isLoadingActivity}
+      isShowingDetail={isShowingDetail}
       searchBarPlaceholder="Search projects by name or path..."
+      navigationTitle={markedProjects.length > 0 ? `Search Projects (${markedProjects.length} Selected)` : undefined}
+      filtering={false}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedPath}
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter by project type" value={selectedType} onChange={setSelectedType}>
+        <List.Dropdown tooltip="Filter projects" value={selectedType} onChange={setSelectedType}>
           <List.Dropdown.Item title="All Projects" value="all" />
           {favorites.length > 0 && (
             <List.Dropdown.Item
-              title={`Favorites (${projects.filter((p) => favorites.includes(p.path)).length})`}
+              title={`Favorites (${projects.filter((p) => includesPath(favorites, p.path)).length})`}
               value="favorites"
               icon={Icon.Star}
             />
           )}
+          {allTags.length > 0 && (
+            <List.Dropdown.Section title="Tags">
+              {allTags.map((tag) => (
+                <List.Dropdown.Item
+                  key={tag}
+                  title={`${tag} (${projects.filter((p) => tags[pathKey(p.path)]?.includes(tag)).length})`}
+                  value={`${TAG_FILTER_PREFIX}${tag}`}
+                  icon={Icon.Tag}
+                />
+              ))}
+            </List.Dropdown.Section>
+          )}
           <List.Dropdown.Section title="Project Types">
             {projectTypes.map((type) => (
               <List.Dropdown.Item
@@ -173,47 +212,140 @@ export default function SearchProjects() {
               />
             ))}
           </List.Dropdown.Section>
+          <List.Dropdown.Section title="Git">
+            {(Object.keys(GIT_FILTER_TITLES) as GitFilter[]).map((filter) => (
+              <List.Dropdown.Item
+                key={filter}
+                title={formatGitFilterTitle(filter)}
+                value={`${GIT_FILTER_PREFIX}${filter}`}
+              />
+            ))}
+          </List.Dropdown.Section>
+          {remoteOwners.length > 0 && (
+            <List.Dropdown.Section title="Remotes">
+              {remoteOwners.map(([owner, count]) => (
+                <List.Dropdown.Item
+                  key={owner}
+                  title={`${owner} (${count})`}
+                  value={`${REMOTE_FILTER_PREFIX}${owner}`}
+                  icon={Icon.Globe}
+                />
+              ))}
+            </List.Dropdown.Section>
+          )}
         </List.Dropdown>
       }
     >
-      {filteredProjects.length === 0 && !isLoading ? (
+      {error && !isLoading && projects.length === 0 ? (
+        <DiscoveryErrorView error={error} onRetry={revalidate} />
+      ) : projects.length === 0 && !isLoading ? (
+        <NoProjectsView binary={binary} onRetry={refresh} />
+      ) : filteredProjects.length === 0 && !isLoading ? (
         <List.EmptyView
           icon={Icon.Folder}
-          title={selectedType === "all" ? "No Projects Found" : `No ${selectedType} Projects Found`}
-          description={
-            selectedType === "all"
-              ? "Make sure pj is installed and configured correctly."
-              : "Try selecting a different filter."
-          }
+          title={`No ${selectedFilterTitle} Projects Found`}
+          description="Try selecting a different filter."
         />
       ) : (
-        filteredProjects.map((project) => {
-          const isFavorite = favorites.includes(project.path);
+        results.map(({ item: project, nameIndices }) => {
+          const isFavorite = includesPath(favorites, project.path);
+          const git = gitInfo[project.path] ?? undefined;
+          const commitTime = lastCommitTime(git);
+          const activityTime = activity[project.path] ?? undefined;
 
           return (
             <List.Item
               key={project.path}
+              id={project.path}
               icon={getProjectIcon(project)}
-              title={project.name}
-              subtitle={formatDisplayPath(project.path)}
+              title={formatMatchTitle(project.name, nameIndices)}
+              subtitle={isShowingDetail ? undefined : formatDisplayPath(project.path)}
+              detail={
+                isShowingDetail && selectedPath === project.path ? <ProjectDetail project={project} /> : undefined
+              }
               accessories={[
+                isMarked(project.path) ? { icon: Icon.CheckCircle, tooltip: "Selected" } : null,
                 isFavorite ? { icon: Icon.Star, tooltip: "Favorite" } : null,
-                project.lastModified ? { text: formatDate(project.lastModified), tooltip: "Last modified" } : null,
+                git && git.dirty > 0
+                  ? { icon: Icon.Pencil, text: String(git.dirty), tooltip: `${git.dirty} uncommitted changes` }
+                  : null,
+                git && git.ahead > 0 ? { text: `↑${git.ahead}`, tooltip: `${git.ahead} unpushed commits` } : null,
+                sortOrder === "last-commit" && commitTime !== undefined
+                  ? { text: formatRelativeDate(new Date(commitTime)), tooltip: "Last commit" }
+                  : activityTime !== undefined
+                    ? { text: formatRelativeDate(new Date(activityTime)), tooltip: "Last activity" }
+                    : null,
+                ...formatTagAccessories(tags[pathKey(project.path)]),
                 { tag: formatProjectType(project.marker) },
               ].filter(Boolean)}
               actions={
                 <ProjectActions
                   project={project}
                   isFavorite={isFavorite}
+                  tags={tags[pathKey(project.path)]}
+                  allTags={allTags}
+                  isShowingDetail={isShowingDetail}
+                  isSelected={selectedPath === project.path}
+                  isMarked={isMarked(project.path)}
+                  onToggleMarked={() => toggleMarked(project.path)}
+                  selectionActions={
+                    markedProjects.length > 0 && (
+                      <SelectionActions
+                        projects={markedProjects}
+                        terminal={{
+                          terminalName: preferences.terminalApp || "Terminal",
+                          terminalApp,
+                          mode: preferences.terminalMode ?? "window",
+                          commands: startupCommands,
+                        }}
+                        editorApp={editorApp}
+                        applications={applications}
+                        editorRules={editorRules}
+                        editorOverrides={editorOverrides}
+                        favorites={favorites}
+                        onFavoritesChange={loadStoredData}
+                        onDone={clearMarked}
+                      />
+                    )
+                  }
                   preferences={preferences}
                   terminalApp={terminalApp}
                   editorApp={editorApp}
-                  onRefresh={loadProjects}
+                  applications={applications}
+                  editorRules={editorRules}
+                  editorOverride={editorOverrides[pathKey(project.path)]}
+                  customActions={customActions}
+                  onRefresh={async () => {
+                    await loadStoredData();
+                    await refresh();
+                  }}
                   onToggleFavorite={async () => {
                     await toggleFavorite(project.path);
-                    await loadProjects();
+                    await loadStoredData();
                   }}
-                />
+                  onTagsChange={loadStoredData}
+                  sets={sets}
+                  onSetsChange={loadStoredData}
+                  startupCommand={startupCommands[pathKey(project.path)]}
+                  onStartupCommandChange={loadStoredData}
+                  onEditorOverrideChange={loadStoredData}
+                  onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
+                >
+                  <ActionPanel.Submenu
+                    title="Sort By"
+                    icon={Icon.ArrowUp}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                  >
+                    {(Object.keys(SORT_ORDER_TITLES) as SortOrder[]).map((order) => (
+                      <Action
+                        key={order}
+                        title={SORT_ORDER_TITLES[order]}
+                        icon={order === sortOrder ? Icon.CheckCircle : Icon.Circle}
+                        onAction={() => setSortOrder(order)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                </ProjectActions>
               }
             />
           );
@@ -222,105 +354,3 @@ export default function SearchProjects() {
     </List>
   );
 }
-
-interface ProjectActionsProps {
-  project: Project;
-  isFavorite: boolean;
-  preferences: Preferences;
-  terminalApp: Application | undefined;
-  editorApp: Application | undefined;
-  onRefresh: () => void;
-  onToggleFavorite: () => void;
-}
-
-function ProjectActions({
-  project,
-  isFavorite,
-  preferences,
-  terminalApp,
-  editorApp,
-  onRefresh,
-  onToggleFavorite,
-}: ProjectActionsProps) {
-  const openInFinder = <Action.ShowInFinder path={project.path} shortcut={{ modifiers: ["cmd"], key: "f" }} />;
-
-  const openInEditor = editorApp ? (
-    <Action.Open
-      title={`Open in ${editorApp.name}`}
-      icon={Icon.Code}
-      target={project.path}
-      application={editorApp}
-      shortcut={{ modifiers: ["cmd"], key: "e" }}
-      onOpen={async () => {
-        await addToRecentProjects(project.path);
-      }}
-    />
-  ) : (
-    <Action
-      title="Open in Default Editor"
-      icon={Icon.Code}
-      shortcut={{ modifiers: ["cmd"], key: "e" }}
-      onAction={async () => {
-        await open(project.path);
-        await addToRecentProjects(project.path);
-      }}
-    />
-  );
-
-  const openInTerminal = terminalApp ? (
-    <Action.Open
-      title={`Open in ${terminalApp.name}`}
-      icon={Icon.Terminal}
-      target={project.path}
-      application={terminalApp}
-      shortcut={{ modifiers: ["cmd"], key: "t" }}
-      onOpen={async () => {
-        await addToRecentProjects(project.path);
-      }}
-    />
-  ) : (
-    <Action.OpenWith path={project.path} shortcut={{ modifiers: ["cmd"], key: "t" }} />
-  );
-
-  const copyPath = <Action.CopyToClipboard content={project.path} shortcut={{ modifiers: ["cmd"], key: "c" }} />;
-
-  // Order actions based on default preference
-  const actions = [];
-  switch (preferences.defaultAction) {
-    case "finder":
-      actions.push(openInFinder, openInEditor, openInTerminal, copyPath);
-      break;
-    case "editor":
-      actions.push(openInEditor, openInFinder, openInTerminal, copyPath);
-      break;
-    case "terminal":
-      actions.push(openInTerminal, openInFinder, openInEditor, copyPath);
-      break;
-    case "copy":
-      actions.push(copyPath, openInFinder, openInEditor, openInTerminal);
-      break;
-    default:
-      actions.push(openInFinder, openInEditor, openInTerminal, copyPath);
-  }
-
-  return (
-    <ActionPanel>
-      <ActionPanel.Section title="Open Project">{actions}</ActionPanel.Section>
-      <ActionPanel.Section>
-        <Action
-          title={isFavorite ? "Remove from Favorites" : "Add to Favorites"}
-          icon={isFavorite ? Icon.StarDisabled : Icon.Star}
-          shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
-          onAction={onToggleFavorite}
-        />
-        <Action.OpenWith path={project.path} shortcut={{ modifiers: ["cmd", "shift"], key: "o" }} />
-        <Action
-          title="Refresh Projects"
-          icon={Icon.ArrowClockwise}
-          shortcut={{ modifiers: ["cmd"], key: "r" }}
-          onAction={onRefresh}
-        />
-      </ActionPanel.Section>
-    </ActionPanel>
-  );
-}
@@ -0,0 +1,112 @@
+import { Action, ActionPanel, Application, Clipboard, Icon, showToast, Toast } from "@raycast/api";
+import type { EditorRule } from "./editor-rules";
+import { openInEditors, openInTerminal, type TerminalChoice } from "./open-projects";
+import { includesPath } from "./paths";
+import type { Project } from "./types";
+import { updateFavorites } from "./utils";
+
+interface SelectionActionsProps {
+  projects: Project[];
+  terminal: TerminalChoice;
+  editorApp: Application | undefined;
+  applications: Application[];
+  editorRules: EditorRule[];
+  editorOverrides: Record<string, string>;
+  favorites: string[];
+  onFavoritesChange: () => void;
+  // Called after every action, to clear the selection
+  onDone: () => void;
+}
+
+function countProjects(count: number): string {
+  return `${count} ${count === 1 ? "Project" : "Projects"}`;
+}
+
+async function runForSelection(title: string, run: () => Promise<void>, onDone: () => void) {
+  try {
+    await run();
+    onDone();
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: `Failed: ${title}`,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+// Actions over the marked projects, shown first in the action panel while a selection exists
+export function SelectionActions({
+  projects,
+  terminal,
+  editorApp,
+  applications,
+  editorRules,
+  editorOverrides,
+  favorites,
+  onFavoritesChange,
+  onDone,
+}: SelectionActionsProps) {
+  const count = countProjects(projects.length);
+  const paths = projects.map((project) => project.path);
+  const allFavorites = paths.every((path) => includesPath(favorites, path));
+
+  return (
+    <ActionPanel.Section title={`${count} Selected`}>
+      <Action
+        title={`Open ${count} in Editor`}
+        icon={Icon.Code}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "e" }}
+        onAction={() =>
+          runForSelection(
+            "Open in Editor",
+            () => openInEditors(projects, { editorApp, applications, editorRules, editorOverrides }),
+            onDone,
+          )
+        }
+      />
+      <Action
+        title={`Open ${count} in Terminal`}
+        icon={Icon.Terminal}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "t" }}
+        onAction={() => runForSelection("Open in Terminal", () => openInTerminal(projects, terminal), onDone)}
+      />
+      <Action
+        title={`Copy ${count} Paths`}
+        icon={Icon.Clipboard}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+        onAction={() =>
+          runForSelection(
+            "Copy Paths",
+            async () => {
+              await Clipboard.copy(paths.join("\n"));
+              await showToast({ style: Toast.Style.Success, title: `Copied ${count.toLowerCase()} paths` });
+            },
+            onDone,
+          )
+        }
+      />
+      <Action
+        title={allFavorites ? `Remove ${count} from Favorites` : `Add ${count} to Favorites`}
+        icon={allFavorites ? Icon.StarDisabled : Icon.Star}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "f" }}
+        onAction={() =>
+          runForSelection(
+            "Update Favorites",
+            async () => {
+              await updateFavorites(paths, !allFavorites);
+              onFavoritesChange();
+            },
+            onDone,
+          )
+        }
+      />
+      <Action
+        title="Clear Selection"
+        icon={Icon.XMarkCircle}
+        shortcut={{ modifiers: ["cmd", "opt"], key: "x" }}
+        onAction={onDone}
+      />
+    </ActionPanel.Section>
+  );
+}
@@ -0,0 +1,40 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import type { Project } from "./types";
+import { saveStartupCommand } from "./utils";
+
+interface StartupCommandFormProps {
+  project: Project;
+  command?: string;
+  onSave: () => void;
+}
+
+// Form to set the command a project runs when it opens in the terminal
+export function StartupCommandForm({ project, command, onSave }: StartupCommandFormProps) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { command: string }) {
+    if (await saveStartupCommand(project.path, values.command)) {
+      onSave();
+      pop();
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Startup Command for ${project.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Startup Command" icon={Icon.Terminal} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="command"
+        title="Command"
+        placeholder="npm run dev"
+        defaultValue={command}
+        info="Runs in the project directory whenever the project opens in the terminal. Leave empty to just open a shell."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import {
+  deleteProjectSet,
+  emptyStoredData,
+  getAllTags,
+  getSetsContaining,
+  migrateStoredData,
+  normalizeSetName,
+  normalizeTag,
+  parseTagInput,
+  renameProjectSet,
+  setFavorites,
+  setProjectTags,
+  setSetMembership,
+  setStartupCommand,
+  STORED_DATA_VERSION,
+} from "./stored-data";
+
+describe("migrateStoredData", () => {
+  it("returns empty data for missing or malformed input", () => {
+    expect(migrateStoredData(undefined)).toEqual(emptyStoredData());
+    expect(migrateStoredData("nope")).toEqual(emptyStoredData());
+  });
+
+  it("upgrades version 1 favorites and recents", () => {
+    const data = migrateStoredData({
+      favorites: ["/a", "/b", "/a", 42],
+      recentProjects: [{ path: "/a", lastAccessed: 1000 }, { nope: true }],
+    });
+
+    expect(data).toEqual({
+      version: STORED_DATA_VERSION,
+      favorites: ["/a", "/b"],
+      recentProjects: [{ path: "/a", count: 1, visits: [1000], lastAccessed: 1000 }],
+      tags: {},
+      remotes: {},
+      editors: {},
+      sets: {},
+      commands: {},
+    });
+  });
+
+  it("keeps frecency entries stored by version 1", () => {
+    const entry = { path: "/a", count: 12, visits: [3000, 2000], lastAccessed: 3000 };
+    expect(migrateStoredData({ favorites: [], recentProjects: [entry] }).recentProjects).toEqual([entry]);
+  });
+
+  it("normalizes tags of current data and drops empty lists", () => {
+    const data = migrateStoredData({
+      version: 3,
+      favorites: [],
+      recentProjects: [],
+      tags: { "/a": ["Work", "work", " OSS "], "/b": [], "/c": "work" },
+    });
+    expect(data.tags).toEqual({ "/a": ["oss", "work"] });
+  });
+
+  it("adds empty editor overrides to version 3 data", () => {
+    expect(migrateStoredData({ version: 3, remotes: { "/a": "github.com/me/a" } }).editors).toEqual({});
+  });
+
+  it("adds empty remotes to version 2 data and drops invalid ones from version 3", () => {
+    expect(migrateStoredData({ version: 2, tags: { "/a": ["work"] } }).remotes).toEqual({});
+    expect(migrateStoredData({ version: 3, remotes: { "/a": "github.com/me/a", "/b": 1 } }).remotes).toEqual({
+      "/a": "github.com/me/a",
+    });
+  });
+
+  it("adds empty project sets to version 4 data and cleans up version 5 sets", () => {
+    expect(migrateStoredData({ version: 4, sets: { stack: ["/a"] } }).sets).toEqual({});
+    expect(
+      migrateStoredData({ version: 5, sets: { " Payments  Stack ": ["/a", "/a", 3, "/b"], empty: [], " ": ["/c"] } })
+        .sets,
+    ).toEqual({ "Payments Stack": ["/a", "/b"] });
+  });
+
+  it("adds empty startup commands to version 5 data and drops invalid ones from version 6", () => {
+    expect(migrateStoredData({ version: 5, commands: { "/a": "make dev" } }).commands).toEqual({});
+    expect(migrateStoredData({ version: 6, commands: { "/a": "make dev", "/b": ["nope"] } }).commands).toEqual({
+      "/a": "make dev",
+    });
+  });
+
+  it("keys project maps by path key and drops duplicate Windows paths", () => {
+    const data = migrateStoredData({
+      version: STORED_DATA_VERSION,
+      favorites: ["C:\\Code\\api", "c:\\code\\api\\"],
+      tags: { "C:\\Code\\api": ["work"], "c:\\code\\api": ["oss"] },
+      editors: { "C:\\Code\\api": "/Applications/Zed.app" },
+      commands: { "C:\\Code\\api\\": "npm run dev" },
+      sets: { stack: ["C:\\Code\\api", "c:/code/API"] },
+    });
+    expect(data.favorites).toEqual(["C:\\Code\\api"]);
+    expect(data.tags).toEqual({ "c:\\code\\api": ["oss", "work"] });
+    expect(data.editors).toEqual({ "c:\\code\\api": "/Applications/Zed.app" });
+    expect(data.commands).toEqual({ "c:\\code\\api": "npm run dev" });
+    expect(data.sets).toEqual({ stack: ["C:\\Code\\api"] });
+  });
+
+  it("refuses data from a newer version", () => {
+    expect(() => migrateStoredData({ version: STORED_DATA_VERSION + 1 })).toThrow(/newer/);
+  });
+});
+
+describe("normalizeTag", () => {
+  it("lowercases, strips # and replaces spaces with dashes", () => {
+    expect(normalizeTag("  #Client X ")).toBe("client-x");
+  });
+});
+
+describe("parseTagInput", () => {
+  it("splits on commas and removes blanks and duplicates", () => {
+    expect(parseTagInput("work, oss,, Work ")).toEqual(["oss", "work"]);
+  });
+});
+
+describe("setProjectTags", () => {
+  it("replaces a project's tags without mutating the input", () => {
+    const data = { ...emptyStoredData(), tags: { "/a": ["old"] } };
+    const updated = setProjectTags(data, "/a", ["new", "New"]);
+    expect(updated.tags).toEqual({ "/a": ["new"] });
+    expect(data.tags).toEqual({ "/a": ["old"] });
+  });
+
+  it("removes the project when no tags are left", () => {
+    const data = { ...emptyStoredData(), tags: { "/a": ["old"], "/b": ["x"] } };
+    expect(setProjectTags(data, "/a", []).tags).toEqual({ "/b": ["x"] });
+  });
+
+  it("keys Windows paths case-insensitively", () => {
+    const data = { ...emptyStoredData(), tags: { "c:\\code\\api": ["old"] } };
+    expect(setProjectTags(data, "C:\\Code\\API\\", ["new"]).tags).toEqual({ "c:\\code\\api": ["new"] });
+  });
+});
+
+describe("setFavorites", () => {
+  it("appends new favorites once, after the existing ones", () => {
+    const data = { ...emptyStoredData(), favorites: ["/b"] };
+    expect(setFavorites(data, ["/a", "/b", "/c", "/a"], true).favorites).toEqual(["/b", "/a", "/c"]);
+  });
+
+  it("removes favorites without mutating the input", () => {
+    const data = { ...emptyStoredData(), favorites: ["/a", "/b", "/c"] };
+    expect(setFavorites(data, ["/a", "/c", "/x"], false).favorites).toEqual(["/b"]);
+    expect(data.favorites).toEqual(["/a", "/b", "/c"]);
+  });
+
+  it("compares Windows favorites case-insensitively", () => {
+    const data = { ...emptyStoredData(), favorites: ["C:\\code\\App"] };
+    expect(setFavorites(data, ["c:/CODE/app", "C:\\code\\web", "c:\\code\\WEB"], true).favorites).toEqual([
+      "C:\\code\\App",
+      "C:\\code\\web",
+    ]);
+    expect(setFavorites(data, ["c:\\code\\app\\"], false).favorites).toEqual([]);
+  });
+});
+
+describe("getAllTags", () => {
+  it("lists each tag once, alphabetically", () => {
+    expect(getAllTags({ "/a": ["work", "oss"], "/b": ["client-x", "work"] })).toEqual(["client-x", "oss", "work"]);
+  });
+});
+
+describe("normalizeSetName", () => {
+  it("trims and collapses whitespace but keeps case", () => {
+    expect(normalizeSetName("  Payments   Stack ")).toBe("Payments Stack");
+  });
+});
+
+describe("setSetMembership", () => {
+  it("creates a set and appends members once, in order", () => {
+    let data = setSetMembership(emptyStoredData(), " stack ", "/a", true);
+    data = setSetMembership(data, "stack", "/b", true);
+    data = setSetMembership(data, "stack", "/a", true);
+    expect(data.sets).toEqual({ stack: ["/a", "/b"] });
+  });
+
+  it("removes members and deletes the set with its last member", () => {
+    const data = { ...emptyStoredData(), sets: { stack: ["/a", "/b"] } };
+    const withoutA = setSetMembership(data, "stack", "/a", false);
+    expect(withoutA.sets).toEqual({ stack: ["/b"] });
+    expect(setSetMembership(withoutA, "stack", "/b", false).sets).toEqual({});
+    expect(data.sets).toEqual({ stack: ["/a", "/b"] });
+  });
+
+  it("ignores removing a project that is not a member", () => {
+    const data = { ...emptyStoredData(), sets: { stack: ["/a"] } };
+    expect(setSetMembership(data, "stack", "/x", false).sets).toEqual({ stack: ["/a"] });
+    expect(setSetMembership(data, "other", "/x", false).sets).toEqual({ stack: ["/a"] });
+  });
+
+  it("matches Windows members case-insensitively", () => {
+    const data = setSetMembership(emptyStoredData(), "stack", "C:\\Code\\api", true);
+    expect(setSetMembership(data, "stack", "c:\\code\\API", true).sets).toEqual({ stack: ["C:\\Code\\api"] });
+    expect(setSetMembership(data, "stack", "c:/code/api/", false).sets).toEqual({});
+  });
+});
+
+describe("renameProjectSet", () => {
+  it("renames a set", () => {
+    const data = { ...emptyStoredData(), sets: { stack: ["/a"] } };
+    expect(renameProjectSet(data, "stack", " Payments ").sets).toEqual({ Payments: ["/a"] });
+  });
+
+  it("merges into an existing set with the new name", () => {
+    const data = { ...emptyStoredData(), sets: { a: ["/1", "/2"], b: ["/2", "/3"] } };
+    expect(renameProjectSet(data, "a", "b").sets).toEqual({ b: ["/2", "/3", "/1"] });
+  });
+
+  it("leaves the data alone for unknown sets or empty names", () => {
+    const data = { ...emptyStoredData(), sets: { stack: ["/a"] } };
+    expect(renameProjectSet(data, "nope", "x")).toBe(data);
+    expect(renameProjectSet(data, "stack", "  ")).toBe(data);
+  });
+});
+
+describe("deleteProjectSet", () => {
+  it("removes only the named set", () => {
+    const data = { ...emptyStoredData(), sets: { a: ["/1"], b: ["/2"] } };
+    expect(deleteProjectSet(data, "a").sets).toEqual({ b: ["/2"] });
+  });
+});
+
+describe("getSetsContaining", () => {
+  it("lists the sets a project belongs to, alphabetically", () => {
+    expect(getSetsContaining({ web: ["/a"], api: ["/a", "/b"], infra: ["/c"] }, "/a")).toEqual(["api", "web"]);
+    expect(getSetsContaining({ api: ["C:\\Code\\api"] }, "c:\\code\\api")).toEqual(["api"]);
+  });
+});
+
+describe("setStartupCommand", () => {
+  it("stores a trimmed command and clears it when empty", () => {
+    const data = setStartupCommand(emptyStoredData(), "/a", "  npm run dev ");
+    expect(data.commands).toEqual({ "/a": "npm run dev" });
+    expect(setStartupCommand(data, "/a", " ").commands).toEqual({});
+  });
+});
@@ -0,0 +1,182 @@
+import { normalizeHistoryEntry } from "./frecency";
+import { includesPath, isSamePath, pathKey, uniquePaths } from "./paths";
+import type { FavoriteProject, ProjectHistoryEntry, StoredData } from "./types";
+
+// Version 1 kept favorites and recent projects under separate keys, version 2 added tags,
+// version 3 added git remotes, version 4 added editor overrides, version 5 added project sets and
+// version 6 added terminal startup commands
+export const STORED_DATA_VERSION = 6;
+
+export function emptyStoredData(): StoredData {
+  return {
+    version: STORED_DATA_VERSION,
+    favorites: [],
+    recentProjects: [],
+    tags: {},
+    remotes: {},
+    editors: {},
+    sets: {},
+    commands: {},
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function historyList(value: unknown): ProjectHistoryEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is FavoriteProject => !!entry && typeof entry === "object" && typeof entry.path === "string")
+    .map(normalizeHistoryEntry);
+}
+
+// Project maps are keyed by pathKey, so differently spelled Windows paths share one entry
+function tagMap(value: unknown): Record<string, string[]> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const tags: Record<string, string[]> = {};
+  for (const [path, projectTags] of Object.entries(value)) {
+    const key = pathKey(path);
+    const normalized = normalizeTags([...(tags[key] ?? []), ...stringList(projectTags)]);
+    if (normalized.length > 0) tags[key] = normalized;
+  }
+  return tags;
+}
+
+function stringMap(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      .map(([path, text]) => [pathKey(path), text]),
+  );
+}
+
+function setMap(value: unknown): Record<string, string[]> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const sets: Record<string, string[]> = {};
+  for (const [name, paths] of Object.entries(value)) {
+    const members = uniquePaths(stringList(paths));
+    if (normalizeSetName(name) && members.length > 0) sets[normalizeSetName(name)] = members;
+  }
+  return sets;
+}
+
+// Upgrade stored data of any known version to the current shape, dropping malformed entries.
+// Data without a version is the version 1 shape: { favorites, recentProjects }
+export function migrateStoredData(raw: unknown): StoredData {
+  if (!raw || typeof raw !== "object") return emptyStoredData();
+  const data = raw as Record<string, unknown>;
+  const version = typeof data.version === "number" ? data.version : 1;
+  if (version > STORED_DATA_VERSION) {
+    throw new Error(`Stored data version ${version} is newer than this extension supports`);
+  }
+
+  return {
+    version: STORED_DATA_VERSION,
+    favorites: uniquePaths(stringList(data.favorites)),
+    recentProjects: historyList(data.recentProjects),
+    tags: version >= 2 ? tagMap(data.tags) : {},
+    remotes: version >= 3 ? stringMap(data.remotes) : {},
+    editors: version >= 4 ? stringMap(data.editors) : {},
+    sets: version >= 5 ? setMap(data.sets) : {},
+    commands: version >= 6 ? stringMap(data.commands) : {},
+  };
+}
+
+// Tags are trimmed, lowercased and use dashes instead of spaces (e.g. "Client X" → "client-x")
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, "").replace(/\s+/g, "-");
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).sort();
+}
+
+// Split free-form tag input on commas
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
+
+export function setProjectTags(data: StoredData, path: string, tags: string[]): StoredData {
+  const normalized = normalizeTags(tags);
+  const updated = { ...data.tags };
+  if (normalized.length > 0) {
+    updated[pathKey(path)] = normalized;
+  } else {
+    delete updated[pathKey(path)];
+  }
+  return { ...data, tags: updated };
+}
+
+// Add or remove several favorites at once, keeping the existing order
+export function setFavorites(data: StoredData, paths: string[], favorite: boolean): StoredData {
+  const favorites = favorite
+    ? [
+        ...data.favorites,
+        ...paths.filter(
+          (path, index) => !includesPath(data.favorites, path) && !includesPath(paths.slice(0, index), path),
+        ),
+      ]
+    : data.favorites.filter((path) => !includesPath(paths, path));
+  return { ...data, favorites };
+}
+
+// Every tag in use, alphabetically
+export function getAllTags(tags: Record<string, string[]>): string[] {
+  return Array.from(new Set(Object.values(tags).flat())).sort();
+}
+
+// Set names keep their case but not surrounding or repeated whitespace
+export function normalizeSetName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// Add a project to a set (creating it) or remove it; sets without members are deleted
+export function setSetMembership(data: StoredData, name: string, path: string, member: boolean): StoredData {
+  const setName = normalizeSetName(name);
+  const members = data.sets[setName] ?? [];
+  const updated = { ...data.sets };
+  if (member) {
+    updated[setName] = includesPath(members, path) ? members : [...members, path];
+  } else if (members.some((member) => !isSamePath(member, path))) {
+    updated[setName] = members.filter((member) => !isSamePath(member, path));
+  } else {
+    delete updated[setName];
+  }
+  return { ...data, sets: updated };
+}
+
+// Rename a set; renaming onto an existing set merges the members
+export function renameProjectSet(data: StoredData, from: string, to: string): StoredData {
+  const name = normalizeSetName(to);
+  if (!(from in data.sets) || !name || name === from) return data;
+  const updated = { ...data.sets };
+  updated[name] = uniquePaths([...(updated[name] ?? []), ...updated[from]]);
+  delete updated[from];
+  return { ...data, sets: updated };
+}
+
+export function deleteProjectSet(data: StoredData, name: string): StoredData {
+  const updated = { ...data.sets };
+  delete updated[name];
+  return { ...data, sets: updated };
+}
+
+// Names of the sets a project belongs to, alphabetically
+export function getSetsContaining(sets: Record<string, string[]>, path: string): string[] {
+  return Object.keys(sets)
+    .filter((name) => includesPath(sets[name], path))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// Set or clear (with an empty command) a project's terminal startup command
+export function setStartupCommand(data: StoredData, path: string, command: string): StoredData {
+  const commands = { ...data.commands };
+  if (command.trim()) {
+    commands[pathKey(path)] = command.trim();
+  } else {
+    delete commands[pathKey(path)];
+  }
+  return { ...data, commands };
+}
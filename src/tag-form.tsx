@@ -0,0 +1,52 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { parseTagInput } from "./stored-data";
+import type { Project } from "./types";
+import { saveProjectTags } from "./utils";
+
+interface TagFormValues {
+  tags: string[];
+  newTags: string;
+}
+
+interface TagFormProps {
+  project: Project;
+  tags: string[];
+  // Tags used by any project, offered in the picker
+  allTags: string[];
+  onSave: () => void;
+}
+
+// Form to add and remove a project's tags
+export function TagForm({ project, tags, allTags, onSave }: TagFormProps) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: TagFormValues) {
+    if (await saveProjectTags(project.path, [...values.tags, ...parseTagInput(values.newTags)])) {
+      onSave();
+      pop();
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Tags for ${project.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Tags" icon={Icon.Tag} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="tags" title="Tags" defaultValue={tags}>
+        {allTags.map((tag) => (
+          <Form.TagPicker.Item key={tag} value={tag} title={tag} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="newTags"
+        title="New Tags"
+        placeholder="work, oss, client-x"
+        info="Comma-separated. Tags are lowercased and spaces become dashes."
+      />
+    </Form>
+  );
+}
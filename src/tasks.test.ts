@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  describeTomlValue,
+  detectPackageManager,
+  loadProjectTasks,
+  parseCargoAliases,
+  parseDenoTasks,
+  parseMakeTargets,
+  parseMixAliases,
+  parsePackageJsonScripts,
+  parsePyprojectScripts,
+  readTomlTables,
+  stripJsonComments,
+  stripTrailingCommas,
+} from "./tasks";
+
+const FIXTURES = join(__dirname, "__fixtures__", "tasks");
+
+function fixture(...segments: string[]): string {
+  return readFileSync(join(FIXTURES, ...segments), "utf8");
+}
+
+describe("readTomlTables", () => {
+  it("collects keys per table and unquotes values", () => {
+    const tables = readTomlTables('name = "root"\n[ tool . poetry ]\nversion = "1.0" # comment\n');
+    expect(tables.get("")?.get("name")).toBe("root");
+    expect(tables.get("tool.poetry")?.get("version")).toBe("1.0");
+  });
+
+  it("ignores keys inside arrays of tables", () => {
+    const tables = readTomlTables('[alias]\nb = "build"\n[[bin]]\nname = "x"\n');
+    expect(Array.from(tables.get("alias")?.keys() ?? [])).toEqual(["b"]);
+  });
+});
+
+describe("describeTomlValue", () => {
+  it("joins string arrays", () => {
+    expect(describeTomlValue('["check", "--workspace"]')).toBe("check --workspace");
+  });
+
+  it("shows the command of an inline table", () => {
+    expect(describeTomlValue('{ shell = "ruff check ." }')).toBe("ruff check .");
+  });
+});
+
+describe("detectPackageManager", () => {
+  it("prefers the lockfile's package manager", () => {
+    expect(detectPackageManager(["pnpm-lock.yaml"])).toBe("pnpm");
+    expect(detectPackageManager(["yarn.lock"])).toBe("yarn");
+    expect(detectPackageManager(["bun.lockb"])).toBe("bun");
+    expect(detectPackageManager([])).toBe("npm");
+  });
+});
+
+describe("parsePackageJsonScripts", () => {
+  it("lists scripts with the package manager's run command", () => {
+    expect(parsePackageJsonScripts(fixture("npm", "package.json"), "pnpm")).toEqual([
+      { name: "dev", source: "npm", command: "pnpm run dev", description: "vite" },
+      { name: "build", source: "npm", command: "pnpm run build", description: "tsc && vite build" },
+      { name: "test", source: "npm", command: "pnpm run test", description: "vitest run" },
+    ]);
+  });
+
+  it("returns nothing for invalid JSON or missing scripts", () => {
+    expect(parsePackageJsonScripts("{")).toEqual([]);
+    expect(parsePackageJsonScripts('{"name": "x"}')).toEqual([]);
+  });
+});
+
+describe("parseMakeTargets", () => {
+  it("lists explicit targets and skips special, pattern and variable rules", () => {
+    const tasks = parseMakeTargets(fixture("make", "Makefile"));
+    expect(tasks.map((task) => task.name)).toEqual(["build", "test", "lint", "fmt", "clean"]);
+  });
+
+  it("reads ## descriptions", () => {
+    const [build] = parseMakeTargets(fixture("make", "Makefile"));
+    expect(build).toEqual({ name: "build", source: "make", command: "make build", description: "Compile the binary" });
+  });
+});
+
+describe("parseCargoAliases", () => {
+  it("lists aliases from the [alias] table", () => {
+    expect(parseCargoAliases(fixture("cargo", ".cargo", "config.toml"))).toEqual([
+      { name: "b", source: "cargo", command: "cargo b", description: "build" },
+      { name: "xtask", source: "cargo", command: "cargo xtask", description: "run --package xtask --" },
+      {
+        name: "check-all",
+        source: "cargo",
+        command: "cargo check-all",
+        description: "check --workspace --all-targets",
+      },
+    ]);
+  });
+});
+
+describe("stripJsonComments", () => {
+  it("keeps comment-like text inside strings", () => {
+    expect(JSON.parse(stripJsonComments('{"a": "http://x" // note\n}'))).toEqual({ a: "http://x" });
+  });
+});
+
+describe("stripTrailingCommas", () => {
+  it("removes commas before closing brackets but not inside strings", () => {
+    expect(JSON.parse(stripTrailingCommas('{"a": [1, 2,], "b": ",}",\n}'))).toEqual({ a: [1, 2], b: ",}" });
+  });
+});
+
+describe("parseDenoTasks", () => {
+  it("lists string and object tasks from deno.jsonc", () => {
+    expect(parseDenoTasks(fixture("deno", "deno.jsonc"))).toEqual([
+      { name: "start", source: "deno", command: "deno task start", description: "deno run --allow-net main.ts" },
+      { name: "docs", source: "deno", command: "deno task docs", description: "open https://deno.land/manual" },
+      { name: "check", source: "deno", command: "deno task check", description: "deno check **/*.ts" },
+    ]);
+  });
+});
+
+describe("parsePyprojectScripts", () => {
+  it("lists poetry scripts", () => {
+    expect(parsePyprojectScripts(fixture("poetry", "pyproject.toml"))).toEqual([
+      { name: "cli-tool", source: "poetry", command: "poetry run cli-tool", description: "cli_tool.main:run" },
+      { name: "migrate", source: "poetry", command: "poetry run migrate", description: "cli_tool.db:migrate" },
+    ]);
+  });
+
+  it("lists pdm scripts from keys and sub-tables, skipping shared options", () => {
+    expect(parsePyprojectScripts(fixture("pdm", "pyproject.toml"))).toEqual([
+      { name: "start", source: "pdm", command: "pdm run start", description: "flask run -p 54321" },
+      { name: "lint", source: "pdm", command: "pdm run lint", description: "ruff check ." },
+      { name: "test", source: "pdm", command: "pdm run test", description: "pytest -x" },
+    ]);
+  });
+});
+
+describe("parseMixAliases", () => {
+  it("lists top-level alias names, skipping comments and nested lists", () => {
+    expect(parseMixAliases(fixture("mix", "mix.exs")).map((task) => task.command)).toEqual([
+      "mix setup",
+      "mix ecto.setup",
+      "mix test",
+      "mix assets.deploy",
+    ]);
+  });
+
+  it("returns nothing without an aliases function", () => {
+    expect(parseMixAliases("defmodule A do\nend\n")).toEqual([]);
+  });
+});
+
+describe("loadProjectTasks", () => {
+  it("detects the package manager from lockfiles", async () => {
+    const tasks = await loadProjectTasks(join(FIXTURES, "npm"));
+    expect(tasks.map((task) => task.command)).toEqual(["pnpm run dev", "pnpm run build", "pnpm run test"]);
+  });
+
+  it("reads cargo aliases from .cargo/config.toml", async () => {
+    const tasks = await loadProjectTasks(join(FIXTURES, "cargo"));
+    expect(tasks.map((task) => task.name)).toEqual(["b", "xtask", "check-all"]);
+  });
+
+  it("returns nothing for projects without task files", async () => {
+    expect(await loadProjectTasks(join(FIXTURES, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,285 @@
+import { access, readFile } from "fs/promises";
+import { join } from "path";
+import type { ProjectTask, TaskSource } from "./types";
+
+type TomlTables = Map<string, Map<string, string>>;
+
+// Minimal TOML reader: top-level keys of each [table], enough to list scripts and aliases
+export function readTomlTables(contents: string): TomlTables {
+  const tables: TomlTables = new Map([["", new Map()]]);
+  let current = tables.get("") as Map<string, string>;
+
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    // Arrays of tables ([[bin]]) never hold scripts or aliases
+    if (line.startsWith("[[")) {
+      current = new Map();
+      continue;
+    }
+
+    const header = line.match(/^\[\s*([^[\]]+?)\s*\]$/);
+    if (header) {
+      const name = header[1].replace(/\s*\.\s*/g, ".").replace(/"/g, "");
+      current = tables.get(name) ?? new Map();
+      tables.set(name, current);
+      continue;
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/);
+    if (pair) {
+      const key = pair[1].replace(/^["']|["']$/g, "");
+      current.set(key, unquoteTomlValue(pair[2]));
+    }
+  }
+
+  return tables;
+}
+
+function unquoteTomlValue(value: string): string {
+  const trimmed = value.replace(/\s+#.*$/, "").trim();
+  const quoted = trimmed.match(/^"((?:[^"\\]|\\.)*)"$|^'([^']*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  return trimmed;
+}
+
+// Readable form of a task value: arrays are joined and inline tables show their command
+export function describeTomlValue(value: string): string {
+  const inlineTable = value.match(/^\{.*\b(?:cmd|shell|call)\s*=\s*("[^"]*"|'[^']*'|\[[^\]]*\])/);
+  if (inlineTable) return describeTomlValue(unquoteTomlValue(inlineTable[1]));
+
+  if (/^\[.*\]$/.test(value)) {
+    return Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g), (match) => match[1] ?? match[2]).join(" ");
+  }
+  return value;
+}
+
+// Detect the package manager from lockfiles so scripts run the same way as in a terminal
+export function detectPackageManager(files: string[]): "npm" | "pnpm" | "yarn" | "bun" {
+  if (files.includes("pnpm-lock.yaml")) return "pnpm";
+  if (files.includes("yarn.lock")) return "yarn";
+  if (files.includes("bun.lockb") || files.includes("bun.lock")) return "bun";
+  return "npm";
+}
+
+export function parsePackageJsonScripts(contents: string, packageManager = "npm"): ProjectTask[] {
+  let scripts: unknown;
+  try {
+    scripts = JSON.parse(contents).scripts;
+  } catch {
+    return [];
+  }
+  if (!scripts || typeof scripts !== "object") return [];
+
+  return Object.entries(scripts as Record<string, unknown>)
+    .filter(([, body]) => typeof body === "string")
+    .map(([name, body]) => ({
+      name,
+      source: "npm" as const,
+      command: `${packageManager} run ${name}`,
+      description: body as string,
+    }));
+}
+
+// Explicit targets, with the common `target: ## description` convention
+export function parseMakeTargets(contents: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  const seen = new Set<string>();
+
+  for (const line of contents.split(/\r?\n/)) {
+    // Recipes are tab-indented; `:=`, `::=` and `?=` are assignments, not rules
+    if (line.startsWith("\t") || /^[^:#]*[:?+!]?=/.test(line)) continue;
+    const rule = line.match(/^([^:#=\s][^:#=]*?)\s*::?(?!=)(.*)$/);
+    if (!rule) continue;
+
+    const description = rule[2].match(/##\s*(.+)$/)?.[1].trim();
+    for (const target of rule[1].split(/\s+/)) {
+      // Skip special targets (.PHONY), pattern rules and variable references
+      if (!target || target.startsWith(".") || /[%$()]/.test(target) || seen.has(target)) continue;
+      seen.add(target);
+      tasks.push({ name: target, source: "make", command: `make ${target}`, description });
+    }
+  }
+
+  return tasks;
+}
+
+// Aliases from .cargo/config.toml
+export function parseCargoAliases(contents: string): ProjectTask[] {
+  const aliases = readTomlTables(contents).get("alias") ?? new Map();
+  return Array.from(aliases.entries()).map(([name, body]) => ({
+    name,
+    source: "cargo" as const,
+    command: `cargo ${name}`,
+    description: describeTomlValue(body),
+  }));
+}
+
+// Strip // and /* */ comments from JSONC outside of strings
+export function stripJsonComments(contents: string): string {
+  return contents.replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? "");
+}
+
+// Drop the trailing commas JSONC allows before } and ], outside of strings
+export function stripTrailingCommas(contents: string): string {
+  return contents.replace(/("(?:[^"\\]|\\.)*")|,(?=\s*[}\]])/g, (match, string) => string ?? "");
+}
+
+export function parseDenoTasks(contents: string): ProjectTask[] {
+  let tasks: unknown;
+  try {
+    tasks = JSON.parse(stripTrailingCommas(stripJsonComments(contents))).tasks;
+  } catch {
+    return [];
+  }
+  if (!tasks || typeof tasks !== "object") return [];
+
+  return Object.entries(tasks as Record<string, unknown>).map(([name, body]) => ({
+    name,
+    source: "deno" as const,
+    command: `deno task ${name}`,
+    description: typeof body === "string" ? body : ((body as { command?: string })?.command ?? undefined),
+  }));
+}
+
+// Poetry scripts and PDM scripts from pyproject.toml
+export function parsePyprojectScripts(contents: string): ProjectTask[] {
+  const tables = readTomlTables(contents);
+  const tasks: ProjectTask[] = [];
+
+  for (const [name, body] of tables.get("tool.poetry.scripts") ?? []) {
+    tasks.push({ name, source: "poetry", command: `poetry run ${name}`, description: describeTomlValue(body) });
+  }
+
+  const pdmNames = new Map<string, string | undefined>();
+  for (const [key, body] of tables.get("tool.pdm.scripts") ?? []) {
+    // Dotted keys (`test.cmd = "pytest"`) set a field of the script
+    const [name, field] = key.split(/\.(.*)/);
+    if (field === undefined || ["cmd", "shell", "call"].includes(field)) {
+      pdmNames.set(name, describeTomlValue(body));
+    } else if (!pdmNames.has(name)) {
+      pdmNames.set(name, undefined);
+    }
+  }
+  for (const [table, values] of tables) {
+    const match = table.match(/^tool\.pdm\.scripts\.(.+)$/);
+    if (!match) continue;
+    const body = values.get("cmd") ?? values.get("shell") ?? values.get("call");
+    pdmNames.set(match[1], body === undefined ? undefined : describeTomlValue(body));
+  }
+  for (const [name, body] of pdmNames) {
+    // "_" holds options shared by all scripts
+    if (name === "_") continue;
+    tasks.push({ name, source: "pdm", command: `pdm run ${name}`, description: body });
+  }
+
+  return tasks;
+}
+
+// Alias names from the keyword list returned by `aliases` in mix.exs
+export function parseMixAliases(contents: string): ProjectTask[] {
+  const start = contents.search(/defp?\s+aliases\b/);
+  const open = start === -1 ? -1 : contents.indexOf("[", start);
+  if (open === -1) return [];
+
+  // Keep only the text of the outer keyword list, dropping nested lists, tuples and comments
+  let depth = 0;
+  let inString = false;
+  let topLevel = "";
+  for (let i = open; i < contents.length; i++) {
+    const char = contents[i];
+    if (inString) {
+      if (depth === 1) topLevel += char;
+      if (char === "\\") {
+        if (depth === 1) topLevel += contents[i + 1] ?? "";
+        i += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === "#") {
+      const newline = contents.indexOf("\n", i);
+      i = newline === -1 ? contents.length : newline - 1;
+      continue;
+    }
+    if (char === "[" || char === "{" || char === "(") {
+      depth += 1;
+      continue;
+    }
+    if (char === "]" || char === "}" || char === ")") {
+      depth -= 1;
+      if (depth === 0) break;
+      continue;
+    }
+    if (char === '"') inString = true;
+    if (depth === 1) topLevel += char;
+  }
+
+  const tasks: ProjectTask[] = [];
+  for (const match of topLevel.matchAll(/(?:^|,)\s*(?:"([^"]+)"|([a-z_][\w.]*)):\s/g)) {
+    const name = match[1] ?? match[2];
+    tasks.push({ name, source: "mix", command: `mix ${name}` });
+  }
+  return tasks;
+}
+
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const LOCKFILES = ["pnpm-lock.yaml", "yarn.lock", "bun.lockb", "bun.lock"];
+
+// All runnable tasks defined in a project's root
+export async function loadProjectTasks(projectPath: string): Promise<ProjectTask[]> {
+  const file = (name: string) => readOptional(join(projectPath, name));
+  const [packageJson, makefile, cargoConfig, cargoConfigLegacy, denoJson, denoJsonc, pyproject, mixExs] =
+    await Promise.all([
+      file("package.json"),
+      file("Makefile"),
+      file(join(".cargo", "config.toml")),
+      file(join(".cargo", "config")),
+      file("deno.json"),
+      file("deno.jsonc"),
+      file("pyproject.toml"),
+      file("mix.exs"),
+    ]);
+
+  const tasks: ProjectTask[] = [];
+  if (packageJson) {
+    const lockfiles = (
+      await Promise.all(LOCKFILES.map(async (name) => ((await exists(join(projectPath, name))) ? name : undefined)))
+    ).filter((name): name is string => name !== undefined);
+    tasks.push(...parsePackageJsonScripts(packageJson, detectPackageManager(lockfiles)));
+  }
+  if (makefile) tasks.push(...parseMakeTargets(makefile));
+  if (cargoConfig ?? cargoConfigLegacy) tasks.push(...parseCargoAliases((cargoConfig ?? cargoConfigLegacy) as string));
+  if (denoJson ?? denoJsonc) tasks.push(...parseDenoTasks((denoJson ?? denoJsonc) as string));
+  if (pyproject) tasks.push(...parsePyprojectScripts(pyproject));
+  if (mixExs) tasks.push(...parseMixAliases(mixExs));
+  return tasks;
+}
+
+export const TASK_SOURCE_TITLES: Record<TaskSource, string> = {
+  npm: "Package Scripts",
+  make: "Make Targets",
+  cargo: "Cargo Aliases",
+  deno: "Deno Tasks",
+  poetry: "Poetry Scripts",
+  pdm: "PDM Scripts",
+  mix: "Mix Aliases",
+};
@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import {
+  appleScriptString,
+  buildShellLine,
+  buildTerminalInvocation,
+  buildTmuxLine,
+  encodePowerShellCommand,
+  findTerminalAdapter,
+  KITTY_SOCKET,
+  shellCommandArgs,
+  tmuxSessionName,
+  type TerminalInvocation,
+  type TerminalRequest,
+} from "./terminal";
+
+function request(overrides: Partial<TerminalRequest> = {}): TerminalRequest {
+  return { cwd: "/p", title: "app", mode: "window", shell: "/bin/zsh", ...overrides };
+}
+
+function script(invocation: TerminalInvocation): string {
+  if (invocation.kind !== "applescript") throw new Error(`expected AppleScript, got ${invocation.kind}`);
+  return invocation.script;
+}
+
+function args(invocation: TerminalInvocation): string[] {
+  if (invocation.kind !== "exec") throw new Error(`expected a process, got ${invocation.kind}`);
+  return [invocation.file, ...invocation.args];
+}
+
+describe("appleScriptString", () => {
+  it("escapes quotes and backslashes", () => {
+    expect(appleScriptString('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+});
+
+describe("buildShellLine", () => {
+  it("quotes the project path", () => {
+    expect(buildShellLine("/Users/me/it's here", "make test")).toBe("cd '/Users/me/it'\\''s here' && make test");
+  });
+});
+
+describe("shellCommandArgs", () => {
+  it("runs the command in a login shell that stays open", () => {
+    expect(shellCommandArgs("/bin/zsh", "npm run dev")).toEqual(["/bin/zsh", "-lc", "npm run dev; exec /bin/zsh -l"]);
+  });
+
+  it("is empty without a command", () => {
+    expect(shellCommandArgs("/bin/zsh", undefined)).toEqual([]);
+  });
+});
+
+describe("findTerminalAdapter", () => {
+  it("matches terminal names loosely", () => {
+    expect(findTerminalAdapter("")?.title).toBe("Terminal");
+    expect(findTerminalAdapter("iTerm2")?.title).toBe("iTerm");
+    expect(findTerminalAdapter(" Wez Term ")?.title).toBe("WezTerm");
+    expect(findTerminalAdapter("Ghostty")?.title).toBe("Ghostty");
+  });
+
+  it("runs tmux inside Terminal or the named host", () => {
+    expect(findTerminalAdapter("tmux")?.title).toBe("tmux");
+    expect(findTerminalAdapter("tmux+iTerm")?.title).toBe("tmux in iTerm");
+    expect(findTerminalAdapter("tmux+nope")).toBeUndefined();
+  });
+
+  it("returns undefined for terminals without an adapter", () => {
+    expect(findTerminalAdapter("Hyper")).toBeUndefined();
+  });
+
+  it("uses Windows Terminal for the default terminal on Windows", () => {
+    expect(findTerminalAdapter("", "win32")?.title).toBe("Windows Terminal");
+    expect(findTerminalAdapter("Terminal", "win32")?.title).toBe("Windows Terminal");
+    expect(findTerminalAdapter("Terminal", "darwin")?.title).toBe("Terminal");
+    expect(findTerminalAdapter("pwsh", "win32")?.title).toBe("PowerShell 7");
+  });
+});
+
+describe("Terminal", () => {
+  it("runs the command in a new window titled after the project", () => {
+    expect(script(buildTerminalInvocation("Terminal", request({ command: "npm run dev" })))).toBe(
+      [
+        'tell application "Terminal"',
+        "activate",
+        "set newTab to do script \"cd '/p' && npm run dev\"",
+        'set custom title of newTab to "app"',
+        "end tell",
+      ].join("\n"),
+    );
+  });
+
+  it("only changes directory without a command", () => {
+    expect(script(buildTerminalInvocation("Terminal", request()))).toContain("do script \"cd '/p'\"");
+  });
+
+  it("opens tabs with Cmd+T in the front window", () => {
+    const tab = script(buildTerminalInvocation("Terminal", request({ mode: "tab" })));
+    expect(tab).toContain('keystroke "t" using command down');
+    expect(tab).toContain("in front window");
+  });
+
+  it("falls back to a window for splits", () => {
+    expect(script(buildTerminalInvocation("Terminal", request({ mode: "split" })))).not.toContain("keystroke");
+  });
+});
+
+describe("iTerm", () => {
+  it("names the session and writes the startup line", () => {
+    const window = script(buildTerminalInvocation("iTerm", request({ command: "make" })));
+    expect(window).toContain("create window with default profile");
+    expect(window).toContain('set name to "app"');
+    expect(window).toContain("write text \"cd '/p' && make\"");
+  });
+
+  it("creates tabs and vertical splits in the current window", () => {
+    expect(script(buildTerminalInvocation("iTerm", request({ mode: "tab" })))).toContain(
+      "create tab with default profile",
+    );
+    expect(script(buildTerminalInvocation("iTerm", request({ mode: "split" })))).toContain(
+      "split vertically with default profile",
+    );
+  });
+});
+
+describe("Warp", () => {
+  it("opens a launch URL and leaves the command on the clipboard", () => {
+    expect(buildTerminalInvocation("Warp", request({ cwd: "/my app", command: "make", mode: "tab" }))).toEqual({
+      kind: "open",
+      target: "warp://action/new_tab?path=%2Fmy%20app",
+      clipboard: "make",
+    });
+  });
+});
+
+describe("kitty", () => {
+  it("starts a new instance for windows", () => {
+    expect(args(buildTerminalInvocation("kitty", request({ command: "make" })))).toEqual([
+      "open",
+      "-na",
+      "kitty",
+      "--args",
+      "--directory",
+      "/p",
+      "--title",
+      "app",
+      "/bin/zsh",
+      "-lc",
+      "make; exec /bin/zsh -l",
+    ]);
+  });
+
+  it("uses remote control for tabs and splits", () => {
+    const tab = args(buildTerminalInvocation("kitty", request({ mode: "tab" })));
+    expect(tab).toEqual(expect.arrayContaining(["@", "--to", KITTY_SOCKET, "launch", "--type=tab", "--tab-title"]));
+    expect(args(buildTerminalInvocation("kitty", request({ mode: "split" })))).toContain("--type=window");
+  });
+});
+
+describe("WezTerm", () => {
+  it("uses start for windows and the cli for tabs and splits", () => {
+    expect(args(buildTerminalInvocation("WezTerm", request())).slice(1)).toEqual(["start", "--cwd", "/p"]);
+    expect(args(buildTerminalInvocation("WezTerm", request({ mode: "tab", command: "make" }))).slice(1)).toEqual([
+      "cli",
+      "spawn",
+      "--cwd",
+      "/p",
+      "--",
+      "/bin/zsh",
+      "-lc",
+      "make; exec /bin/zsh -l",
+    ]);
+    expect(args(buildTerminalInvocation("WezTerm", request({ mode: "split" }))).slice(1, 3)).toEqual([
+      "cli",
+      "split-pane",
+    ]);
+  });
+});
+
+describe("Ghostty", () => {
+  it("passes the command last with -e and only opens windows", () => {
+    const invocation = args(buildTerminalInvocation("Ghostty", request({ mode: "tab", command: "make" })));
+    expect(invocation.slice(0, 6)).toEqual([
+      "open",
+      "-na",
+      "Ghostty",
+      "--args",
+      "--working-directory=/p",
+      "--title=app",
+    ]);
+    expect(invocation.slice(6)).toEqual(["-e", "/bin/zsh", "-lc", "make; exec /bin/zsh -l"]);
+  });
+});
+
+describe("tmux", () => {
+  it("replaces characters tmux refuses in session names", () => {
+    expect(tmuxSessionName("my.app: api")).toBe("my_app_api");
+    expect(tmuxSessionName("")).toBe("project");
+  });
+
+  it("attaches to the session, creating it and sending the command only when it's new", () => {
+    expect(buildTmuxLine(request({ title: "pj.raycast", command: "make dev" }))).toBe(
+      "tmux has-session -t '=pj_raycast' 2>/dev/null || " +
+        "{ tmux new-session -d -s 'pj_raycast' -c '/p' && tmux send-keys -t '=pj_raycast' 'make dev' Enter; }; " +
+        "tmux attach-session -t '=pj_raycast'",
+    );
+  });
+
+  it("runs the tmux line in the host terminal", () => {
+    const invocation = script(buildTerminalInvocation("tmux+iTerm", request()));
+    expect(invocation).toContain('tell application "iTerm"');
+    expect(invocation).toContain("tmux attach-session -t '=app'");
+  });
+});
+
+describe("buildTerminalInvocation", () => {
+  it("opens the directory with unknown terminals and copies the command", () => {
+    expect(buildTerminalInvocation("Hyper", request({ command: "make" }))).toEqual({
+      kind: "open",
+      target: "/p",
+      application: "Hyper",
+      clipboard: "make",
+    });
+  });
+});
+
+describe("Windows terminals", () => {
+  const decode = (value: string) => Buffer.from(value, "base64").toString("utf16le");
+  const windowsRequest = (overrides: Partial<TerminalRequest> = {}) =>
+    request({ cwd: "C:\\code\\my app", shell: "", ...overrides });
+
+  it("encodes PowerShell commands as base64 UTF-16LE", () => {
+    expect(decode(encodePowerShellCommand("npm run dev; echo 'done'"))).toBe("npm run dev; echo 'done'");
+  });
+
+  it("opens Windows Terminal windows, tabs and splits in the project directory", () => {
+    const args = (mode: TerminalRequest["mode"]) => {
+      const invocation = buildTerminalInvocation("Windows Terminal", windowsRequest({ mode }), "win32");
+      if (invocation.kind !== "exec") throw new Error(`expected exec, got ${invocation.kind}`);
+      expect(invocation.file).toBe("wt.exe");
+      return invocation.args;
+    };
+    expect(args("window")).toEqual(["-w", "new", "new-tab", "-d", "C:\\code\\my app", "--title", "app"]);
+    expect(args("tab").slice(0, 3)).toEqual(["-w", "0", "new-tab"]);
+    expect(args("split").slice(0, 3)).toEqual(["-w", "0", "split-pane"]);
+  });
+
+  it("runs the startup command in PowerShell inside Windows Terminal", () => {
+    const invocation = buildTerminalInvocation("wt", windowsRequest({ command: "npm run dev; npm test" }), "win32");
+    if (invocation.kind !== "exec") throw new Error(`expected exec, got ${invocation.kind}`);
+    const [executable, noExit, flag, encoded] = invocation.args.slice(-4);
+    expect([executable, noExit, flag]).toEqual(["powershell.exe", "-NoExit", "-EncodedCommand"]);
+    expect(decode(encoded)).toBe("npm run dev; npm test");
+  });
+
+  it("starts a PowerShell console window with the project title", () => {
+    const invocation = buildTerminalInvocation(
+      "PowerShell",
+      windowsRequest({ title: "it's", command: "make", mode: "tab" }),
+      "win32",
+    );
+    if (invocation.kind !== "exec") throw new Error(`expected exec, got ${invocation.kind}`);
+    expect(invocation.file).toBe("powershell.exe");
+    const command = invocation.args[2];
+    expect(command).toMatch(
+      /^Start-Process powershell\.exe -WorkingDirectory 'C:\\code\\my app' -ArgumentList '-NoExit','-EncodedCommand','/,
+    );
+    const encoded = command.match(/'-EncodedCommand','([^']+)'$/)?.[1] ?? "";
+    expect(decode(encoded)).toBe("$Host.UI.RawUI.WindowTitle = 'it''s'; make");
+  });
+});
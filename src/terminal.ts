@@ -0,0 +1,330 @@
+import { powershellQuote, shellQuote } from "./custom-actions";
+
+export type TerminalMode = "window" | "tab" | "split";
+
+// What to open: a shell in `cwd`, optionally running `command` first
+export interface TerminalRequest {
+  cwd: string;
+  // Window, tab or tmux session title; usually the project name
+  title: string;
+  command?: string;
+  mode: TerminalMode;
+  // Login shell used to run the command and to stay open afterwards
+  shell: string;
+}
+
+export type TerminalInvocation =
+  | { kind: "applescript"; script: string }
+  | { kind: "exec"; file: string; args: string[] }
+  // Terminals that can't run a command: open the target and leave the command on the clipboard
+  | { kind: "open"; target: string; application?: string; clipboard?: string };
+
+export interface TerminalAdapter {
+  title: string;
+  // Modes the terminal supports; other modes fall back to a new window
+  modes: TerminalMode[];
+  build: (request: TerminalRequest) => TerminalInvocation;
+}
+
+const KITTY = "/Applications/kitty.app/Contents/MacOS/kitty";
+const WEZTERM = "/Applications/WezTerm.app/Contents/MacOS/wezterm";
+// kitty only accepts remote control from outside through a socket, set with `listen_on` in kitty.conf
+export const KITTY_SOCKET = "unix:/tmp/kitty";
+
+// Quote a value as an AppleScript string literal
+export function appleScriptString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Shell line that runs a command from the project root
+export function buildShellLine(cwd: string, command: string): string {
+  return `cd ${shellQuote(cwd)} && ${command}`;
+}
+
+// Line typed into scriptable terminals: change to the project and run the command, if any
+function startupLine(request: TerminalRequest): string {
+  return request.command ? buildShellLine(request.cwd, request.command) : `cd ${shellQuote(request.cwd)}`;
+}
+
+// Arguments that run the command in a login shell and keep the shell open when it exits
+export function shellCommandArgs(shell: string, command: string | undefined): string[] {
+  return command ? [shell, "-lc", `${command}; exec ${shell} -l`] : [];
+}
+
+// tmux refuses "." and ":" in session names
+export function tmuxSessionName(title: string): string {
+  return title.replace(/[.:\s]+/g, "_") || "project";
+}
+
+// Shell line that attaches to the project's tmux session, creating it (and running the command) first
+export function buildTmuxLine(request: TerminalRequest): string {
+  const name = tmuxSessionName(request.title);
+  const target = shellQuote(`=${name}`);
+  const create = [`tmux new-session -d -s ${shellQuote(name)} -c ${shellQuote(request.cwd)}`];
+  if (request.command) create.push(`tmux send-keys -t ${target} ${shellQuote(request.command)} Enter`);
+  return `tmux has-session -t ${target} 2>/dev/null || { ${create.join(" && ")}; }; tmux attach-session -t ${target}`;
+}
+
+const terminal: TerminalAdapter = {
+  title: "Terminal",
+  modes: ["window", "tab"],
+  build: (request) => {
+    const line = appleScriptString(startupLine(request));
+    // Terminal has no tab command, so new tabs are opened with Cmd+T
+    const open =
+      request.mode === "tab"
+        ? [
+            "if (count of windows) is 0 then",
+            `set newTab to do script ${line}`,
+            "else",
+            'tell application "System Events" to keystroke "t" using command down',
+            "delay 0.2",
+            `set newTab to do script ${line} in front window`,
+            "end if",
+          ]
+        : [`set newTab to do script ${line}`];
+    return {
+      kind: "applescript",
+      script: [
+        'tell application "Terminal"',
+        "activate",
+        ...open,
+        `set custom title of newTab to ${appleScriptString(request.title)}`,
+        "end tell",
+      ].join("\n"),
+    };
+  },
+};
+
+const iterm: TerminalAdapter = {
+  title: "iTerm",
+  modes: ["window", "tab", "split"],
+  build: (request) => {
+    const newWindow = "set newSession to current session of (create window with default profile)";
+    const open: Record<TerminalMode, string[]> = {
+      window: [newWindow],
+      tab: [
+        "if (count of windows) is 0 then",
+        newWindow,
+        "else",
+        "tell current window to set newSession to current session of (create tab with default profile)",
+        "end if",
+      ],
+      split: [
+        "if (count of windows) is 0 then",
+        newWindow,
+        "else",
+        "tell current session of current window to set newSession to (split vertically with default profile)",
+        "end if",
+      ],
+    };
+    return {
+      kind: "applescript",
+      script: [
+        'tell application "iTerm"',
+        "activate",
+        ...open[request.mode],
+        "tell newSession",
+        `set name to ${appleScriptString(request.title)}`,
+        `write text ${appleScriptString(startupLine(request))}`,
+        "end tell",
+        "end tell",
+      ].join("\n"),
+    };
+  },
+};
+
+const warp: TerminalAdapter = {
+  title: "Warp",
+  modes: ["window", "tab"],
+  build: (request) => ({
+    kind: "open",
+    target: `warp://action/${request.mode === "tab" ? "new_tab" : "new_window"}?path=${encodeURIComponent(request.cwd)}`,
+    clipboard: request.command,
+  }),
+};
+
+const kitty: TerminalAdapter = {
+  title: "kitty",
+  modes: ["window", "tab", "split"],
+  build: (request) => {
+    const command = shellCommandArgs(request.shell, request.command);
+    if (request.mode === "window") {
+      return {
+        kind: "exec",
+        file: "open",
+        args: ["-na", "kitty", "--args", "--directory", request.cwd, "--title", request.title, ...command],
+      };
+    }
+    // kitty calls the panes inside a tab "windows"
+    return {
+      kind: "exec",
+      file: KITTY,
+      args: [
+        "@",
+        "--to",
+        KITTY_SOCKET,
+        "launch",
+        `--type=${request.mode === "tab" ? "tab" : "window"}`,
+        "--cwd",
+        request.cwd,
+        request.mode === "tab" ? "--tab-title" : "--title",
+        request.title,
+        ...command,
+      ],
+    };
+  },
+};
+
+const wezterm: TerminalAdapter = {
+  title: "WezTerm",
+  modes: ["window", "tab", "split"],
+  build: (request) => {
+    const command = shellCommandArgs(request.shell, request.command);
+    const args: Record<TerminalMode, string[]> = {
+      window: ["start", "--cwd", request.cwd],
+      tab: ["cli", "spawn", "--cwd", request.cwd],
+      split: ["cli", "split-pane", "--cwd", request.cwd],
+    };
+    return {
+      kind: "exec",
+      file: WEZTERM,
+      args: [...args[request.mode], ...(command.length > 0 ? ["--", ...command] : [])],
+    };
+  },
+};
+
+const ghostty: TerminalAdapter = {
+  title: "Ghostty",
+  modes: ["window"],
+  build: (request) => {
+    const command = shellCommandArgs(request.shell, request.command);
+    return {
+      kind: "exec",
+      file: "open",
+      args: [
+        "-na",
+        "Ghostty",
+        "--args",
+        `--working-directory=${request.cwd}`,
+        `--title=${request.title}`,
+        // -e takes the rest of the arguments, so it goes last
+        ...(command.length > 0 ? ["-e", ...command] : []),
+      ],
+    };
+  },
+};
+
+// PowerShell's -EncodedCommand takes base64 UTF-16LE, which sidesteps quoting the command for the
+// Windows command line (and Windows Terminal's own ";" separator)
+export function encodePowerShellCommand(script: string): string {
+  return Buffer.from(script, "utf16le").toString("base64");
+}
+
+// Arguments that start PowerShell in the current directory, running the command and staying open
+function powershellCommandArgs(executable: string, command: string | undefined): string[] {
+  return command ? [executable, "-NoExit", "-EncodedCommand", encodePowerShellCommand(command)] : [];
+}
+
+const windowsTerminal: TerminalAdapter = {
+  title: "Windows Terminal",
+  modes: ["window", "tab", "split"],
+  build: (request) => {
+    // `-w new` always opens a window; `-w 0` targets the most recently used one
+    const target: Record<TerminalMode, string[]> = {
+      window: ["-w", "new", "new-tab"],
+      tab: ["-w", "0", "new-tab"],
+      split: ["-w", "0", "split-pane"],
+    };
+    return {
+      kind: "exec",
+      file: "wt.exe",
+      args: [
+        ...target[request.mode],
+        "-d",
+        request.cwd,
+        "--title",
+        request.title,
+        ...powershellCommandArgs("powershell.exe", request.command),
+      ],
+    };
+  },
+};
+
+// A console window running PowerShell ("powershell.exe") or PowerShell 7 ("pwsh.exe")
+function powershell(executable: string, title: string): TerminalAdapter {
+  return {
+    title,
+    modes: ["window"],
+    build: (request) => {
+      const script = [`$Host.UI.RawUI.WindowTitle = ${powershellQuote(request.title)}`];
+      if (request.command) script.push(request.command);
+      const args = ["-NoExit", "-EncodedCommand", encodePowerShellCommand(script.join("; "))];
+      // Start-Process opens a new console window, which a process spawned directly wouldn't get
+      return {
+        kind: "exec",
+        file: executable,
+        args: [
+          "-NoProfile",
+          "-Command",
+          `Start-Process ${executable} -WorkingDirectory ${powershellQuote(request.cwd)} -ArgumentList ${args.map(powershellQuote).join(",")}`,
+        ],
+      };
+    },
+  };
+}
+
+// tmux runs inside a host terminal ("tmux+iTerm"), Terminal by default
+function tmux(host: TerminalAdapter): TerminalAdapter {
+  return {
+    title: host === terminal ? "tmux" : `tmux in ${host.title}`,
+    modes: host.modes,
+    build: (request) => host.build({ ...request, command: buildTmuxLine(request) }),
+  };
+}
+
+const ADAPTERS: Record<string, TerminalAdapter> = {
+  terminal,
+  iterm,
+  iterm2: iterm,
+  warp,
+  kitty,
+  wezterm,
+  ghostty,
+  windowsterminal: windowsTerminal,
+  wt: windowsTerminal,
+  powershell: powershell("powershell.exe", "PowerShell"),
+  pwsh: powershell("pwsh.exe", "PowerShell 7"),
+};
+
+// Adapter for the "Terminal Application" preference, or undefined for terminals without one. On
+// Windows the default "Terminal" is Windows Terminal.
+export function findTerminalAdapter(
+  terminalName: string,
+  platform: NodeJS.Platform = process.platform,
+): TerminalAdapter | undefined {
+  const name = terminalName.trim().toLowerCase().replace(/\s+/g, "");
+  if (name === "" || name === "terminal") return platform === "win32" ? windowsTerminal : terminal;
+
+  const tmuxHost = name.match(/^tmux(?:\+(.+))?$/);
+  if (tmuxHost) {
+    const host = tmuxHost[1] === undefined ? terminal : ADAPTERS[tmuxHost[1]];
+    return host ? tmux(host) : undefined;
+  }
+  return ADAPTERS[name];
+}
+
+// How to open a shell for the request in the configured terminal. Terminals without an adapter open
+// the directory with their application, with the command copied to the clipboard.
+export function buildTerminalInvocation(
+  terminalName: string,
+  request: TerminalRequest,
+  platform: NodeJS.Platform = process.platform,
+): TerminalInvocation {
+  const adapter = findTerminalAdapter(terminalName, platform);
+  if (!adapter) {
+    return { kind: "open", target: request.cwd, application: terminalName, clipboard: request.command };
+  }
+  const mode = adapter.modes.includes(request.mode) ? request.mode : "window";
+  return adapter.build({ ...request, mode });
+}
@@ -0,0 +1,16 @@
+import { environment, getPreferenceValues } from "@raycast/api";
+import { homedir } from "os";
+import type { ToolData } from "./ai-tools";
+import { discoverProjects } from "./discovery";
+import type { Preferences } from "./types";
+import { getStoredData } from "./utils";
+
+// Projects from the shared cache while it is fresh, with the stored favorites, recents and tags
+export async function loadToolData(): Promise<ToolData> {
+  const { pjPath, cacheTtl } = getPreferenceValues<Preferences>();
+  const [{ projects }, data] = await Promise.all([
+    discoverProjects({ pjPath, cacheDir: environment.supportPath, maxAgeMs: Number(cacheTtl) * 60 * 1000 }),
+    getStoredData(),
+  ]);
+  return { projects, favorites: data.favorites, history: data.recentProjects, tags: data.tags, home: homedir() };
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ToolData } from "../ai-tools";
+
+const data: ToolData = {
+  projects: [
+    { name: "billing-api", path: "/Users/me/code/billing-api", marker: "go.mod" },
+    { name: "web", path: "/Users/me/code/web", marker: "package.json" },
+  ],
+  favorites: ["/Users/me/code/web", "/Users/me/code/billing-api"],
+  history: [],
+  tags: {},
+  home: "/Users/me",
+};
+
+vi.mock("../tool-data", () => ({
+  loadToolData: async () => data,
+}));
+
+import getFavoriteProjects from "./get-favorite-projects";
+
+describe("get-favorite-projects tool", () => {
+  it("lists the loaded favorites in order, filtered by type", async () => {
+    expect((await getFavoriteProjects({})).map((project) => project.name)).toEqual(["web", "billing-api"]);
+    expect((await getFavoriteProjects({ type: "go" })).map((project) => project.name)).toEqual(["billing-api"]);
+  });
+});
@@ -0,0 +1,14 @@
+import { favoriteProjects } from "../ai-tools";
+import { loadToolData } from "../tool-data";
+
+type Input = {
+  /** Only return favorites of this type, e.g. "go", "npm" or "cargo" */
+  type?: string;
+};
+
+/**
+ * List the projects the user marked as favorites, in the order they were added.
+ */
+export default async function tool(input: Input) {
+  return favoriteProjects(await loadToolData(), input);
+}
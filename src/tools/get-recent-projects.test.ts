@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ToolData } from "../ai-tools";
+
+const NOW = Date.now();
+const DAY = 24 * 60 * 60 * 1000;
+
+const loadToolData = vi.fn();
+const resolveProjectActivity = vi.fn();
+
+vi.mock("../tool-data", () => ({
+  loadToolData: () => loadToolData(),
+}));
+
+vi.mock("../activity", () => ({
+  DEFAULT_SCAN_OPTIONS: { exclude: [], maxDepth: 4, maxEntries: 5000 },
+  resolveProjectActivity: (path: string, options: unknown) => resolveProjectActivity(path, options),
+}));
+
+vi.mock("../pj-config", () => ({
+  readPjConfig: async () => ({ exclude: ["node_modules"] }),
+}));
+
+import getRecentProjects from "./get-recent-projects";
+
+const data: ToolData = {
+  projects: [
+    { name: "payments-service", path: "/Users/me/code/payments-service", marker: "go.mod" },
+    { name: "billing-api", path: "/Users/me/code/billing-api", marker: "go.mod" },
+    { name: "web", path: "/Users/me/code/web", marker: "package.json" },
+  ],
+  favorites: [],
+  history: [{ path: "/Users/me/code/web", count: 1, visits: [NOW - DAY], lastAccessed: NOW - DAY }],
+  tags: {},
+  home: "/Users/me",
+};
+
+const activity: Record<string, number | undefined> = {
+  "/Users/me/code/payments-service": NOW - 2 * DAY,
+  "/Users/me/code/billing-api": undefined,
+  "/Users/me/code/web": NOW - 3 * DAY,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  loadToolData.mockResolvedValue(data);
+  resolveProjectActivity.mockImplementation(async (path: string) => activity[path]);
+});
+
+describe("get-recent-projects tool", () => {
+  it("lists recently opened projects without scanning by default", async () => {
+    expect((await getRecentProjects({})).map((project) => project.name)).toEqual(["web"]);
+    expect(resolveProjectActivity).not.toHaveBeenCalled();
+  });
+
+  it("scans projects of the requested type with pj's excludes for modified projects", async () => {
+    const results = await getRecentProjects({ activity: "modified", type: "go" });
+    expect(results.map((project) => [project.name, project.lastModified])).toEqual([
+      ["payments-service", new Date(NOW - 2 * DAY).toISOString()],
+    ]);
+    expect(resolveProjectActivity.mock.calls).toEqual([
+      ["/Users/me/code/payments-service", { exclude: ["node_modules"], maxDepth: 4, maxEntries: 5000 }],
+      ["/Users/me/code/billing-api", { exclude: ["node_modules"], maxDepth: 4, maxEntries: 5000 }],
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { DEFAULT_SCAN_OPTIONS, resolveProjectActivity } from "../activity";
+import { matchesProjectType, recentlyModifiedProjects, recentlyOpenedProjects } from "../ai-tools";
+import { mapWithConcurrency } from "../concurrency";
+import { readPjConfig } from "../pj-config";
+import { loadToolData } from "../tool-data";
+
+// File scans are I/O heavy, so resolve a few projects at a time
+const ACTIVITY_CONCURRENCY = 4;
+
+type Input = {
+  /** How many days back to look, e.g. 7 for "this week" (7 by default) */
+  days?: number;
+  /** Only return projects of this type, e.g. "go", "npm" or "cargo" */
+  type?: string;
+  /**
+   * "opened" for projects the user opened from Raycast, "modified" for projects with commits or
+   * file changes. Use "modified" when asked what the user worked on or touched ("opened" by default).
+   */
+  activity?: "opened" | "modified";
+  /** Maximum number of projects to return (20 by default) */
+  limit?: number;
+};
+
+/**
+ * List recently opened or recently modified projects, most recent first.
+ */
+export default async function tool(input: Input) {
+  const data = await loadToolData();
+  if (input.activity !== "modified") {
+    return recentlyOpenedProjects(data, input);
+  }
+
+  // Only scan projects of the requested type; git history and file scans are slow
+  const { exclude } = await readPjConfig();
+  const candidates = data.projects.filter((project) => matchesProjectType(project, input.type));
+  const times = await mapWithConcurrency(candidates, ACTIVITY_CONCURRENCY, (project) =>
+    resolveProjectActivity(project.path, { ...DEFAULT_SCAN_OPTIONS, exclude }),
+  );
+  const activity = new Map(candidates.map((project, index) => [project.path, times[index]]));
+  return recentlyModifiedProjects(data, input, activity);
+}
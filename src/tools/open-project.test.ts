@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ToolData } from "../ai-tools";
+
+const loadToolData = vi.fn();
+const open = vi.fn();
+const openInEditors = vi.fn();
+const openProjectInTerminal = vi.fn();
+const addToRecentProjects = vi.fn();
+const preferences = { terminalApp: "iTerm", terminalMode: "tab", editorApp: "Visual Studio Code", editorRules: "" };
+
+const applications = [
+  { name: "Visual Studio Code", path: "/Applications/Visual Studio Code.app", bundleId: "com.microsoft.VSCode" },
+  { name: "Cursor", path: "/Applications/Cursor.app", bundleId: "com.todesktop.cursor" },
+  { name: "GoLand", path: "/Applications/GoLand.app", bundleId: "com.jetbrains.goland" },
+  { name: "iTerm", path: "/Applications/iTerm.app", bundleId: "com.googlecode.iterm2" },
+];
+
+vi.mock("@raycast/api", () => ({
+  getApplications: async () => applications,
+  getPreferenceValues: () => preferences,
+  open: (...args: unknown[]) => open(...args),
+}));
+
+vi.mock("../tool-data", () => ({
+  loadToolData: () => loadToolData(),
+}));
+
+vi.mock("../open-projects", () => ({
+  openInEditors: (...args: unknown[]) => openInEditors(...args),
+  openProjectInTerminal: (...args: unknown[]) => openProjectInTerminal(...args),
+}));
+
+vi.mock("../utils", () => ({
+  addToRecentProjects: (path: string) => addToRecentProjects(path),
+  FILE_MANAGER_NAME: "Finder",
+  formatDisplayPath: (path: string) => path.replace("/Users/me", "~"),
+  getEditorOverrides: async () => ({ "/Users/me/code/web": "/Applications/Cursor.app" }),
+  getStartupCommands: async () => ({ "/Users/me/code/payments-service": "make dev" }),
+}));
+
+import openProject, { confirmation } from "./open-project";
+
+const data: ToolData = {
+  projects: [
+    { name: "payments-service", path: "/Users/me/code/payments-service", marker: "go.mod" },
+    { name: "web", path: "/Users/me/code/web", marker: "package.json" },
+  ],
+  favorites: [],
+  history: [],
+  tags: {},
+  home: "/Users/me",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  preferences.editorRules = "";
+  loadToolData.mockResolvedValue(data);
+});
+
+describe("confirmation", () => {
+  it("names the project and the application it opens in", async () => {
+    expect(await confirmation({ project: "payments service", application: "cursor" })).toEqual({
+      message: "Open payments-service in Cursor?",
+      info: [
+        { name: "Project", value: "~/code/payments-service" },
+        { name: "Type", value: "go" },
+      ],
+    });
+  });
+
+  it("names the editor picked by editor rules and overrides", async () => {
+    preferences.editorRules = "go=GoLand";
+    expect((await confirmation({ project: "payments-service" }))?.message).toBe("Open payments-service in GoLand?");
+    expect((await confirmation({ project: "web" }))?.message).toBe("Open web in Cursor?");
+  });
+
+  it("names the terminal and the file manager", async () => {
+    expect((await confirmation({ project: "web", target: "terminal" }))?.message).toBe("Open web in iTerm?");
+    expect((await confirmation({ project: "web", target: "finder" }))?.message).toBe("Open web in Finder?");
+  });
+
+  it("rejects unknown projects and applications", async () => {
+    await expect(confirmation({ project: "nothing-like-it" })).rejects.toThrow('No project matches "nothing-like-it"');
+    await expect(confirmation({ project: "web", application: "Notepad" })).rejects.toThrow(
+      'No application named "Notepad" is installed',
+    );
+  });
+});
+
+describe("open-project tool", () => {
+  it("opens the project in a named application and records the visit", async () => {
+    const result = await openProject({ project: "payments service", application: "Cursor" });
+    expect(open).toHaveBeenCalledWith("/Users/me/code/payments-service", applications[1]);
+    expect(addToRecentProjects).toHaveBeenCalledWith("/Users/me/code/payments-service");
+    expect(result).toMatchObject({ openedIn: "Cursor", opened: { name: "payments-service", type: "go" } });
+  });
+
+  it("opens in the editor by default, with the rules, overrides and default editor", async () => {
+    preferences.editorRules = "go=GoLand";
+    const result = await openProject({ project: "/Users/me/code/payments-service" });
+    expect(openInEditors).toHaveBeenCalledWith(
+      [data.projects[0]],
+      expect.objectContaining({
+        editorApp: applications[0],
+        applications,
+        editorOverrides: { "/Users/me/code/web": "/Applications/Cursor.app" },
+      }),
+    );
+    expect(result.openedIn).toBe("GoLand");
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it("opens in the terminal with the project's startup command", async () => {
+    await openProject({ project: "payments-service", target: "terminal" });
+    expect(openProjectInTerminal).toHaveBeenCalledWith(data.projects[0], {
+      terminalName: "iTerm",
+      terminalApp: applications[3],
+      mode: "tab",
+      commands: { "/Users/me/code/payments-service": "make dev" },
+    });
+  });
+
+  it("shows the project in the file manager", async () => {
+    await openProject({ project: "web", target: "finder" });
+    expect(open).toHaveBeenCalledWith("/Users/me/code/web");
+    expect(addToRecentProjects).toHaveBeenCalledWith("/Users/me/code/web");
+  });
+
+  it("opens the confirmed project without loading the projects again", async () => {
+    await confirmation({ project: "web", target: "finder" });
+    loadToolData.mockResolvedValue({ ...data, projects: [] });
+    const result = await openProject({ project: "web", target: "finder" });
+    expect(loadToolData).toHaveBeenCalledTimes(1);
+    expect(open).toHaveBeenCalledWith("/Users/me/code/web");
+    expect(result.openedIn).toBe("Finder");
+  });
+
+  it("plans again when the input differs from the confirmed one", async () => {
+    await confirmation({ project: "web" });
+    await openProject({ project: "web", target: "finder" });
+    expect(loadToolData).toHaveBeenCalledTimes(2);
+  });
+
+  it("opens nothing when no project matches", async () => {
+    await expect(openProject({ project: "nothing-like-it" })).rejects.toThrow('No project matches "nothing-like-it"');
+    expect(open).not.toHaveBeenCalled();
+    expect(openInEditors).not.toHaveBeenCalled();
+    expect(openProjectInTerminal).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { getApplications, getPreferenceValues, open, Tool } from "@raycast/api";
+import { homedir } from "os";
+import { describeProject, resolveProjectReference, type ToolData } from "../ai-tools";
+import { chooseEditor, findApplicationByName, parseEditorRules } from "../editor-rules";
+import { formatProjectType } from "../markers";
+import { openInEditors, openProjectInTerminal, type EditorChoice } from "../open-projects";
+import { pathKey } from "../paths";
+import { findTerminalAdapter } from "../terminal";
+import { loadToolData } from "../tool-data";
+import type { Preferences, Project } from "../types";
+import {
+  addToRecentProjects,
+  FILE_MANAGER_NAME,
+  formatDisplayPath,
+  getEditorOverrides,
+  getStartupCommands,
+} from "../utils";
+
+type Input = {
+  /** The project's name or absolute path, as returned by the other tools, e.g. "payments-service" */
+  project: string;
+  /** Where to open the project: "editor", "terminal" or "finder" (the file manager). "editor" by default. */
+  target?: "editor" | "terminal" | "finder";
+  /** A specific application to open the project with, e.g. "Cursor" or "Zed". Overrides the target. */
+  application?: string;
+};
+
+interface PlannedOpen {
+  data: ToolData;
+  project: Project;
+  // Application or place the project opens in, for the confirmation and the result
+  title: string;
+  run: () => Promise<void>;
+}
+
+// Work out what opening the project will do, so the confirmation names the actual application
+async function planOpen(input: Input): Promise<PlannedOpen> {
+  const data = await loadToolData();
+  const project = resolveProjectReference(data, input.project);
+  if (!project) {
+    throw new Error(`No project matches "${input.project}"`);
+  }
+  const preferences = getPreferenceValues<Preferences>();
+  const applications = await getApplications();
+
+  if (input.application) {
+    const application = findApplicationByName(applications, input.application);
+    if (!application) {
+      throw new Error(`No application named "${input.application}" is installed`);
+    }
+    return {
+      data,
+      project,
+      title: application.name,
+      run: async () => {
+        await open(project.path, application);
+        await addToRecentProjects(project.path);
+      },
+    };
+  }
+
+  if (input.target === "finder") {
+    return {
+      data,
+      project,
+      title: FILE_MANAGER_NAME,
+      run: async () => {
+        await open(project.path);
+        await addToRecentProjects(project.path);
+      },
+    };
+  }
+
+  if (input.target === "terminal") {
+    const terminalName = preferences.terminalApp || "Terminal";
+    const terminalApp = findApplicationByName(applications, terminalName);
+    const commands = await getStartupCommands();
+    return {
+      data,
+      project,
+      title: findTerminalAdapter(terminalName)?.title ?? terminalApp?.name ?? "Terminal",
+      run: () =>
+        openProjectInTerminal(project, {
+          terminalName,
+          terminalApp,
+          mode: preferences.terminalMode ?? "window",
+          commands,
+        }),
+    };
+  }
+
+  const editor: EditorChoice = {
+    editorApp: findApplicationByName(applications, preferences.editorApp || "Visual Studio Code"),
+    applications,
+    editorRules: parseEditorRules(preferences.editorRules ?? "").rules,
+    editorOverrides: await getEditorOverrides(),
+  };
+  const { application } = chooseEditor({
+    project: { path: project.path, type: formatProjectType(project.marker) },
+    override: editor.editorOverrides[pathKey(project.path)],
+    rules: editor.editorRules,
+    applications,
+    defaultEditor: editor.editorApp,
+    home: homedir(),
+  });
+  return {
+    data,
+    project,
+    title: application?.name ?? "the default editor",
+    run: () => openInEditors([project], editor),
+  };
+}
+
+// The plan shown in the last confirmation, so the tool opens exactly what the user confirmed
+// without discovering projects again
+let confirmed: { key: string; plan: Promise<PlannedOpen> } | undefined;
+
+function takeConfirmedPlan(input: Input): Promise<PlannedOpen> | undefined {
+  const plan = confirmed?.key === JSON.stringify(input) ? confirmed.plan : undefined;
+  confirmed = undefined;
+  return plan;
+}
+
+export const confirmation: Tool.Confirmation<Input> = async (input) => {
+  const plan = planOpen(input);
+  confirmed = { key: JSON.stringify(input), plan };
+  const { project, title } = await plan;
+  return {
+    message: `Open ${project.name} in ${title}?`,
+    info: [
+      { name: "Project", value: formatDisplayPath(project.path) },
+      { name: "Type", value: project.marker ? formatProjectType(project.marker) : undefined },
+    ],
+  };
+};
+
+/**
+ * Open a project in the editor its editor rules pick, the terminal, the file manager or a named
+ * application. Find the project with the search tools first when the name is ambiguous.
+ */
+export default async function tool(input: Input) {
+  const { data, project, title, run } = await (takeConfirmedPlan(input) ?? planOpen(input));
+  await run();
+  return { opened: describeProject(project, data), openedIn: title };
+}
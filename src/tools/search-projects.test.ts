@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ToolData } from "../ai-tools";
+
+const loadToolData = vi.fn();
+
+vi.mock("../tool-data", () => ({
+  loadToolData: () => loadToolData(),
+}));
+
+import searchProjects from "./search-projects";
+
+const data: ToolData = {
+  projects: [
+    { name: "payments-service", path: "/Users/me/code/payments-service", marker: "go.mod" },
+    { name: "billing-api", path: "/Users/me/code/billing-api", marker: "go.mod" },
+    { name: "web", path: "/Users/me/code/web", marker: "package.json" },
+  ],
+  favorites: ["/Users/me/code/billing-api"],
+  history: [],
+  tags: { "/Users/me/code/web": ["frontend"] },
+  home: "/Users/me",
+};
+
+beforeEach(() => {
+  loadToolData.mockResolvedValue(data);
+});
+
+describe("search-projects tool", () => {
+  it("searches the loaded projects", async () => {
+    const [first] = await searchProjects({ query: "payments service" });
+    expect(first).toMatchObject({ name: "payments-service", path: "/Users/me/code/payments-service", type: "go" });
+    expect((await searchProjects({ query: "frontend" })).map((project) => project.name)).toEqual(["web"]);
+  });
+
+  it("applies the type and favorite filters", async () => {
+    expect((await searchProjects({ type: "go", favoritesOnly: true })).map((project) => project.name)).toEqual([
+      "billing-api",
+    ]);
+  });
+
+  it("returns nothing when no project matches", async () => {
+    expect(await searchProjects({ query: "zzzz" })).toEqual([]);
+  });
+});
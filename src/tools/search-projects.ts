@@ -0,0 +1,24 @@
+import { findProjects } from "../ai-tools";
+import { loadToolData } from "../tool-data";
+
+type Input = {
+  /**
+   * Words to fuzzy match against project names, paths, types and tags, e.g. "payments service".
+   * Leave empty to list projects by how often and how recently they were opened.
+   */
+  query?: string;
+  /** Project type such as "go", "npm", "cargo" or "python", or a marker file such as "go.mod" */
+  type?: string;
+  /** Only return favorite projects */
+  favoritesOnly?: boolean;
+  /** Maximum number of projects to return (20 by default) */
+  limit?: number;
+};
+
+/**
+ * Search the projects pj discovers, best match first. Returns each project's name, absolute path,
+ * type, tags, whether it is a favorite and when it was last opened.
+ */
+export default async function tool(input: Input) {
+  return findProjects(await loadToolData(), input);
+}
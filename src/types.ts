@@ -4,7 +4,23 @@ export interface Preferences {
   pjPath: string;
   defaultAction: "finder" | "editor" | "terminal" | "copy";
   terminalApp: string;
+  terminalMode: "window" | "tab" | "split";
   editorApp: string;
+  editorRules: string;
+  openWorkspaces: boolean;
+  expandMonorepos: boolean;
+  cacheTtl: string;
+  customActionsFile: string;
+}
+
+export interface ListProjectsPreferences extends Preferences {
+  sortOrder: "alphabetical" | "frecency";
+}
+
+export interface RefreshProjectsPreferences extends Preferences {
+  // Minutes between scheduled scans
+  refreshInterval: string;
+  notifyNewProjects: boolean;
 }
 
 export interface FavoriteProject {
@@ -12,7 +28,83 @@ export interface FavoriteProject {
   lastAccessed?: number;
 }
 
+// Open history used for frecency ranking
+export interface ProjectHistoryEntry {
+  path: string;
+  // Total number of opens, including visits no longer sampled below
+  count: number;
+  // Most recent open timestamps, newest first
+  visits: number[];
+  lastAccessed: number;
+}
+
+// Everything persisted in LocalStorage, versioned so older shapes can be migrated on read
 export interface StoredData {
+  version: number;
   favorites: string[];
-  recentProjects: FavoriteProject[];
+  recentProjects: ProjectHistoryEntry[];
+  // User tags by project path key (see pathKey)
+  tags: Record<string, string[]>;
+  // Git remote ("host/owner/repo") by project path key, so moved projects can be relinked
+  remotes: Record<string, string>;
+  // "Always open with…" editor application path by project path key
+  editors: Record<string, string>;
+  // Project sets: member paths by set name, in the order they were added
+  sets: Record<string, string[]>;
+  // Command run when a project opens in the terminal, by project path key
+  commands: Record<string, string>;
+}
+
+export interface PjBinary {
+  path: string;
+  source: "preference" | "path" | "managed";
+  version?: string;
+}
+
+export interface GitCommit {
+  subject: string;
+  author: string;
+  // ISO 8601 committer date
+  date: string;
+}
+
+export interface GitStatus {
+  branch?: string;
+  detached: boolean;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  // Changed, staged and untracked files
+  dirty: number;
+  lastCommit?: GitCommit;
+}
+
+export interface GitRemote {
+  host: string;
+  // May contain slashes for nested groups (e.g. GitLab subgroups)
+  owner: string;
+  repo: string;
+}
+
+export interface GitInfo extends GitStatus {
+  remote?: GitRemote;
+  defaultBranch?: string;
+}
+
+export interface ProjectDetails {
+  git?: GitStatus;
+  readme?: string;
+  // Known marker files present in the project root
+  markers: string[];
+}
+
+export type TaskSource = "npm" | "make" | "cargo" | "deno" | "poetry" | "pdm" | "mix";
+
+// A runnable task defined by one of the project's build files
+export interface ProjectTask {
+  name: string;
+  source: TaskSource;
+  // Shell command that runs the task from the project root
+  command: string;
+  description?: string;
 }
@@ -0,0 +1,23 @@
+import { Application, getApplications } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { findApplicationByName } from "./editor-rules";
+import type { Preferences } from "./types";
+
+// Find the configured terminal and editor applications, keeping the full list for editor rules
+export function useApplications(preferences: Preferences) {
+  const [terminalApp, setTerminalApp] = useState<Application | undefined>();
+  const [editorApp, setEditorApp] = useState<Application | undefined>();
+  const [applications, setApplications] = useState<Application[]>([]);
+
+  useEffect(() => {
+    async function findApps() {
+      const apps = await getApplications();
+      setApplications(apps);
+      setTerminalApp(findApplicationByName(apps, preferences.terminalApp || "Terminal"));
+      setEditorApp(findApplicationByName(apps, preferences.editorApp || "Visual Studio Code"));
+    }
+    findApps();
+  }, [preferences.terminalApp, preferences.editorApp]);
+
+  return { terminalApp, editorApp, applications };
+}
@@ -0,0 +1,35 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { readFile } from "fs/promises";
+import { expandHomePath } from "./paths";
+import { parseCustomActions, type CustomAction } from "./custom-actions";
+import type { Preferences } from "./types";
+
+export const DEFAULT_CUSTOM_ACTIONS_FILE = "~/.config/pj/raycast-actions.yaml";
+
+async function loadCustomActions(file: string): Promise<CustomAction[]> {
+  let contents: string;
+  try {
+    contents = await readFile(expandHomePath(file), "utf8");
+  } catch {
+    // No file means no custom actions
+    return [];
+  }
+
+  const { actions, errors } = parseCustomActions(contents);
+  if (errors.length > 0) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid custom actions",
+      message: errors.length > 1 ? `${errors[0]} (and ${errors.length - 1} more)` : errors[0],
+    });
+  }
+  return actions;
+}
+
+// User-defined actions from the custom actions file
+export function useCustomActions(): CustomAction[] {
+  const { customActionsFile } = getPreferenceValues<Preferences>();
+  const { data } = useCachedPromise(loadCustomActions, [customActionsFile || DEFAULT_CUSTOM_ACTIONS_FILE]);
+  return data ?? [];
+}
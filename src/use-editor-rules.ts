@@ -0,0 +1,27 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { homedir } from "os";
+import { useEffect, useMemo } from "react";
+import { compileEditorRules, parseEditorRules, type EditorRule } from "./editor-rules";
+import type { Preferences } from "./types";
+
+// Rules from the "Editor Rules" preference, with path globs compiled; invalid entries are skipped
+// and reported once
+export function useEditorRules(): EditorRule[] {
+  const { editorRules } = getPreferenceValues<Preferences>();
+  const { rules, errors } = useMemo(() => {
+    const parsed = parseEditorRules(editorRules ?? "");
+    return { rules: compileEditorRules(parsed.rules, homedir()), errors: parsed.errors };
+  }, [editorRules]);
+
+  useEffect(() => {
+    if (errors.length > 0) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid editor rules",
+        message: errors.length > 1 ? `${errors[0]} (and ${errors.length - 1} more)` : errors[0],
+      });
+    }
+  }, [editorRules]);
+
+  return rules;
+}
@@ -0,0 +1,16 @@
+import { getGitInfo } from "./git";
+import type { GitInfo, Project } from "./types";
+import { useProjectMap } from "./use-project-map";
+
+// Each lookup spawns a few git processes, so keep the number in flight small
+const GIT_CONCURRENCY = 6;
+
+function loadGitInfo(project: Project): Promise<GitInfo | undefined> {
+  return getGitInfo(project.path);
+}
+
+// Git info keyed by project path (null for non-git projects); only scanned while `enabled`
+export function useGitInfo(projects: Project[], enabled = true) {
+  const { values, isLoading, isLoaded } = useProjectMap("git-info", projects, loadGitInfo, GIT_CONCURRENCY, enabled);
+  return { gitInfo: values, isLoading, isLoaded };
+}
@@ -0,0 +1,23 @@
+import { useMemo, useState } from "react";
+import type { Project } from "./types";
+
+// Projects marked for a multi-project action, in the order they were marked
+export function useMarkedProjects(projects: Project[]) {
+  const [markedPaths, setMarkedPaths] = useState<string[]>([]);
+
+  const markedProjects = useMemo(() => {
+    const byPath = new Map(projects.map((project) => [project.path, project]));
+    return markedPaths.map((path) => byPath.get(path)).filter((project): project is Project => !!project);
+  }, [projects, markedPaths]);
+
+  function toggleMarked(path: string) {
+    setMarkedPaths((paths) => (paths.includes(path) ? paths.filter((p) => p !== path) : [...paths, path]));
+  }
+
+  return {
+    markedProjects,
+    isMarked: (path: string) => markedPaths.includes(path),
+    toggleMarked,
+    clearMarked: () => setMarkedPaths([]),
+  };
+}
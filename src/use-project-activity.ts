@@ -0,0 +1,27 @@
+import { resolveProjectActivity, DEFAULT_SCAN_OPTIONS } from "./activity";
+import { readPjConfig } from "./pj-config";
+import type { Project } from "./types";
+import { useProjectMap } from "./use-project-map";
+
+// File scans are I/O heavy, so resolve a few projects at a time
+const ACTIVITY_CONCURRENCY = 4;
+
+// pj's exclude list, read once per command run
+let excludePromise: Promise<string[]> | undefined;
+
+async function loadActivity(project: Project): Promise<number | undefined> {
+  excludePromise ??= readPjConfig().then((config) => config.exclude);
+  return resolveProjectActivity(project.path, { ...DEFAULT_SCAN_OPTIONS, exclude: await excludePromise });
+}
+
+// Last activity timestamp keyed by project path (null when unknown); only scanned while `enabled`
+export function useProjectActivity(projects: Project[], enabled = true) {
+  const { values, isLoading } = useProjectMap(
+    "project-activity",
+    projects,
+    loadActivity,
+    ACTIVITY_CONCURRENCY,
+    enabled,
+  );
+  return { activity: values, isLoading };
+}
@@ -0,0 +1,68 @@
+import { useCachedState } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { mapWithConcurrency } from "./concurrency";
+import type { Project } from "./types";
+
+// Batch state updates so thousands of projects don't re-render the list thousands of times
+const FLUSH_EVERY = 25;
+
+// Per-project values keyed by path (null when there is nothing to report), cached across
+// launches and recomputed in the background with bounded concurrency. While `enabled` is false
+// only the cached values are returned.
+export function useProjectMap<T>(
+  cacheKey: string,
+  projects: Project[],
+  load: (project: Project) => Promise<T | undefined>,
+  concurrency: number,
+  enabled = true,
+) {
+  const [values, setValues] = useCachedState<Record<string, T | null>>(cacheKey, {});
+  const [isLoading, setIsLoading] = useState(false);
+  // The project list last scanned to the end, so re-enabling doesn't start over
+  const [scanned, setScanned] = useState<Project[]>();
+
+  useEffect(() => {
+    if (!enabled || projects.length === 0 || scanned === projects) return;
+
+    let cancelled = false;
+    let pending: Record<string, T | null> = {};
+    let pendingCount = 0;
+
+    function flush() {
+      if (cancelled || pendingCount === 0) return;
+      const batch = pending;
+      pending = {};
+      pendingCount = 0;
+      setValues((previous) => ({ ...previous, ...batch }));
+    }
+
+    setIsLoading(true);
+    mapWithConcurrency(
+      projects,
+      concurrency,
+      async (project) => (cancelled ? undefined : load(project)),
+      (value, project) => {
+        pending[project.path] = value ?? null;
+        pendingCount += 1;
+        if (pendingCount >= FLUSH_EVERY) flush();
+      },
+    ).then(() => {
+      if (cancelled) return;
+      flush();
+      setScanned(projects);
+
+      // Drop entries for projects that are no longer discovered
+      const paths = new Set(projects.map((project) => project.path));
+      setValues((previous) => Object.fromEntries(Object.entries(previous).filter(([path]) => paths.has(path))));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setIsLoading(false);
+    };
+  }, [projects, enabled]);
+
+  // Whether every current project has a fresh value, rather than one cached from an earlier launch
+  return { values, isLoading, isLoaded: scanned === projects };
+}
@@ -0,0 +1,18 @@
+import { homedir } from "os";
+import { useMemo, useState } from "react";
+import type { SearchResult } from "./fuzzy";
+import { searchProjects, type ProjectSearchData } from "./project-search";
+import type { Project } from "./types";
+
+// Search text and the projects matching it, ranked by the fuzzy matcher. Lists using this set
+// filtering={false}; without free-text terms the projects keep their order.
+export function useProjectSearch(projects: Project[], { favorites, history, tags }: ProjectSearchData) {
+  const [searchText, setSearchText] = useState("");
+
+  const results: SearchResult<Project>[] = useMemo(
+    () => searchProjects(projects, searchText, { favorites, history, tags }, homedir()),
+    [projects, searchText, favorites, history, tags],
+  );
+
+  return { searchText, setSearchText, results };
+}
@@ -0,0 +1,88 @@
+import { environment, getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import { describeBinary, PjBinaryError } from "./binary";
+import { discoverProjects, type DiscoveryResult } from "./discovery";
+import { applyProjectDiff } from "./project-cache";
+import type { PjBinary, Preferences, Project } from "./types";
+import { reconcileStoredData } from "./utils";
+
+interface ProjectsState {
+  projects: Project[];
+  binary?: PjBinary;
+  error?: Error;
+  isLoading: boolean;
+}
+
+interface UseProjectsOptions {
+  // Called when favorites, recents or tags change after the user removes or relinks stale paths
+  onStoredDataChange?: () => void;
+}
+
+// Shared discovery state for all commands: cached projects render immediately, then pj revalidates
+export function useProjects({ onStoredDataChange }: UseProjectsOptions = {}) {
+  const { pjPath, cacheTtl } = getPreferenceValues<Preferences>();
+  const [state, setState] = useState<ProjectsState>({ projects: [], isLoading: true });
+  // Projects on screen, kept when a rescan fails
+  const shownProjects = useRef<Project[]>([]);
+  shownProjects.current = state.projects;
+
+  async function revalidate(force = false): Promise<DiscoveryResult | undefined> {
+    setState((previous) => ({ ...previous, isLoading: true }));
+    try {
+      const result = await discoverProjects({
+        pjPath,
+        cacheDir: environment.supportPath,
+        maxAgeMs: Number(cacheTtl) * 60 * 1000,
+        force,
+        onCached: (cached) => {
+          setState((previous) => (previous.projects.length === 0 ? { ...previous, projects: cached } : previous));
+        },
+      });
+      setState((previous) => ({
+        projects: applyProjectDiff(previous.projects, result.projects),
+        binary: result.binary,
+        isLoading: false,
+      }));
+
+      // Only a fresh scan is authoritative about which projects are gone
+      if (!result.fromCache) {
+        reconcileStoredData(result.projects, onStoredDataChange);
+      }
+      return result;
+    } catch (error) {
+      console.error("Failed to load projects:", error);
+      const failure = error instanceof Error ? error : new Error("Unknown error");
+      const hasProjects = shownProjects.current.length > 0;
+      setState((previous) => ({ ...previous, error: failure, isLoading: false }));
+
+      // Binary problems get their own view when there is nothing else to show
+      if (hasProjects || !(failure instanceof PjBinaryError)) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: hasProjects ? "Failed to refresh projects" : "Failed to load projects",
+          message: failure.message,
+        });
+      }
+      return undefined;
+    }
+  }
+
+  // Explicit refresh that bypasses the cache and reports which binary produced the result
+  async function refresh() {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Refreshing projects" });
+    const result = await revalidate(true);
+    if (!result) {
+      await toast.hide();
+      return;
+    }
+    toast.style = Toast.Style.Success;
+    toast.title = `Found ${result.projects.length} projects`;
+    toast.message = describeBinary(result.binary);
+  }
+
+  useEffect(() => {
+    revalidate();
+  }, [pjPath, cacheTtl]);
+
+  return { ...state, revalidate, refresh };
+}
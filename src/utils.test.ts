@@ -1,10 +1,31 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // Mock os.homedir
 vi.mock("os", () => ({
   homedir: () => "/Users/testuser",
 }));
 
+// In-memory LocalStorage for the stored data functions
+const storage = new Map<string, string>();
+let reads = 0;
+vi.mock("@raycast/api", () => ({
+  Color: {},
+  Icon: {},
+  LocalStorage: {
+    // Each read takes a little longer than the last, so concurrent reads interleave with writes
+    getItem: async (key: string) => {
+      await new Promise((resolve) => setTimeout(resolve, reads++));
+      return storage.get(key);
+    },
+    setItem: async (key: string, value: string) => void storage.set(key, value),
+    removeItem: async (key: string) => void storage.delete(key),
+  },
+  showToast: async () => ({}),
+  Toast: { Style: {} },
+}));
+
+import { getFavorites, getRecentProjects, getStoredData, readStoredData } from "./utils";
+
 // Instead of importing from utils.ts which has Raycast dependencies,
 // we'll test the pure logic functions directly here
 // This mirrors the implementation in utils.ts
@@ -167,3 +188,29 @@ describe("getProjectIcon logic", () => {
     expect(getIconType(".git", "   ")).toBe("box");
   });
 });
+
+describe("readStoredData", () => {
+  beforeEach(() => {
+    storage.clear();
+    reads = 0;
+    storage.set("pj-favorites", JSON.stringify(["/Users/testuser/code/web"]));
+    storage.set(
+      "pj-recent-projects",
+      JSON.stringify([{ path: "/Users/testuser/code/api", lastAccessed: 1_700_000_000_000 }]),
+    );
+  });
+
+  it("migrates the version 1 keys once when read concurrently", async () => {
+    const [favorites, recents, data] = await Promise.all([getFavorites(), getRecentProjects(), readStoredData()]);
+    expect(favorites).toEqual(["/Users/testuser/code/web"]);
+    expect(recents.map((entry) => entry.path)).toEqual(["/Users/testuser/code/api"]);
+    expect(data.favorites).toEqual(["/Users/testuser/code/web"]);
+    expect(storage.has("pj-favorites")).toBe(false);
+    expect(JSON.parse(storage.get("pj-data") ?? "{}").favorites).toEqual(["/Users/testuser/code/web"]);
+  });
+
+  it("keeps the migrated data when a read starts after the migration finished", async () => {
+    await readStoredData();
+    expect((await getStoredData()).favorites).toEqual(["/Users/testuser/code/web"]);
+  });
+});
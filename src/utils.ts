@@ -1,5 +1,23 @@
-import { Icon, LocalStorage, showToast, Toast } from "@raycast/api";
+import { Application, Color, Icon, List, LocalStorage, showToast, Toast } from "@raycast/api";
 import { homedir } from "os";
+import { collapseHomePath } from "./data-transfer";
+import { access } from "fs/promises";
+import { basename } from "path";
+import { mapWithConcurrency } from "./concurrency";
+import { pruneHistory, recordVisit } from "./frecency";
+import { highlightMatches } from "./fuzzy";
+import { getRemote } from "./git";
+import { includesPath, pathKey } from "./paths";
+import {
+  applyRelinks,
+  applyRemovals,
+  pathsWithoutRemote,
+  planReconciliation,
+  recordRemotes,
+  remoteKey,
+  type Relink,
+} from "./reconcile";
+import { emptyStoredData, migrateStoredData, setFavorites, setProjectTags, setStartupCommand } from "./stored-data";
 import type { Project, StoredData } from "./types";
 
 // Map pj icon names to Raycast icons or emojis
@@ -25,79 +43,132 @@ export function getProjectIcon(project: Project): string | Icon {
   }
 }
 
+// Name of the system file manager, for "Show in …" actions
+export const FILE_MANAGER_NAME = process.platform === "win32" ? "Explorer" : "Finder";
+
 // Format path for display (replace home dir with ~)
 export function formatDisplayPath(path: string): string {
-  const home = homedir();
-  // Ensure we only replace if the path starts with home dir followed by / or is exactly home
-  if (path === home) {
-    return "~";
-  }
-  if (path.startsWith(home + "/")) {
-    return "~" + path.slice(home.length);
-  }
-  return path;
-}
-
-// Format marker as a readable project type
-export function formatProjectType(marker: string): string {
-  const markerTypes: Record<string, string> = {
-    ".git": "git",
-    "package.json": "npm",
-    "Cargo.toml": "cargo",
-    "go.mod": "go",
-    "pyproject.toml": "python",
-    Makefile: "make",
-    "flake.nix": "nix",
-    "composer.json": "php",
-    "build.gradle": "gradle",
-    "pom.xml": "maven",
-    Gemfile: "ruby",
-    "mix.exs": "elixir",
-    "deno.json": "deno",
-    "pubspec.yaml": "dart",
-  };
-  return markerTypes[marker] || marker;
-}
-
-// Storage keys
+  return collapseHomePath(path, homedir());
+}
+
+// Format a date relative to today (e.g. "Yesterday", "3 weeks ago")
+export function formatRelativeDate(date: Date | undefined): string {
+  if (!date) return "";
+
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffDays === 0) return "Today";
+  if (diffDays === 1) return "Yesterday";
+  if (diffDays < 7) return `${diffDays} days ago`;
+  if (diffDays < 30) return `${Math.floor(diffDays / 7)} weeks ago`;
+  if (diffDays < 365) return `${Math.floor(diffDays / 30)} months ago`;
+  return `${Math.floor(diffDays / 365)} years ago`;
+}
+
+// Accessories for a project's user tags
+export function formatTagAccessories(tags: string[] = []): List.Item.Accessory[] {
+  return tags.map((tag) => ({ tag: { value: tag, color: Color.Purple }, tooltip: `Tag: ${tag}` }));
+}
+
+// Item title showing which characters of the name matched the search text
+export function formatMatchTitle(name: string, indices: number[]): List.Item.Props["title"] {
+  return indices.length > 0 ? { value: name, tooltip: `Matched ${highlightMatches(name, indices)}` } : name;
+}
+
+// Storage keys; favorites and recent projects are only read to migrate version 1 data
 const STORAGE_KEYS = {
+  DATA: "pj-data",
   FAVORITES: "pj-favorites",
   RECENT_PROJECTS: "pj-recent-projects",
 } as const;
 
-// Get stored favorites
-export async function getFavorites(): Promise<string[]> {
+async function readJson(key: string): Promise<unknown> {
+  const stored = await LocalStorage.getItem<string>(key);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+// Version 1 migration in progress, shared so concurrent reads don't each migrate the old keys
+let legacyMigration: Promise<StoredData> | undefined;
+
+async function migrateLegacyData(): Promise<StoredData> {
+  // Another read may have finished the migration since this one found no data
+  const stored = await readJson(STORAGE_KEYS.DATA);
+  if (stored !== undefined) {
+    return migrateStoredData(stored);
+  }
+
+  const [favorites, recentProjects] = await Promise.all([
+    readJson(STORAGE_KEYS.FAVORITES).catch(() => undefined),
+    readJson(STORAGE_KEYS.RECENT_PROJECTS).catch(() => undefined),
+  ]);
+  const data = migrateStoredData({ favorites, recentProjects });
+  await writeStoredData(data);
+  await Promise.all([
+    LocalStorage.removeItem(STORAGE_KEYS.FAVORITES),
+    LocalStorage.removeItem(STORAGE_KEYS.RECENT_PROJECTS),
+  ]);
+  return data;
+}
+
+// Read all stored data, migrating older versions (and the version 1 keys) in place
+export async function readStoredData(): Promise<StoredData> {
+  const stored = await readJson(STORAGE_KEYS.DATA);
+  if (stored !== undefined) {
+    const data = migrateStoredData(stored);
+    if ((stored as { version?: unknown }).version !== data.version) {
+      await writeStoredData(data);
+    }
+    return data;
+  }
+
+  legacyMigration ??= migrateLegacyData().finally(() => {
+    legacyMigration = undefined;
+  });
+  return legacyMigration;
+}
+
+export async function writeStoredData(data: StoredData): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.DATA, JSON.stringify(data));
+}
+
+// Apply a change to the stored data and save it
+export async function updateStoredData(update: (data: StoredData) => StoredData): Promise<StoredData> {
+  const updated = update(await readStoredData());
+  await writeStoredData(updated);
+  return updated;
+}
+
+// Read all stored data for a command in one go, with recent projects most recently opened
+// first; empty data when it can't be read
+export async function getStoredData(): Promise<StoredData> {
   try {
-    const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.FAVORITES);
-    return stored ? JSON.parse(stored) : [];
+    const data = await readStoredData();
+    return { ...data, recentProjects: [...data.recentProjects].sort((a, b) => b.lastAccessed - a.lastAccessed) };
   } catch {
-    return [];
+    return emptyStoredData();
   }
 }
 
+// Get stored favorites
+export async function getFavorites(): Promise<string[]> {
+  return (await getStoredData()).favorites;
+}
+
 // Toggle favorite status
 export async function toggleFavorite(projectPath: string): Promise<boolean> {
   try {
-    const favorites = await getFavorites();
-    const index = favorites.indexOf(projectPath);
-
-    if (index === -1) {
-      favorites.push(projectPath);
-      await LocalStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites));
-      await showToast({
-        style: Toast.Style.Success,
-        title: "Added to Favorites",
-      });
-      return true;
-    } else {
-      favorites.splice(index, 1);
-      await LocalStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites));
-      await showToast({
-        style: Toast.Style.Success,
-        title: "Removed from Favorites",
-      });
-      return false;
-    }
+    const { favorites } = await updateStoredData((data) =>
+      setFavorites(data, [projectPath], !includesPath(data.favorites, projectPath)),
+    );
+    const isFavorite = includesPath(favorites, projectPath);
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: isFavorite ? "Added to Favorites" : "Removed from Favorites",
+    });
+    return isFavorite;
   } catch (error) {
     await showToast({
       style: Toast.Style.Failure,
@@ -108,35 +179,222 @@ export async function toggleFavorite(projectPath: string): Promise<boolean> {
   }
 }
 
-// Get recent projects
-export async function getRecentProjects(): Promise<StoredData["recentProjects"]> {
+// Add or remove several favorites at once
+export async function updateFavorites(projectPaths: string[], favorite: boolean): Promise<void> {
+  const count = `${projectPaths.length} ${projectPaths.length === 1 ? "project" : "projects"}`;
   try {
-    const stored = await LocalStorage.getItem<string>(STORAGE_KEYS.RECENT_PROJECTS);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
+    await updateStoredData((data) => setFavorites(data, projectPaths, favorite));
+    await showToast({
+      style: Toast.Style.Success,
+      title: favorite ? `Added ${count} to Favorites` : `Removed ${count} from Favorites`,
+    });
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to update favorites",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
   }
 }
 
-// Add to recent projects
+// Get recent projects, most recently opened first
+export async function getRecentProjects(): Promise<StoredData["recentProjects"]> {
+  return (await getStoredData()).recentProjects;
+}
+
+// Record an open of a project for frecency ranking
 export async function addToRecentProjects(projectPath: string): Promise<void> {
   try {
-    const recent = await getRecentProjects();
+    const now = Date.now();
+
+    // Keep the history bounded by dropping decayed entries rather than a fixed cut-off
+    await updateStoredData((data) => ({
+      ...data,
+      recentProjects: pruneHistory(recordVisit(data.recentProjects, projectPath, now), now),
+    }));
+  } catch (error) {
+    console.error("Failed to update recent projects:", error);
+  }
+}
+
+// Get user tags by project path
+export async function getProjectTags(): Promise<StoredData["tags"]> {
+  return (await getStoredData()).tags;
+}
+
+// Replace a project's tags
+export async function saveProjectTags(projectPath: string, tags: string[]): Promise<boolean> {
+  try {
+    await updateStoredData((data) => setProjectTags(data, projectPath, tags));
+    await showToast({ style: Toast.Style.Success, title: "Tags Saved" });
+    return true;
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to save tags",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
 
-    // Remove if already exists
-    const filtered = recent.filter((p) => p.path !== projectPath);
+// Get project sets: member paths by set name
+export async function getProjectSets(): Promise<StoredData["sets"]> {
+  return (await getStoredData()).sets;
+}
 
-    // Add to beginning with timestamp
-    filtered.unshift({
-      path: projectPath,
-      lastAccessed: Date.now(),
+// Apply a change to the project sets, reporting success or failure in a toast
+export async function saveProjectSets(
+  update: (data: StoredData) => StoredData,
+  successTitle: string,
+): Promise<boolean> {
+  try {
+    await updateStoredData(update);
+    await showToast({ style: Toast.Style.Success, title: successTitle });
+    return true;
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to update project sets",
+      message: error instanceof Error ? error.message : "Unknown error",
     });
+    return false;
+  }
+}
 
-    // Keep only last 10
-    const trimmed = filtered.slice(0, 10);
+// Get terminal startup commands by project path
+export async function getStartupCommands(): Promise<StoredData["commands"]> {
+  return (await getStoredData()).commands;
+}
 
-    await LocalStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify(trimmed));
+// Set or clear (with an empty command) the command run when a project opens in the terminal
+export async function saveStartupCommand(projectPath: string, command: string): Promise<boolean> {
+  try {
+    await updateStoredData((data) => setStartupCommand(data, projectPath, command));
+    await showToast({
+      style: Toast.Style.Success,
+      title: command.trim() ? "Startup Command Saved" : "Startup Command Cleared",
+    });
+    return true;
   } catch (error) {
-    console.error("Failed to update recent projects:", error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to save startup command",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
+
+// Get "Always open with…" editor overrides by project path
+export async function getEditorOverrides(): Promise<StoredData["editors"]> {
+  return (await getStoredData()).editors;
+}
+
+// Set or clear (with undefined) the editor a project always opens with
+export async function saveEditorOverride(projectPath: string, application: Application | undefined): Promise<void> {
+  try {
+    await updateStoredData((data) => {
+      const editors = { ...data.editors };
+      if (application) {
+        editors[pathKey(projectPath)] = application.path;
+      } else {
+        delete editors[pathKey(projectPath)];
+      }
+      return { ...data, editors };
+    });
+    await showToast({
+      style: Toast.Style.Success,
+      title: application ? `Always opening with ${application.name}` : "Using editor rules",
+    });
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to save editor",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function getRemoteKey(path: string): Promise<string | undefined> {
+  const remote = await getRemote(path);
+  return remote ? remoteKey(remote) : undefined;
+}
+
+function describeRelinks(relinks: Relink[]): string {
+  return relinks.map(({ from, to }) => `${formatDisplayPath(from)} → ${formatDisplayPath(to)}`).join(", ");
+}
+
+// Check stored paths pj no longer finds after a fresh scan. Missing projects may only be on an
+// unmounted volume, so nothing is removed or relinked (same name and git remote elsewhere) until
+// the user accepts the toast's action.
+export async function reconcileStoredData(projects: Project[], onChange?: () => void): Promise<void> {
+  try {
+    const data = await readStoredData();
+    const plan = await planReconciliation(data, projects, { exists: pathExists, getRemoteKey });
+
+    // Remember remotes of projects that exist now, so they can be matched if they move later
+    const unrecorded = pathsWithoutRemote(data, projects);
+    if (unrecorded.length > 0) {
+      const found = await mapWithConcurrency(unrecorded, 4, getRemoteKey);
+      const remotes = Object.fromEntries(unrecorded.map((path, index) => [path, found[index]]));
+      await updateStoredData((current) => recordRemotes(current, remotes));
+    }
+    if (plan.removed.length === 0 && plan.relinks.length === 0) {
+      return;
+    }
+
+    const count = (n: number) => `${n} ${n === 1 ? "project" : "projects"}`;
+    const toast = await showToast({
+      style: Toast.Style.Success,
+      title:
+        plan.removed.length > 0
+          ? `${count(plan.removed.length)} no longer found`
+          : `${count(plan.relinks.length)} moved`,
+      message:
+        plan.relinks.length === 0
+          ? plan.removed.map((path) => basename(path)).join(", ")
+          : plan.removed.length > 0
+            ? `${count(plan.relinks.length)} moved: ${describeRelinks(plan.relinks)}`
+            : describeRelinks(plan.relinks),
+    });
+    const apply = async (update: (current: StoredData) => StoredData, title: string) => {
+      await updateStoredData(update);
+      toast.style = Toast.Style.Success;
+      toast.title = title;
+      toast.message = undefined;
+      toast.primaryAction = undefined;
+      toast.secondaryAction = undefined;
+      onChange?.();
+    };
+    const relink =
+      plan.relinks.length > 0
+        ? {
+            title: `Relink ${count(plan.relinks.length)}`,
+            onAction: () =>
+              apply((current) => applyRelinks(current, plan.relinks), `Relinked ${count(plan.relinks.length)}`),
+          }
+        : undefined;
+    const remove =
+      plan.removed.length > 0
+        ? {
+            title: `Remove ${count(plan.removed.length)}`,
+            onAction: () =>
+              apply((current) => applyRemovals(current, plan.removed), `Removed ${count(plan.removed.length)}`),
+          }
+        : undefined;
+    toast.primaryAction = relink ?? remove;
+    toast.secondaryAction = relink ? remove : undefined;
+  } catch (error) {
+    console.error("Failed to reconcile stored projects:", error);
   }
 }
@@ -0,0 +1,110 @@
+import { Action, Application, Icon, showToast, Toast } from "@raycast/api";
+import { execFile } from "child_process";
+import { basename } from "path";
+import type { ReactNode } from "react";
+import { promisify } from "util";
+import { findApplicationByName } from "./editor-rules";
+import { formatProjectType } from "./markers";
+import type { Project } from "./types";
+import { addToRecentProjects } from "./utils";
+import { codeCliPath, loadDevcontainerUri, pickJetBrainsIde, type ProjectWorkspace } from "./workspaces";
+
+const execFileAsync = promisify(execFile);
+
+// Editors that understand .code-workspace files and dev containers
+const CODE_EDITOR_PATTERN = /visual studio code|vscodium|cursor|windsurf/i;
+
+function findCodeEditor(applications: Application[], editorApp: Application | undefined): Application | undefined {
+  if (editorApp && CODE_EDITOR_PATTERN.test(editorApp.name)) return editorApp;
+  return (
+    findApplicationByName(applications, "Visual Studio Code") ??
+    applications.find((app) => CODE_EDITOR_PATTERN.test(app.name))
+  );
+}
+
+async function reopenInContainer(project: Project, workspace: ProjectWorkspace, editor: Application) {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Opening dev container" });
+  try {
+    const uri = await loadDevcontainerUri(project.path, workspace.path);
+    await execFileAsync(codeCliPath(editor), ["--folder-uri", uri], { timeout: 30000 });
+    await addToRecentProjects(project.path);
+    toast.style = Toast.Style.Success;
+    toast.title = `Reopening in container with ${editor.name}`;
+  } catch (error) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Failed to open dev container";
+    toast.message = error instanceof Error ? error.message : "Unknown error";
+  }
+}
+
+interface WorkspaceActionsOptions {
+  project: Project;
+  workspaces: ProjectWorkspace[];
+  applications: Application[];
+  editorApp: Application | undefined;
+}
+
+// One action per detected workspace; workspaces without a suitable installed application are skipped
+export function workspaceActions({
+  project,
+  workspaces,
+  applications,
+  editorApp,
+}: WorkspaceActionsOptions): ReactNode[] {
+  const codeEditor = findCodeEditor(applications, editorApp);
+  const recordOpen = async () => {
+    await addToRecentProjects(project.path);
+  };
+
+  const actions = workspaces.map((workspace): ReactNode => {
+    const key = `workspace-${workspace.path}`;
+    switch (workspace.kind) {
+      case "code-workspace":
+        return codeEditor ? (
+          <Action.Open
+            key={key}
+            title={`Open ${basename(workspace.path)} in ${codeEditor.name}`}
+            icon={Icon.AppWindowGrid2x2}
+            target={workspace.path}
+            application={codeEditor}
+            onOpen={recordOpen}
+          />
+        ) : null;
+      case "xcworkspace":
+        return (
+          <Action.Open
+            key={key}
+            title={`Open ${basename(workspace.path)} in Xcode`}
+            icon={Icon.Hammer}
+            target={workspace.path}
+            application="Xcode"
+            onOpen={recordOpen}
+          />
+        );
+      case "idea": {
+        const ide = pickJetBrainsIde(formatProjectType(project.marker), applications);
+        return ide ? (
+          <Action.Open
+            key={key}
+            title={`Open in ${ide.name}`}
+            icon={Icon.Code}
+            target={project.path}
+            application={ide}
+            onOpen={recordOpen}
+          />
+        ) : null;
+      }
+      case "devcontainer":
+        return codeEditor ? (
+          <Action
+            key={key}
+            title="Reopen in Container"
+            icon={Icon.Box}
+            onAction={() => reopenInContainer(project, workspace, codeEditor)}
+          />
+        ) : null;
+    }
+  });
+
+  return actions.filter((action) => action !== null);
+}
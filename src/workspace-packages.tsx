@@ -0,0 +1,84 @@
+import { Action, getPreferenceValues, Icon, List, useNavigation } from "@raycast/api";
+import { useCachedPromise, useCachedState } from "@raycast/utils";
+import { relative } from "path";
+import { useState } from "react";
+import { formatProjectType } from "./markers";
+import { loadWorkspacePackages, type WorkspacePackage } from "./monorepo";
+import { ProjectActions } from "./project-actions";
+import { ProjectDetail } from "./project-detail";
+import type { Preferences, Project } from "./types";
+import { useApplications } from "./use-applications";
+import { useCustomActions } from "./use-custom-actions";
+import { useEditorRules } from "./use-editor-rules";
+import { getProjectIcon } from "./utils";
+
+// Packages are shown as projects so they get the full action panel
+function toProject(parent: Project, pkg: WorkspacePackage): Project {
+  return { ...parent, name: pkg.name, path: pkg.path, marker: pkg.marker, icon: "" };
+}
+
+interface WorkspacePackagesProps {
+  parent: Project;
+}
+
+// Pushed list of a monorepo's packages, titled with a breadcrumb back to the parent project
+export function WorkspacePackages({ parent }: WorkspacePackagesProps) {
+  const preferences = getPreferenceValues<Preferences>();
+  const { pop } = useNavigation();
+  const { data: packages = [], isLoading, revalidate } = useCachedPromise(loadWorkspacePackages, [parent.path]);
+  const [isShowingDetail, setIsShowingDetail] = useCachedState<boolean>("show-project-detail", false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const { terminalApp, editorApp, applications } = useApplications(preferences);
+  const editorRules = useEditorRules();
+  const customActions = useCustomActions();
+
+  return (
+    <List
+      navigationTitle={`${parent.name} › Packages`}
+      isLoading={isLoading}
+      isShowingDetail={isShowingDetail}
+      searchBarPlaceholder={`Search packages in ${parent.name}...`}
+      onSelectionChange={setSelectedPath}
+    >
+      <List.EmptyView icon={Icon.Box} title="No Workspace Packages Found" />
+      <List.Section title={parent.name} subtitle={`${packages.length} packages`}>
+        {packages.map((pkg) => {
+          const project = toProject(parent, pkg);
+          return (
+            <List.Item
+              key={pkg.path}
+              id={pkg.path}
+              icon={getProjectIcon(project)}
+              title={pkg.name}
+              subtitle={isShowingDetail ? undefined : relative(parent.path, pkg.path)}
+              detail={isShowingDetail && selectedPath === pkg.path ? <ProjectDetail project={project} /> : undefined}
+              accessories={[{ tag: pkg.tool }, { tag: formatProjectType(pkg.marker) }]}
+              actions={
+                <ProjectActions
+                  project={project}
+                  preferences={preferences}
+                  terminalApp={terminalApp}
+                  editorApp={editorApp}
+                  applications={applications}
+                  editorRules={editorRules}
+                  customActions={customActions}
+                  isShowingDetail={isShowingDetail}
+                  isSelected={selectedPath === pkg.path}
+                  onRefresh={revalidate}
+                  onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
+                >
+                  <Action
+                    title={`Back to ${parent.name}`}
+                    icon={Icon.ArrowLeft}
+                    shortcut={{ modifiers: ["cmd"], key: "[" }}
+                    onAction={pop}
+                  />
+                </ProjectActions>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
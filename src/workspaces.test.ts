@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { join } from "path";
+import {
+  buildDevcontainerUri,
+  codeCliPath,
+  detectWorkspaces,
+  loadDevcontainerUri,
+  pickJetBrainsIde,
+  readDevcontainerWorkspaceFolder,
+} from "./workspaces";
+
+const FIXTURES = join(__dirname, "__fixtures__", "workspaces");
+
+describe("detectWorkspaces", () => {
+  it("finds .code-workspace files", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "vscode"))).toEqual([
+      { kind: "code-workspace", path: join(FIXTURES, "vscode", "app.code-workspace") },
+    ]);
+  });
+
+  it("prefers .devcontainer/devcontainer.json over a root .devcontainer.json", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "devcontainer"))).toEqual([
+      { kind: "devcontainer", path: join(FIXTURES, "devcontainer", ".devcontainer", "devcontainer.json") },
+    ]);
+  });
+
+  it("finds a root .devcontainer.json", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "devcontainer-root"))).toEqual([
+      { kind: "devcontainer", path: join(FIXTURES, "devcontainer-root", ".devcontainer.json") },
+    ]);
+  });
+
+  it("finds IntelliJ .idea directories", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "idea"))).toEqual([
+      { kind: "idea", path: join(FIXTURES, "idea", ".idea") },
+    ]);
+  });
+
+  it("finds root .xcworkspace bundles but not the one inside .xcodeproj", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "xcode"))).toEqual([
+      { kind: "xcworkspace", path: join(FIXTURES, "xcode", "App.xcworkspace") },
+    ]);
+  });
+
+  it("orders several workspaces with editor workspaces first and dev containers last", async () => {
+    const workspaces = await detectWorkspaces(join(FIXTURES, "multi"));
+    expect(workspaces.map((workspace) => [workspace.kind, workspace.path.slice(FIXTURES.length + 1)])).toEqual([
+      ["code-workspace", join("multi", "a.code-workspace")],
+      ["code-workspace", join("multi", "b.code-workspace")],
+      ["idea", join("multi", ".idea")],
+      ["devcontainer", join("multi", ".devcontainer", "devcontainer.json")],
+    ]);
+  });
+
+  it("returns nothing for plain or missing folders", async () => {
+    expect(await detectWorkspaces(join(FIXTURES, "plain"))).toEqual([]);
+    expect(await detectWorkspaces(join(FIXTURES, "missing"))).toEqual([]);
+  });
+});
+
+describe("pickJetBrainsIde", () => {
+  const installed = [{ name: "IntelliJ IDEA" }, { name: "GoLand" }, { name: "RustRover" }];
+
+  it("picks the IDE for the project type", () => {
+    expect(pickJetBrainsIde("go", installed)).toEqual({ name: "GoLand" });
+    expect(pickJetBrainsIde("cargo", installed)).toEqual({ name: "RustRover" });
+  });
+
+  it("falls back to IntelliJ IDEA", () => {
+    expect(pickJetBrainsIde("python", installed)).toEqual({ name: "IntelliJ IDEA" });
+    expect(pickJetBrainsIde("git", installed)).toEqual({ name: "IntelliJ IDEA" });
+  });
+
+  it("returns undefined without a JetBrains IDE", () => {
+    expect(pickJetBrainsIde("go", [{ name: "Zed" }])).toBeUndefined();
+  });
+});
+
+describe("readDevcontainerWorkspaceFolder", () => {
+  it("reads workspaceFolder from JSONC", () => {
+    expect(readDevcontainerWorkspaceFolder('{\n// comment\n"workspaceFolder": "/src/api"\n}', "/code/api")).toBe(
+      "/src/api",
+    );
+  });
+
+  it("defaults to /workspaces/<folder name>", () => {
+    expect(readDevcontainerWorkspaceFolder('{"image": "node"}', "/code/web")).toBe("/workspaces/web");
+    expect(readDevcontainerWorkspaceFolder("{", "/code/web")).toBe("/workspaces/web");
+    expect(readDevcontainerWorkspaceFolder(undefined, "/code/web")).toBe("/workspaces/web");
+  });
+});
+
+describe("buildDevcontainerUri", () => {
+  it("hex-encodes the host path", () => {
+    expect(buildDevcontainerUri("/code/web", "/workspaces/web")).toBe(
+      "vscode-remote://dev-container+2f636f64652f776562/workspaces/web",
+    );
+  });
+
+  it("reads the workspace folder from the fixture", async () => {
+    const project = join(FIXTURES, "devcontainer");
+    expect(await loadDevcontainerUri(project, join(project, ".devcontainer", "devcontainer.json"))).toBe(
+      buildDevcontainerUri(project, "/src/api"),
+    );
+  });
+});
+
+describe("codeCliPath", () => {
+  it("uses the CLI bundled with the editor", () => {
+    expect(codeCliPath({ name: "Visual Studio Code", path: "/Applications/Visual Studio Code.app" })).toBe(
+      "/Applications/Visual Studio Code.app/Contents/Resources/app/bin/code",
+    );
+    expect(codeCliPath({ name: "Cursor", path: "/Applications/Cursor.app" })).toBe(
+      "/Applications/Cursor.app/Contents/Resources/app/bin/cursor",
+    );
+  });
+});
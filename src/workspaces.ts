@@ -0,0 +1,116 @@
+import type { Dirent } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { basename, join } from "path";
+import { stripJsonComments } from "./tasks";
+
+export type WorkspaceKind = "code-workspace" | "xcworkspace" | "idea" | "devcontainer";
+
+// Something in the project that should be opened instead of the bare folder
+export interface ProjectWorkspace {
+  kind: WorkspaceKind;
+  // Workspace file or directory; the devcontainer.json file for dev containers
+  path: string;
+}
+
+// Preferred order when a project has several workspaces; dev containers are slowest to open, so last
+export const WORKSPACE_ORDER: WorkspaceKind[] = ["code-workspace", "xcworkspace", "idea", "devcontainer"];
+
+// JetBrains IDEs by project type, most specific first; IntelliJ IDEA opens anything
+export const JETBRAINS_IDES: Record<string, string[]> = {
+  cargo: ["RustRover", "CLion"],
+  go: ["GoLand"],
+  python: ["PyCharm", "PyCharm Professional Edition", "PyCharm Community Edition"],
+  php: ["PhpStorm"],
+  ruby: ["RubyMine"],
+  npm: ["WebStorm"],
+  deno: ["WebStorm"],
+  maven: ["IntelliJ IDEA", "IntelliJ IDEA Ultimate", "IntelliJ IDEA CE"],
+  gradle: ["IntelliJ IDEA", "IntelliJ IDEA Ultimate", "IntelliJ IDEA CE", "Android Studio"],
+  dart: ["Android Studio"],
+};
+
+const FALLBACK_JETBRAINS_IDES = ["IntelliJ IDEA", "IntelliJ IDEA Ultimate", "IntelliJ IDEA CE", "Fleet"];
+
+async function listEntries(dir: string): Promise<Dirent[]> {
+  try {
+    return await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+// Workspaces in the project's root, in WORKSPACE_ORDER and then by name
+export async function detectWorkspaces(projectPath: string): Promise<ProjectWorkspace[]> {
+  const entries = await listEntries(projectPath);
+  const workspaces: ProjectWorkspace[] = [];
+
+  for (const entry of entries) {
+    const path = join(projectPath, entry.name);
+    if (entry.isFile() && entry.name.endsWith(".code-workspace")) {
+      workspaces.push({ kind: "code-workspace", path });
+    } else if (entry.isDirectory() && entry.name.endsWith(".xcworkspace")) {
+      workspaces.push({ kind: "xcworkspace", path });
+    } else if (entry.isDirectory() && entry.name === ".idea") {
+      workspaces.push({ kind: "idea", path });
+    } else if (entry.isFile() && entry.name === ".devcontainer.json") {
+      workspaces.push({ kind: "devcontainer", path });
+    } else if (entry.isDirectory() && entry.name === ".devcontainer") {
+      const inner = await listEntries(path);
+      if (inner.some((file) => file.isFile() && file.name === "devcontainer.json")) {
+        workspaces.push({ kind: "devcontainer", path: join(path, "devcontainer.json") });
+      }
+    }
+  }
+
+  // .devcontainer/devcontainer.json wins over a root .devcontainer.json, as in VS Code
+  const nested = workspaces.find(
+    (workspace) => workspace.kind === "devcontainer" && basename(workspace.path) === "devcontainer.json",
+  );
+  const deduplicated = workspaces.filter(
+    (workspace) => workspace.kind !== "devcontainer" || !nested || workspace === nested,
+  );
+
+  return deduplicated.sort(
+    (a, b) => WORKSPACE_ORDER.indexOf(a.kind) - WORKSPACE_ORDER.indexOf(b.kind) || a.path.localeCompare(b.path),
+  );
+}
+
+// First installed JetBrains IDE suited to the project type
+export function pickJetBrainsIde<T extends { name: string }>(projectType: string, installed: T[]): T | undefined {
+  const names = [...(JETBRAINS_IDES[projectType] ?? []), ...FALLBACK_JETBRAINS_IDES];
+  for (const name of names) {
+    const match = installed.find((app) => app.name === name);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// `workspaceFolder` from devcontainer.json, defaulting to /workspaces/<folder name> like VS Code
+export function readDevcontainerWorkspaceFolder(contents: string | undefined, projectPath: string): string {
+  try {
+    const config = contents ? JSON.parse(stripJsonComments(contents)) : undefined;
+    if (typeof config?.workspaceFolder === "string" && config.workspaceFolder.startsWith("/")) {
+      return config.workspaceFolder;
+    }
+  } catch {
+    // Fall back to the default folder
+  }
+  return `/workspaces/${basename(projectPath)}`;
+}
+
+// Folder URI that makes VS Code reopen the project in its dev container
+export function buildDevcontainerUri(projectPath: string, workspaceFolder: string): string {
+  return `vscode-remote://dev-container+${Buffer.from(projectPath, "utf8").toString("hex")}${workspaceFolder}`;
+}
+
+// Command line tool bundled with VS Code and its forks
+export function codeCliPath(application: { name: string; path: string }): string {
+  const name = application.name.toLowerCase();
+  const binary = name.includes("cursor") ? "cursor" : name.includes("insiders") ? "code-insiders" : "code";
+  return join(application.path, "Contents", "Resources", "app", "bin", binary);
+}
+
+export async function loadDevcontainerUri(projectPath: string, devcontainerFile: string): Promise<string> {
+  const contents = await readFile(devcontainerFile, "utf8").catch(() => undefined);
+  return buildDevcontainerUri(projectPath, readDevcontainerWorkspaceFolder(contents, projectPath));
+}